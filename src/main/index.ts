@@ -5,10 +5,22 @@
  */
 
 import { app, BrowserWindow } from 'electron';
-import * as path from 'path';
 import { registerAuthHandlers, clearSession, initializeAuth } from './ipc/authHandlers';
 import { registerTestHandlers } from './ipc/testHandlers';
 import { registerTemplateHandlers } from './ipc/templateHandlers';
+import { registerRunHandlers } from './ipc/runHandlers';
+import { registerImportHandlers } from './ipc/importHandlers';
+import { registerPreconditionHandlers } from './ipc/preconditionHandlers';
+import { registerPlanHandlers } from './ipc/planHandlers';
+import { registerRepositoryHandlers } from './ipc/repositoryHandlers';
+import { registerExportHandlers } from './ipc/exportHandlers';
+import { registerBulkEditHandlers } from './ipc/bulkEditHandlers';
+import { registerSavedSearchHandlers } from './ipc/savedSearchHandlers';
+import { registerCoverageHandlers } from './ipc/coverageHandlers';
+import { registerTraceabilityHandlers } from './ipc/traceabilityHandlers';
+import { registerAttachmentHandlers } from './ipc/attachmentHandlers';
+import { registerTransitionHandlers } from './ipc/transitionHandlers';
+import { createAppWindow } from './windows';
 
 // FIX: Suppress url.parse() deprecation warning from Electron internals and axios
 // This warning comes from Electron/axios dependencies, not our code
@@ -28,58 +40,23 @@ let mainWindow: BrowserWindow | null = null;
 app.disableHardwareAcceleration();
 
 function createWindow() {
-  mainWindow = new BrowserWindow({
+  mainWindow = createAppWindow({
     width: 1400,
     height: 900,
     minWidth: 1200,
     minHeight: 700,
-    webPreferences: {
-      // Security settings
-      nodeIntegration: false, // Do not expose Node.js to renderer
-      contextIsolation: true, // Isolate context between main and renderer
-      sandbox: true, // Enable sandboxing
-      webSecurity: true, // Enable web security
-      allowRunningInsecureContent: false,
-      
-      // Preload script - use path.join for proper path resolution
-      preload: path.join(__dirname, '../preload.js'),
-    },
-    // Window styling
-    backgroundColor: '#ffffff',
-    show: false, // Don't show until ready
     title: 'Jira Xray Orchestrator',
   });
 
-  // Load the app
+  // Open DevTools in development
   if (process.env.NODE_ENV === 'development' || !app.isPackaged) {
-    mainWindow.loadURL('http://localhost:5173');
-    // Open DevTools in development
     mainWindow.webContents.openDevTools();
-  } else {
-    mainWindow.loadFile(path.join(__dirname, '../../dist/index.html'));
   }
 
-  // Show window when ready
-  mainWindow.once('ready-to-show', () => {
-    mainWindow?.show();
-  });
-
   // Handle window closed
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
-
-  // Prevent navigation to external URLs (security)
-  mainWindow.webContents.on('will-navigate', (event, url) => {
-    if (!url.startsWith('http://localhost') && !url.startsWith('file://')) {
-      event.preventDefault();
-    }
-  });
-
-  // Prevent opening new windows (security)
-  mainWindow.webContents.setWindowOpenHandler(() => {
-    return { action: 'deny' };
-  });
 }
 
 // Register IPC handlers
@@ -87,6 +64,18 @@ function registerHandlers() {
   registerAuthHandlers();
   registerTestHandlers();
   registerTemplateHandlers();
+  registerRunHandlers();
+  registerImportHandlers();
+  registerPreconditionHandlers();
+  registerPlanHandlers();
+  registerRepositoryHandlers();
+  registerExportHandlers();
+  registerBulkEditHandlers();
+  registerSavedSearchHandlers();
+  registerCoverageHandlers();
+  registerTraceabilityHandlers();
+  registerAttachmentHandlers();
+  registerTransitionHandlers();
 }
 
 // App lifecycle
@@ -0,0 +1,72 @@
+/**
+ * Attachment IPC Handlers
+ * Files arrive from the renderer as bytes (picked or dropped there), so no
+ * local path is ever trusted; downloads go to a path the user picks through
+ * a native save dialog
+ */
+
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import { promises as fs } from 'fs';
+import { getJiraService } from './authHandlers.js';
+import { AttachmentService } from '../services/attachmentService.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  Attachment,
+  AttachmentTarget,
+  AttachmentUpload,
+  AttachmentUploadResult,
+} from '../../shared/types.js';
+
+export function registerAttachmentHandlers() {
+  ipcMain.handle(
+    IPC_CHANNELS.GET_ATTACHMENTS,
+    async (_, target: AttachmentTarget): Promise<Result<Attachment[]>> => {
+      try {
+        const attachments = await new AttachmentService(getJiraService()).list(target);
+        return { success: true, data: attachments };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Upload files to an issue or as run / step evidence; one result per file
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.UPLOAD_ATTACHMENTS,
+    async (_, target: AttachmentTarget, files: AttachmentUpload[]): Promise<Result<AttachmentUploadResult[]>> => {
+      try {
+        const results = await new AttachmentService(getJiraService()).upload(target, files);
+        return { success: true, data: results };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Save an attachment locally (returns the path, or null when cancelled)
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.DOWNLOAD_ATTACHMENT,
+    async (event, attachment: Attachment): Promise<Result<string | null>> => {
+      try {
+        const jiraService = getJiraService();
+        const window = BrowserWindow.fromWebContents(event.sender);
+        const options: Electron.SaveDialogOptions = { title: 'Save Attachment', defaultPath: attachment.fileName };
+        const result = window
+          ? await dialog.showSaveDialog(window, options)
+          : await dialog.showSaveDialog(options);
+        if (result.canceled || !result.filePath) return { success: true, data: null };
+
+        await fs.writeFile(result.filePath, await jiraService.downloadAttachment(attachment.url));
+        return { success: true, data: result.filePath };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Bulk Edit IPC Handlers
+ * Preview and apply label / component / fix version / priority / assignee
+ * changes across many Tests
+ */
+
+import { ipcMain } from 'electron';
+import { getCurrentSession } from './authHandlers.js';
+import { BulkEditService } from '../services/bulkEditService.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  IssueQuery,
+  BulkEditIssue,
+  BulkEditRequest,
+  BulkEditResult,
+} from '../../shared/types.js';
+
+export function registerBulkEditHandlers() {
+  /**
+   * Tests matching a JQL query or key list, with their current values
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.BULK_EDIT_PREVIEW,
+    async (_, query: IssueQuery): Promise<Result<BulkEditIssue[]>> => {
+      try {
+        const session = getCurrentSession();
+        const issues = await new BulkEditService(session.jiraService).preview(query);
+        return { success: true, data: issues };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Apply the operations; succeeds with per-issue results even when some fail
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.BULK_EDIT_APPLY,
+    async (_, request: BulkEditRequest): Promise<Result<BulkEditResult[]>> => {
+      try {
+        const session = getCurrentSession();
+        const results = await new BulkEditService(session.jiraService).apply(request);
+        return { success: true, data: results };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Coverage IPC Handlers
+ * Covering tests of a story with their latest runs, and bulk coverage changes
+ */
+
+import { ipcMain } from 'electron';
+import { getJiraService } from './authHandlers.js';
+import { CoverageService } from '../services/coverageService.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  AssociationChange,
+  CoverageChangeResult,
+  StoryCoverage,
+} from '../../shared/types.js';
+
+export function registerCoverageHandlers() {
+  /**
+   * Tests covering a story, their runs per execution and the coverage state
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_STORY_COVERAGE,
+    async (_, storyKey: string): Promise<Result<StoryCoverage>> => {
+      try {
+        const coverage = await new CoverageService(getJiraService()).getStoryCoverage(storyKey.trim().toUpperCase());
+        return { success: true, data: coverage };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Add / remove covering tests; succeeds with per-test results even when some fail
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.UPDATE_STORY_COVERAGE,
+    async (_, storyKey: string, change: AssociationChange): Promise<Result<CoverageChangeResult[]>> => {
+      try {
+        const results = await new CoverageService(getJiraService()).updateStoryCoverage(storyKey.trim().toUpperCase(), change);
+        return { success: true, data: results };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Export IPC Handlers
+ * Rows are built in the main process and written to a path the user picks
+ * through a native save dialog; the renderer never supplies a file path.
+ */
+
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import { promises as fs } from 'fs';
+import { getCurrentSession } from './authHandlers.js';
+import { ExportService } from '../services/exportService.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type { Result, AppError, ExportRequest, ExportResult } from '../../shared/types.js';
+
+const FORMAT_FILTERS: Record<ExportRequest['format'], Electron.FileFilter> = {
+  csv: { name: 'CSV', extensions: ['csv'] },
+  xlsx: { name: 'Excel Workbook', extensions: ['xlsx'] },
+};
+
+/**
+ * Show a save dialog; null when cancelled
+ */
+async function selectSavePath(
+  event: Electron.IpcMainInvokeEvent,
+  request: ExportRequest,
+  projectKey: string
+): Promise<string | null> {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const date = new Date().toISOString().split('T')[0];
+  const options: Electron.SaveDialogOptions = {
+    title: 'Export',
+    defaultPath: `${projectKey}-${request.entity}-${date}.${request.format}`,
+    filters: [FORMAT_FILTERS[request.format]],
+  };
+  const result = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options);
+
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+export function registerExportHandlers() {
+  /**
+   * Export tests, test sets or executions (returns null data when cancelled)
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_ISSUES,
+    async (event, request: ExportRequest): Promise<Result<ExportResult | null>> => {
+      try {
+        const session = getCurrentSession();
+        const filePath = await selectSavePath(event, request, session.projectKey);
+        if (!filePath) return { success: true, data: null };
+
+        const exportService = new ExportService(session.jiraService);
+        const { rows, issueCount } = await exportService.buildRows(request);
+        await fs.writeFile(filePath, ExportService.serialize(rows, request.format, request.entity));
+
+        return {
+          success: true,
+          data: { filePath, issueCount, rowCount: rows.length - 1 },
+        };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
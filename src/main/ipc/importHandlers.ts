@@ -0,0 +1,161 @@
+/**
+ * Results Import IPC Handlers
+ * Files are chosen through a native dialog in the main process; the renderer
+ * only ever gets back paths it was allowed to pick.
+ */
+
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import * as path from 'path';
+import { getJiraService } from './authHandlers.js';
+import { ResultsImportService } from '../services/resultsImportService.js';
+import { FeatureParser } from '../services/featureParser.js';
+import { IPC_CHANNELS, ErrorCode } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  CucumberImportInput,
+  CucumberPreviewResult,
+  FeatureFileResult,
+  JUnitImportInput,
+  JUnitParseResult,
+  ResultsImportResult,
+} from '../../shared/types.js';
+
+// Paths picked through the open dialog during this session
+const selectedFiles = new Set<string>();
+
+/**
+ * Show an open dialog and remember the chosen file
+ */
+async function selectFile(
+  event: Electron.IpcMainInvokeEvent,
+  title: string,
+  filters: Electron.FileFilter[]
+): Promise<string | null> {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const options: Electron.OpenDialogOptions = { title, filters, properties: ['openFile'] };
+  const result = window
+    ? await dialog.showOpenDialog(window, options)
+    : await dialog.showOpenDialog(options);
+
+  if (result.canceled || result.filePaths.length === 0) return null;
+
+  const filePath = result.filePaths[0];
+  selectedFiles.add(filePath);
+  return filePath;
+}
+
+function assertSelected(filePath: string): void {
+  if (!selectedFiles.has(filePath)) {
+    throw {
+      code: ErrorCode.FORBIDDEN,
+      message: 'File was not selected through the import dialog',
+    } as AppError;
+  }
+}
+
+export function registerImportHandlers() {
+  /**
+   * Pick and parse a JUnit XML report (returns null data when cancelled)
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.SELECT_JUNIT_FILE,
+    async (event): Promise<Result<JUnitParseResult | null>> => {
+      try {
+        const filePath = await selectFile(event, 'Select JUnit XML report', [
+          { name: 'JUnit XML', extensions: ['xml'] },
+        ]);
+        if (!filePath) return { success: true, data: null };
+
+        const testCases = await ResultsImportService.parseJUnitFile(filePath);
+        return {
+          success: true,
+          data: { filePath, fileName: path.basename(filePath), testCases },
+        };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Map and import a previously selected JUnit report
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.IMPORT_JUNIT_RESULTS,
+    async (_, input: JUnitImportInput): Promise<Result<ResultsImportResult>> => {
+      try {
+        assertSelected(input.filePath);
+        const importService = new ResultsImportService(getJiraService());
+        const result = await importService.importJUnit(input);
+        return { success: true, data: result };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Pick a Cucumber/Karate JSON report and preview its scenario mapping
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.SELECT_CUCUMBER_FILE,
+    async (event): Promise<Result<CucumberPreviewResult | null>> => {
+      try {
+        const filePath = await selectFile(event, 'Select Cucumber JSON report', [
+          { name: 'Cucumber / Karate JSON', extensions: ['json'] },
+        ]);
+        if (!filePath) return { success: true, data: null };
+
+        const importService = new ResultsImportService(getJiraService());
+        const scenarios = await importService.previewCucumber(filePath);
+        return {
+          success: true,
+          data: { filePath, fileName: path.basename(filePath), scenarios },
+        };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Publish a previously selected Cucumber report as a new Test Execution
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.IMPORT_CUCUMBER_RESULTS,
+    async (_, input: CucumberImportInput): Promise<Result<ResultsImportResult>> => {
+      try {
+        assertSelected(input.filePath);
+        const importService = new ResultsImportService(getJiraService());
+        const result = await importService.importCucumber(input);
+        return { success: true, data: result };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Pick a Gherkin .feature file and parse its scenarios as test drafts
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.SELECT_FEATURE_FILE,
+    async (event): Promise<Result<FeatureFileResult | null>> => {
+      try {
+        const filePath = await selectFile(event, 'Select Gherkin feature file', [
+          { name: 'Gherkin feature', extensions: ['feature'] },
+        ]);
+        if (!filePath) return { success: true, data: null };
+
+        const feature = await FeatureParser.parseFile(filePath);
+        return {
+          success: true,
+          data: { filePath, fileName: path.basename(filePath), feature },
+        };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Test Plan IPC Handlers
+ * Create plans and manage their tests and executions through Xray
+ */
+
+import { ipcMain } from 'electron';
+import { getJiraService } from './authHandlers.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  AssociationChange,
+  CreateIssueResponse,
+  CreateTestPlanInput,
+  TestPlanDetails,
+} from '../../shared/types.js';
+
+export function registerPlanHandlers() {
+  /**
+   * Create a Test Plan, optionally with an initial set of tests
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.CREATE_TEST_PLAN,
+    async (
+      _,
+      planInput: CreateTestPlanInput,
+      testKeys: string[]
+    ): Promise<Result<CreateIssueResponse>> => {
+      try {
+        const jiraService = getJiraService();
+        const testPlan = await jiraService.createTestPlan(planInput);
+
+        // The plan exists from here on, so failing to add its tests is only a warning
+        if (testKeys.length > 0) {
+          try {
+            await jiraService.updateTestPlanTests(testPlan.key, { add: testKeys });
+          } catch (error: unknown) {
+            const warning = `${testPlan.key} was created, but ${testKeys.join(', ')} could not be added: ${(error as AppError).message}`;
+            return { success: true, data: { ...testPlan, warnings: [warning] } };
+          }
+        }
+
+        return { success: true, data: testPlan };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Get a plan with its tests, their latest status, and its executions
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_TEST_PLAN,
+    async (_, testPlanKey: string): Promise<Result<TestPlanDetails>> => {
+      try {
+        const jiraService = getJiraService();
+        const plan = await jiraService.getTestPlan(testPlanKey);
+        return { success: true, data: plan };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Add / remove tests of a plan
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.UPDATE_TEST_PLAN_TESTS,
+    async (_, testPlanKey: string, change: AssociationChange): Promise<Result<void>> => {
+      try {
+        const jiraService = getJiraService();
+        await jiraService.updateTestPlanTests(testPlanKey, change);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Attach / detach Test Executions of a plan
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.UPDATE_TEST_PLAN_EXECUTIONS,
+    async (_, testPlanKey: string, change: AssociationChange): Promise<Result<void>> => {
+      try {
+        const jiraService = getJiraService();
+        await jiraService.updateTestPlanExecutions(testPlanKey, change);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
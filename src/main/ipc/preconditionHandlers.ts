@@ -0,0 +1,98 @@
+/**
+ * Pre-Condition IPC Handlers
+ * Create reusable Pre-Conditions and associate them with Tests through Xray
+ * (a real association, not an issue link)
+ */
+
+import { ipcMain } from 'electron';
+import { getJiraService } from './authHandlers.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  CreateIssueResponse,
+  CreatePreconditionInput,
+  Precondition,
+} from '../../shared/types.js';
+
+export function registerPreconditionHandlers() {
+  /**
+   * Create a Pre-Condition issue
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.CREATE_PRECONDITION,
+    async (_, input: CreatePreconditionInput): Promise<Result<CreateIssueResponse>> => {
+      try {
+        const jiraService = getJiraService();
+        const precondition = await jiraService.createPrecondition(input);
+        return { success: true, data: precondition };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Search project Pre-Conditions by key or summary
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.SEARCH_PRECONDITIONS,
+    async (_, query: string): Promise<Result<Precondition[]>> => {
+      try {
+        const jiraService = getJiraService();
+        const preconditions = await jiraService.searchPreconditions(query);
+        return { success: true, data: preconditions };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Pre-Conditions associated with a Test
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_TEST_PRECONDITIONS,
+    async (_, testKey: string): Promise<Result<Precondition[]>> => {
+      try {
+        const jiraService = getJiraService();
+        const preconditions = await jiraService.getTestPreconditions(testKey);
+        return { success: true, data: preconditions };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Associate Pre-Conditions with a Test
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.ADD_TEST_PRECONDITIONS,
+    async (_, testKey: string, preconditionKeys: string[]): Promise<Result<void>> => {
+      try {
+        const jiraService = getJiraService();
+        await jiraService.addPreconditionsToTest(testKey, preconditionKeys);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Remove a Pre-Condition association from a Test
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.REMOVE_TEST_PRECONDITION,
+    async (_, testKey: string, preconditionKey: string): Promise<Result<void>> => {
+      try {
+        const jiraService = getJiraService();
+        await jiraService.removePreconditionFromTest(testKey, preconditionKey);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Test Repository IPC Handlers
+ * Browse and create Xray Test Repository folders, move tests into them.
+ * Folders are addressed by path ("/Checkout/Payments"); ids stay in main.
+ */
+
+import { ipcMain } from 'electron';
+import { getJiraService } from './authHandlers.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type { Result, AppError, TestRepositoryFolder } from '../../shared/types.js';
+
+export function registerRepositoryHandlers() {
+  /**
+   * Get the folder tree of the project's Test Repository
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_TEST_REPOSITORY_FOLDERS,
+    async (): Promise<Result<TestRepositoryFolder>> => {
+      try {
+        const jiraService = getJiraService();
+        const root = await jiraService.getTestRepositoryFolders();
+        return { success: true, data: root };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Create a folder below an existing one
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.CREATE_TEST_REPOSITORY_FOLDER,
+    async (_, parentPath: string, name: string): Promise<Result<TestRepositoryFolder>> => {
+      try {
+        const jiraService = getJiraService();
+        const folder = await jiraService.createTestRepositoryFolder(parentPath, name.trim());
+        return { success: true, data: folder };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Move tests into a folder
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.MOVE_TESTS_TO_FOLDER,
+    async (_, folderPath: string, testKeys: string[]): Promise<Result<void>> => {
+      try {
+        const jiraService = getJiraService();
+        const folderId = await jiraService.resolveFolderPath(folderPath);
+        await jiraService.moveTestsToFolder(folderId, testKeys);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Test Run IPC Handlers
+ * Xray execution runner: list runs of an execution, record results and raise defects
+ */
+
+import { ipcMain } from 'electron';
+import { getJiraService } from './authHandlers.js';
+import { DashboardService } from '../services/dashboardService.js';
+import { DefectService } from '../services/defectService.js';
+import { openRunnerWindow } from '../windows.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  CreatedDefect,
+  DefectDraft,
+  ExecutionDashboard,
+  TestRun,
+  TestRunSummary,
+  UpdateTestRunInput,
+  UpdateTestRunStepInput,
+} from '../../shared/types.js';
+
+export function registerRunHandlers() {
+  /**
+   * List test runs of a Test Execution
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_EXECUTION_TEST_RUNS,
+    async (_, executionKey: string): Promise<Result<TestRunSummary[]>> => {
+      try {
+        const jiraService = getJiraService();
+        const runs = await jiraService.getExecutionTestRuns(executionKey);
+        return { success: true, data: runs };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Get a test run with its steps
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_TEST_RUN,
+    async (_, testRunId: number): Promise<Result<TestRun>> => {
+      try {
+        const jiraService = getJiraService();
+        const run = await jiraService.getTestRun(testRunId);
+        return { success: true, data: run };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Update run status / comment
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.UPDATE_TEST_RUN,
+    async (_, testRunId: number, input: UpdateTestRunInput): Promise<Result<void>> => {
+      try {
+        const jiraService = getJiraService();
+        await jiraService.updateTestRun(testRunId, input);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Update a single step of a run (status, comment, actual result)
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.UPDATE_TEST_RUN_STEP,
+    async (
+      _,
+      testRunId: number,
+      stepId: number,
+      input: UpdateTestRunStepInput
+    ): Promise<Result<void>> => {
+      try {
+        const jiraService = getJiraService();
+        await jiraService.updateTestRunStep(testRunId, stepId, input);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Progress of a Test Execution: every run with assignee, components and defects
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_EXECUTION_DASHBOARD,
+    async (_, executionKey: string): Promise<Result<ExecutionDashboard>> => {
+      try {
+        const dashboard = await new DashboardService(getJiraService())
+          .getExecutionDashboard(executionKey.trim().toUpperCase());
+        return { success: true, data: dashboard };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Open the guided step-by-step runner for a test run in its own window
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.OPEN_RUNNER_WINDOW,
+    async (_, testRunId: number, testKey: string): Promise<Result<void>> => {
+      try {
+        openRunnerWindow(testRunId, testKey);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Pre-fill a Bug from a failed run, or from one failed step of it
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_DEFECT_DRAFT,
+    async (_, testRunId: number, stepId?: number): Promise<Result<DefectDraft>> => {
+      try {
+        const draft = await new DefectService(getJiraService()).buildDraft(testRunId, stepId);
+        return { success: true, data: draft };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Create the Bug, link it to the Test and add it to the run's defects
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.CREATE_DEFECT,
+    async (_, draft: DefectDraft): Promise<Result<CreatedDefect>> => {
+      try {
+        const created = await new DefectService(getJiraService()).createDefect(draft);
+        return { success: true, data: created };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
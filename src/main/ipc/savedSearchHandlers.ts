@@ -0,0 +1,92 @@
+/**
+ * Saved Search IPC Handlers
+ * Named JQL filters stored locally, plus import of the user's Jira favourite filters
+ */
+
+import { app, ipcMain } from 'electron';
+import * as path from 'path';
+import { getJiraService } from './authHandlers.js';
+import { SavedSearchService } from '../services/savedSearchService.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type { Result, AppError, SavedSearch, JiraFilter } from '../../shared/types.js';
+
+let savedSearchService: SavedSearchService | null = null;
+
+// userData is only known once the app is ready, so the service is created on first use
+function getSavedSearchService(): SavedSearchService {
+  if (!savedSearchService) {
+    savedSearchService = new SavedSearchService(path.join(app.getPath('userData'), 'saved-searches.json'));
+  }
+  return savedSearchService;
+}
+
+export function registerSavedSearchHandlers() {
+  ipcMain.handle(
+    IPC_CHANNELS.GET_SAVED_SEARCHES,
+    async (): Promise<Result<SavedSearch[]>> => {
+      try {
+        const searches = await getSavedSearchService().getAll();
+        return { success: true, data: searches };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Create a saved search, or update the one with the same id
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.SAVE_SEARCH,
+    async (_, search: Pick<SavedSearch, 'name' | 'jql'> & Partial<SavedSearch>): Promise<Result<SavedSearch>> => {
+      try {
+        const saved = await getSavedSearchService().save(search);
+        return { success: true, data: saved };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.DELETE_SAVED_SEARCH,
+    async (_, id: string): Promise<Result<void>> => {
+      try {
+        await getSavedSearchService().delete(id);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * The signed-in user's favourite filters in Jira
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_FAVOURITE_FILTERS,
+    async (): Promise<Result<JiraFilter[]>> => {
+      try {
+        const filters = await getJiraService().getFavouriteFilters();
+        return { success: true, data: filters };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Copy favourite filters into the saved searches; returns the full list
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.IMPORT_FAVOURITE_FILTERS,
+    async (_, filters: JiraFilter[]): Promise<Result<SavedSearch[]>> => {
+      try {
+        const searches = await getSavedSearchService().importFilters(filters);
+        return { success: true, data: searches };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
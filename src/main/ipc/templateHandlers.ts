@@ -1,29 +1,83 @@
 /**
  * Template IPC Handlers
- * Handles template storage and application IPC communication
+ * Handles template storage and application IPC communication, plus template
+ * packs: files are picked through native dialogs in the main process
  */
 
-import { ipcMain } from 'electron';
+import { app, ipcMain, dialog, BrowserWindow } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import { TemplateService } from '../services/templateService.js';
+import { TemplateRepository } from '../services/templateRepository.js';
+import { TemplatePackService } from '../services/templatePackService.js';
 import { getCurrentSession } from './authHandlers.js';
-import { IPC_CHANNELS, ErrorCode, VALIDATION_LIMITS } from '../../shared/constants.js';
+import { IPC_CHANNELS, ErrorCode } from '../../shared/constants.js';
 import type {
   Template,
   TemplateApplication,
   AppliedTemplate,
+  TemplateImportResult,
+  TemplatePackExport,
+  TemplatePackImport,
+  TemplatePackPreview,
   Result,
   AppError,
 } from '../../shared/types.js';
 
-// In-memory template storage (could be persisted to file later)
-let templates: Template[] = getDefaultTemplates();
+let templateRepository: TemplateRepository | null = null;
+
+// userData is only known once the app is ready, so the repository is created on first use
+function getTemplateRepository(): TemplateRepository {
+  if (!templateRepository) {
+    templateRepository = new TemplateRepository(
+      path.join(app.getPath('userData'), 'templates.json'),
+      getDefaultTemplates()
+    );
+  }
+  return templateRepository;
+}
+
+// Pack files picked through the open dialog during this session
+const selectedPacks = new Set<string>();
+
+async function selectPackFile(event: Electron.IpcMainInvokeEvent): Promise<string | null> {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const options: Electron.OpenDialogOptions = {
+    title: 'Import template pack',
+    filters: [{ name: 'Template pack', extensions: ['json'] }],
+    properties: ['openFile'],
+  };
+  const result = window
+    ? await dialog.showOpenDialog(window, options)
+    : await dialog.showOpenDialog(options);
+
+  if (result.canceled || result.filePaths.length === 0) return null;
+  selectedPacks.add(result.filePaths[0]);
+  return result.filePaths[0];
+}
+
+async function selectPackSavePath(event: Electron.IpcMainInvokeEvent, packName: string): Promise<string | null> {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const slug = packName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'templates';
+  const options: Electron.SaveDialogOptions = {
+    title: 'Export template pack',
+    defaultPath: `${slug}.templates.json`,
+    filters: [{ name: 'Template pack', extensions: ['json'] }],
+  };
+  const result = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options);
+
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
 
 export function registerTemplateHandlers() {
   /**
-   * Get all templates
+   * Get all templates: built-ins (or their overrides), then the user's own
    */
   ipcMain.handle(IPC_CHANNELS.GET_TEMPLATES, async (): Promise<Result<Template[]>> => {
     try {
+      const templates = await getTemplateRepository().getAll();
       return { success: true, data: templates };
     } catch (error: unknown) {
       return { success: false, error: error as AppError };
@@ -31,44 +85,69 @@ export function registerTemplateHandlers() {
   });
 
   /**
-   * Save template
+   * Save template; saving a built-in stores an override
    */
   ipcMain.handle(
     IPC_CHANNELS.SAVE_TEMPLATE,
     async (_, template: Template): Promise<Result<Template>> => {
       try {
-        // Validate template
-        const validationError = TemplateService.validateTemplate(template);
-        if (validationError) {
-          return { success: false, error: validationError };
-        }
+        const saved = await getTemplateRepository().save(template);
+        return { success: true, data: saved };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
 
-        // Check limit
-        if (templates.length >= VALIDATION_LIMITS.MAX_TEMPLATES) {
-          return {
-            success: false,
-            error: {
-              code: ErrorCode.VALIDATION_ERROR,
-              message: `Maximum ${VALIDATION_LIMITS.MAX_TEMPLATES} templates allowed`,
-            },
-          };
-        }
+  /**
+   * Delete template; deleting an override restores the built-in
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.DELETE_TEMPLATE,
+    async (_, templateId: string): Promise<Result<void>> => {
+      try {
+        await getTemplateRepository().delete(templateId);
+        return { success: true, data: undefined };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
 
-        // Check if template exists (update) or new (create)
-        const existingIndex = templates.findIndex((t) => t.id === template.id);
+  /**
+   * Pick a template pack and preview it: invalid and conflicting entries are
+   * marked, nothing is imported (returns null data when cancelled)
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.SELECT_TEMPLATE_PACK,
+    async (event): Promise<Result<TemplatePackPreview | null>> => {
+      try {
+        const filePath = await selectPackFile(event);
+        if (!filePath) return { success: true, data: null };
 
-        if (existingIndex >= 0) {
-          // Update existing
-          template.updatedAt = new Date().toISOString();
-          templates[existingIndex] = template;
-        } else {
-          // Create new
-          template.createdAt = new Date().toISOString();
-          template.updatedAt = new Date().toISOString();
-          templates.push(template);
-        }
+        const preview = await new TemplatePackService(getTemplateRepository()).preview(filePath);
+        return { success: true, data: preview };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
 
-        return { success: true, data: template };
+  /**
+   * Import a previously selected pack, resolving id conflicts with the given mode
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.IMPORT_TEMPLATE_PACK,
+    async (_, input: TemplatePackImport): Promise<Result<TemplateImportResult[]>> => {
+      try {
+        if (!selectedPacks.has(input.filePath)) {
+          throw {
+            code: ErrorCode.FORBIDDEN,
+            message: 'File was not selected through the import dialog',
+          } as AppError;
+        }
+        const results = await new TemplatePackService(getTemplateRepository()).importPack(input);
+        return { success: true, data: results };
       } catch (error: unknown) {
         return { success: false, error: error as AppError };
       }
@@ -76,14 +155,18 @@ export function registerTemplateHandlers() {
   );
 
   /**
-   * Delete template
+   * Export templates as a pack file (returns null data when cancelled)
    */
   ipcMain.handle(
-    IPC_CHANNELS.DELETE_TEMPLATE,
-    async (_, templateId: string): Promise<Result<void>> => {
+    IPC_CHANNELS.EXPORT_TEMPLATE_PACK,
+    async (event, input: TemplatePackExport): Promise<Result<string | null>> => {
       try {
-        templates = templates.filter((t) => t.id !== templateId);
-        return { success: true, data: undefined };
+        const pack = await new TemplatePackService(getTemplateRepository()).buildPack(input);
+        const filePath = await selectPackSavePath(event, pack.name);
+        if (!filePath) return { success: true, data: null };
+
+        await fs.writeFile(filePath, TemplatePackService.serialize(pack), 'utf-8');
+        return { success: true, data: filePath };
       } catch (error: unknown) {
         return { success: false, error: error as AppError };
       }
@@ -109,7 +192,7 @@ export function registerTemplateHandlers() {
         }
 
         // Find template
-        const template = templates.find((t) => t.id === application.templateId);
+        const template = await getTemplateRepository().get(application.templateId);
         if (!template) {
           return {
             success: false,
@@ -373,6 +456,6 @@ function getDefaultTemplates(): Template[] {
 /**
  * Reset templates to default (for testing/reset)
  */
-export function resetTemplates() {
-  templates = getDefaultTemplates();
+export async function resetTemplates(): Promise<void> {
+  await getTemplateRepository().reset();
 }
\ No newline at end of file
@@ -4,6 +4,9 @@
 
 import { ipcMain } from 'electron';
 import { getJiraService } from './authHandlers.js';
+import { SearchService } from '../services/searchService.js';
+import { TransitionService } from '../services/transitionService.js';
+import type { JiraService } from '../services/jiraService.js';
 import { IPC_CHANNELS } from '../../shared/constants.js';
 import type {
   CreateTestInput,
@@ -20,9 +23,63 @@ import type {
   Version,
   LabelSuggestion,
   TestStepInput,
+  TestStep,
+  ExistingTest,
+  UpdateTestInput,
+  FieldUpdateResult,
+  IssueSearchRequest,
+  IssueSearchPage,
 } from  '../../shared/types.js';
 import type { FieldDescriptor } from '../services/metadataService.js';
 
+/**
+ * Cucumber and Generic tests are defined by their Gherkin/definition field, not steps
+ */
+function stepsToAdd(testInput: CreateTestInput): TestStepInput[] {
+  return testInput.testType === 'Cucumber' || testInput.testType === 'Generic' ? [] : testInput.steps;
+}
+
+/**
+ * Put a created Test in its repository folder. The Test exists by then, so a
+ * failure is returned as a warning rather than failing the create.
+ */
+async function placeInFolder(jiraService: JiraService, testKey: string, folderPath?: string): Promise<string | undefined> {
+  if (!folderPath) return undefined;
+  try {
+    const folderId = await jiraService.resolveFolderPath(folderPath);
+    await jiraService.moveTestsToFolder(folderId, [testKey]);
+    return undefined;
+  } catch (error: unknown) {
+    return `${testKey} was created, but not moved to ${folderPath}: ${(error as AppError).message}`;
+  }
+}
+
+/**
+ * Template "transition after create" step. The issue exists by the time this
+ * can fail, so a failure is returned as a warning rather than failing the create.
+ */
+async function transitionAfterCreate(
+  jiraService: JiraService,
+  issueKey: string,
+  transitionName?: string
+): Promise<string | undefined> {
+  if (!transitionName?.trim()) return undefined;
+  try {
+    await new TransitionService(jiraService).transitionByName(issueKey, transitionName);
+    return undefined;
+  } catch (error: unknown) {
+    return `${issueKey} was created, but ${(error as AppError).message}`;
+  }
+}
+
+/**
+ * Attach post-create warnings to the created issue, if there are any
+ */
+function withWarnings(issue: CreateIssueResponse, warnings: (string | undefined)[]): CreateIssueResponse {
+  const found = warnings.filter((w): w is string => !!w);
+  return found.length > 0 ? { ...issue, warnings: found } : issue;
+}
+
 export function registerTestHandlers() {
   /**
    * Get fields for a specific issue type (with caching)
@@ -84,7 +141,7 @@ export function registerTestHandlers() {
    */
   ipcMain.handle(
     IPC_CHANNELS.GET_TEST_STEPS,
-    async (_, testKey: string): Promise<Result<TestStepInput[]>> => {
+    async (_, testKey: string): Promise<Result<TestStep[]>> => {
       try {
         const jiraService = getJiraService();
         const steps = await jiraService.getTestSteps(testKey);
@@ -95,6 +152,39 @@ export function registerTestHandlers() {
     }
   );
 
+  /**
+   * Load an existing Test (fields + steps) for editing
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_TEST_FOR_EDIT,
+    async (_, testKey: string): Promise<Result<ExistingTest>> => {
+      try {
+        const jiraService = getJiraService();
+        const test = await jiraService.getTestForEdit(testKey.trim().toUpperCase());
+        return { success: true, data: test };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Save changed fields and steps of an existing Test.
+   * Succeeds with per-field results even when some fields were rejected.
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.UPDATE_TEST,
+    async (_, input: UpdateTestInput): Promise<Result<FieldUpdateResult[]>> => {
+      try {
+        const jiraService = getJiraService();
+        const results = await jiraService.updateTest(input);
+        return { success: true, data: results };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
   /**
    * Get all issue types
    */
@@ -284,11 +374,14 @@ export function registerTestHandlers() {
         const test = await jiraService.createTest(testInput);
 
         // Add steps (FIXED - now uses POST instead of PUT)
-        for (const step of testInput.steps) {
+        for (const step of stepsToAdd(testInput)) {
           await jiraService.addTestStep(test.key, step);
         }
 
-        return { success: true, data: test };
+        const folderWarning = await placeInFolder(jiraService, test.key, testInput.folderPath);
+        const transitionWarning = await transitionAfterCreate(jiraService, test.key, testInput.transitionTo);
+
+        return { success: true, data: withWarnings(test, [folderWarning, transitionWarning]) };
       } catch (error: unknown) {
         return { success: false, error: error as AppError };
       }
@@ -316,7 +409,9 @@ export function registerTestHandlers() {
           await jiraService.addTestsToSet(testSet.key, testKeys);
         }
 
-        return { success: true, data: testSet };
+        const transitionWarning = await transitionAfterCreate(jiraService, testSet.key, setInput.transitionTo);
+
+        return { success: true, data: withWarnings(testSet, [transitionWarning]) };
       } catch (error: unknown) {
         return { success: false, error: error as AppError };
       }
@@ -360,7 +455,9 @@ export function registerTestHandlers() {
           await jiraService.addTestsToExecution(execution.key, testKeys);
         }
 
-        return { success: true, data: execution };
+        const transitionWarning = await transitionAfterCreate(jiraService, execution.key, execInput.transitionTo);
+
+        return { success: true, data: withWarnings(execution, [transitionWarning]) };
       } catch (error: unknown) {
         return { success: false, error: error as AppError };
       }
@@ -456,16 +553,20 @@ export function registerTestHandlers() {
       try {
         const jiraService = getJiraService();
         const createdTestKeys: string[] = [];
+        const warnings: string[] = [];
 
         // Step 1: Create all tests
         for (const testInput of workflow.tests) {
           const test = await jiraService.createTest(testInput);
 
           // Add steps
-          for (const step of testInput.steps) {
+          for (const step of stepsToAdd(testInput)) {
             await jiraService.addTestStep(test.key, step);
           }
 
+          const folderWarning = await placeInFolder(jiraService, test.key, testInput.folderPath);
+          if (folderWarning) warnings.push(folderWarning);
+
           // Link test to story using "Test" link type
           await jiraService.linkIssues('Test', test.key, workflow.storyKey);
 
@@ -499,6 +600,7 @@ export function registerTestHandlers() {
             executionKey: execution.key,
             success: true,
             message: `Successfully created ${createdTestKeys.length} test(s), execution, and all links`,
+            warnings,
           },
         };
       } catch (error: unknown) {
@@ -508,15 +610,31 @@ export function registerTestHandlers() {
   );
 
   /**
-   * Search tests by label
+   * Search the project's Tests by JQL, one page at a time
    */
   ipcMain.handle(
-    IPC_CHANNELS.SEARCH_TESTS_BY_LABEL,
-    async (_, label: string): Promise<Result<string[]>> => {
+    IPC_CHANNELS.SEARCH_TESTS,
+    async (_, request: IssueSearchRequest): Promise<Result<IssueSearchPage>> => {
       try {
-        const jiraService = getJiraService();
-        const testKeys = await jiraService.searchTestsByLabel(label);
-        return { success: true, data: testKeys };
+        const searchService = new SearchService(getJiraService());
+        const page = await searchService.searchTests(request);
+        return { success: true, data: page };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Keys of all Tests matching a JQL filter (capped), for "select all"
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.SEARCH_TEST_KEYS,
+    async (_, jql: string): Promise<Result<string[]>> => {
+      try {
+        const searchService = new SearchService(getJiraService());
+        const keys = await searchService.searchTestKeys(jql);
+        return { success: true, data: keys };
       } catch (error: unknown) {
         return { success: false, error: error as AppError };
       }
@@ -0,0 +1,79 @@
+/**
+ * Traceability IPC Handlers
+ * Builds the story → test → execution report, and writes it to a path the
+ * user picks through a native save dialog
+ */
+
+import { ipcMain, dialog, BrowserWindow } from 'electron';
+import { promises as fs } from 'fs';
+import { getCurrentSession } from './authHandlers.js';
+import { TraceabilityService } from '../services/traceabilityService.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  TraceabilityFormat,
+  TraceabilityReport,
+  TraceabilityRequest,
+} from '../../shared/types.js';
+
+const FORMAT_FILTERS: Record<TraceabilityFormat, Electron.FileFilter> = {
+  html: { name: 'HTML Report', extensions: ['html'] },
+  csv: { name: 'CSV', extensions: ['csv'] },
+};
+
+/**
+ * Show a save dialog; null when cancelled
+ */
+async function selectSavePath(
+  event: Electron.IpcMainInvokeEvent,
+  format: TraceabilityFormat,
+  projectKey: string
+): Promise<string | null> {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const date = new Date().toISOString().split('T')[0];
+  const options: Electron.SaveDialogOptions = {
+    title: 'Export Traceability',
+    defaultPath: `${projectKey}-traceability-${date}.${format}`,
+    filters: [FORMAT_FILTERS[format]],
+  };
+  const result = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options);
+
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+export function registerTraceabilityHandlers() {
+  ipcMain.handle(
+    IPC_CHANNELS.BUILD_TRACEABILITY,
+    async (_, request: TraceabilityRequest): Promise<Result<TraceabilityReport>> => {
+      try {
+        const session = getCurrentSession();
+        const report = await new TraceabilityService(session.jiraService).buildReport(request);
+        return { success: true, data: report };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Save a report already built (returns the path, or null when cancelled)
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.EXPORT_TRACEABILITY,
+    async (event, report: TraceabilityReport, format: TraceabilityFormat): Promise<Result<string | null>> => {
+      try {
+        const session = getCurrentSession();
+        const filePath = await selectSavePath(event, format, session.projectKey);
+        if (!filePath) return { success: true, data: null };
+
+        await fs.writeFile(filePath, TraceabilityService.serialize(report, format));
+        return { success: true, data: filePath };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
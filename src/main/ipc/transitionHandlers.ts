@@ -0,0 +1,48 @@
+/**
+ * Workflow Transition IPC Handlers
+ * Transitions shared by a set of issues, and bulk transitions by name
+ */
+
+import { ipcMain } from 'electron';
+import { getJiraService } from './authHandlers.js';
+import { TransitionService } from '../services/transitionService.js';
+import { IPC_CHANNELS } from '../../shared/constants.js';
+import type {
+  Result,
+  AppError,
+  BulkTransitionRequest,
+  IssueTransition,
+  TransitionResult,
+} from '../../shared/types.js';
+
+export function registerTransitionHandlers() {
+  /**
+   * Transitions every one of the issues offers, with their screen fields
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.GET_TRANSITIONS,
+    async (_, issueKeys: string[]): Promise<Result<IssueTransition[]>> => {
+      try {
+        const transitions = await new TransitionService(getJiraService()).getCommonTransitions(issueKeys);
+        return { success: true, data: transitions };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+
+  /**
+   * Run one transition on many issues; one result per issue
+   */
+  ipcMain.handle(
+    IPC_CHANNELS.TRANSITION_ISSUES,
+    async (_, request: BulkTransitionRequest): Promise<Result<TransitionResult[]>> => {
+      try {
+        const results = await new TransitionService(getJiraService()).transitionIssues(request);
+        return { success: true, data: results };
+      } catch (error: unknown) {
+        return { success: false, error: error as AppError };
+      }
+    }
+  );
+}
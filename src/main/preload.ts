@@ -18,12 +18,60 @@ import type {
   Template,
   TemplateApplication,
   AppliedTemplate,
+  TemplateImportResult,
+  TemplatePackExport,
+  TemplatePackImport,
+  TemplatePackPreview,
   Result,
   Priority,
   Component,
   Version,
   LabelSuggestion,
-  TestStepInput,
+  TestStep,
+  ExistingTest,
+  UpdateTestInput,
+  FieldUpdateResult,
+  TestRun,
+  TestRunSummary,
+  UpdateTestRunInput,
+  UpdateTestRunStepInput,
+  JUnitImportInput,
+  JUnitParseResult,
+  CucumberImportInput,
+  CucumberPreviewResult,
+  FeatureFileResult,
+  ResultsImportResult,
+  CreatePreconditionInput,
+  Precondition,
+  CreateTestPlanInput,
+  AssociationChange,
+  TestPlanDetails,
+  TestRepositoryFolder,
+  ExportRequest,
+  ExportResult,
+  IssueQuery,
+  IssueSearchRequest,
+  IssueSearchPage,
+  SavedSearch,
+  JiraFilter,
+  StoryCoverage,
+  CoverageChangeResult,
+  TraceabilityRequest,
+  TraceabilityReport,
+  TraceabilityFormat,
+  ExecutionDashboard,
+  DefectDraft,
+  CreatedDefect,
+  BulkEditIssue,
+  BulkEditRequest,
+  BulkEditResult,
+  Attachment,
+  AttachmentTarget,
+  AttachmentUpload,
+  AttachmentUploadResult,
+  IssueTransition,
+  BulkTransitionRequest,
+  TransitionResult,
 } from '../shared/types';
 
 // Define the API interface
@@ -64,13 +112,16 @@ export interface ElectronAPI {
   executeWorkflow: (workflow: WorkflowInput) => Promise<Result<WorkflowResult>>;
 
   // Test API methods
-  searchTestsByLabel: (label: string) => Promise<any>;
+  searchTests: (request: IssueSearchRequest) => Promise<Result<IssueSearchPage>>;
+  searchTestKeys: (jql: string) => Promise<Result<string[]>>;
   getTestsByKeys: (keys: string[]) => Promise<any>;
   linkToTestPlan: (executionKey: string, testPlanKey: string) => Promise<any>;
   addTestsToSet: (testSetKey: string, testKeys: string[]) => Promise<any>;
   addTestsToExecution: (executionKey: string, testKeys: string[]) => Promise<any>;
   addTestStep: (testKey: string, step: any) => Promise<any>;
-  getTestSteps: (testKey: string) => Promise<Result<TestStepInput[]>>; // NEW
+  getTestSteps: (testKey: string) => Promise<Result<TestStep[]>>; // NEW
+  getTestForEdit: (testKey: string) => Promise<Result<ExistingTest>>;
+  updateTest: (input: UpdateTestInput) => Promise<Result<FieldUpdateResult[]>>;
 
   // Metadata Operations
   getPriorities: () => Promise<Result<Priority[]>>;
@@ -83,6 +134,74 @@ export interface ElectronAPI {
   linkTestToStory: (testKey: string, storyKey: string) => Promise<Result<void>>;
   unlinkTestFromStory: (testKey: string, storyKey: string) => Promise<Result<void>>;
   getTestStoryLinks: (testKey: string) => Promise<Result<string[]>>;
+  getStoryCoverage: (storyKey: string) => Promise<Result<StoryCoverage>>;
+  updateStoryCoverage: (storyKey: string, change: AssociationChange) => Promise<Result<CoverageChangeResult[]>>;
+
+  // Test Runs (Xray)
+  getExecutionTestRuns: (executionKey: string) => Promise<Result<TestRunSummary[]>>;
+  getTestRun: (testRunId: number) => Promise<Result<TestRun>>;
+  updateTestRun: (testRunId: number, input: UpdateTestRunInput) => Promise<Result<void>>;
+  updateTestRunStep: (
+    testRunId: number,
+    stepId: number,
+    input: UpdateTestRunStepInput
+  ) => Promise<Result<void>>;
+  getExecutionDashboard: (executionKey: string) => Promise<Result<ExecutionDashboard>>;
+  openRunnerWindow: (testRunId: number, testKey: string) => Promise<Result<void>>;
+  getDefectDraft: (testRunId: number, stepId?: number) => Promise<Result<DefectDraft>>;
+  createDefect: (draft: DefectDraft) => Promise<Result<CreatedDefect>>;
+
+  // Attachments and run evidence
+  getAttachments: (target: AttachmentTarget) => Promise<Result<Attachment[]>>;
+  uploadAttachments: (target: AttachmentTarget, files: AttachmentUpload[]) => Promise<Result<AttachmentUploadResult[]>>;
+  downloadAttachment: (attachment: Attachment) => Promise<Result<string | null>>;
+
+  // Workflow transitions
+  getTransitions: (issueKeys: string[]) => Promise<Result<IssueTransition[]>>;
+  transitionIssues: (request: BulkTransitionRequest) => Promise<Result<TransitionResult[]>>;
+
+  // Results Import
+  selectJUnitFile: () => Promise<Result<JUnitParseResult | null>>;
+  importJUnitResults: (input: JUnitImportInput) => Promise<Result<ResultsImportResult>>;
+  selectCucumberFile: () => Promise<Result<CucumberPreviewResult | null>>;
+  importCucumberResults: (input: CucumberImportInput) => Promise<Result<ResultsImportResult>>;
+  selectFeatureFile: () => Promise<Result<FeatureFileResult | null>>;
+
+  // Export
+  exportIssues: (request: ExportRequest) => Promise<Result<ExportResult | null>>;
+
+  // Traceability
+  buildTraceability: (request: TraceabilityRequest) => Promise<Result<TraceabilityReport>>;
+  exportTraceability: (report: TraceabilityReport, format: TraceabilityFormat) => Promise<Result<string | null>>;
+
+  // Bulk Edit
+  previewBulkEdit: (query: IssueQuery) => Promise<Result<BulkEditIssue[]>>;
+  applyBulkEdit: (request: BulkEditRequest) => Promise<Result<BulkEditResult[]>>;
+
+  // Saved Searches
+  getSavedSearches: () => Promise<Result<SavedSearch[]>>;
+  saveSearch: (search: Pick<SavedSearch, 'name' | 'jql'> & Partial<SavedSearch>) => Promise<Result<SavedSearch>>;
+  deleteSavedSearch: (id: string) => Promise<Result<void>>;
+  getFavouriteFilters: () => Promise<Result<JiraFilter[]>>;
+  importFavouriteFilters: (filters: JiraFilter[]) => Promise<Result<SavedSearch[]>>;
+
+  // Test Repository (Xray)
+  getTestRepositoryFolders: () => Promise<Result<TestRepositoryFolder>>;
+  createTestRepositoryFolder: (parentPath: string, name: string) => Promise<Result<TestRepositoryFolder>>;
+  moveTestsToFolder: (folderPath: string, testKeys: string[]) => Promise<Result<void>>;
+
+  // Test Plans (Xray)
+  createTestPlan: (planInput: CreateTestPlanInput, testKeys: string[]) => Promise<Result<CreateIssueResponse>>;
+  getTestPlan: (testPlanKey: string) => Promise<Result<TestPlanDetails>>;
+  updateTestPlanTests: (testPlanKey: string, change: AssociationChange) => Promise<Result<void>>;
+  updateTestPlanExecutions: (testPlanKey: string, change: AssociationChange) => Promise<Result<void>>;
+
+  // Pre-Conditions (Xray)
+  createPrecondition: (input: CreatePreconditionInput) => Promise<Result<CreateIssueResponse>>;
+  searchPreconditions: (query: string) => Promise<Result<Precondition[]>>;
+  getTestPreconditions: (testKey: string) => Promise<Result<Precondition[]>>;
+  addTestPreconditions: (testKey: string, preconditionKeys: string[]) => Promise<Result<void>>;
+  removeTestPrecondition: (testKey: string, preconditionKey: string) => Promise<Result<void>>;
 
   // Shell
   openExternal: (url: string) => Promise<void>;
@@ -92,6 +211,9 @@ export interface ElectronAPI {
   saveTemplate: (template: Template) => Promise<Result<Template>>;
   deleteTemplate: (templateId: string) => Promise<Result<void>>;
   applyTemplate: (application: TemplateApplication) => Promise<Result<AppliedTemplate>>;
+  selectTemplatePack: () => Promise<Result<TemplatePackPreview | null>>;
+  importTemplatePack: (input: TemplatePackImport) => Promise<Result<TemplateImportResult[]>>;
+  exportTemplatePack: (input: TemplatePackExport) => Promise<Result<string | null>>;
 }
 
 const api: ElectronAPI = {
@@ -126,13 +248,16 @@ const api: ElectronAPI = {
   executeWorkflow: (workflow) => ipcRenderer.invoke(IPC_CHANNELS.EXECUTE_WORKFLOW, workflow),
 
   // Test API methods
-  searchTestsByLabel: (label) => ipcRenderer.invoke(IPC_CHANNELS.SEARCH_TESTS_BY_LABEL, label),
+  searchTests: (request) => ipcRenderer.invoke(IPC_CHANNELS.SEARCH_TESTS, request),
+  searchTestKeys: (jql) => ipcRenderer.invoke(IPC_CHANNELS.SEARCH_TEST_KEYS, jql),
   getTestsByKeys: (keys) => ipcRenderer.invoke(IPC_CHANNELS.GET_TESTS_BY_KEYS, keys),
   linkToTestPlan: (executionKey, testPlanKey) => ipcRenderer.invoke('test:linkToTestPlan', executionKey, testPlanKey),
   addTestsToSet: (testSetKey, testKeys) => ipcRenderer.invoke('test:addTestsToSet', testSetKey, testKeys),
   addTestsToExecution: (executionKey, testKeys) => ipcRenderer.invoke('test:addTestsToExecution', executionKey, testKeys),
   addTestStep: (testKey, step) => ipcRenderer.invoke(IPC_CHANNELS.ADD_TEST_STEP, testKey, step),
   getTestSteps: (testKey) => ipcRenderer.invoke(IPC_CHANNELS.GET_TEST_STEPS, testKey), // NEW
+  getTestForEdit: (testKey) => ipcRenderer.invoke(IPC_CHANNELS.GET_TEST_FOR_EDIT, testKey),
+  updateTest: (input) => ipcRenderer.invoke(IPC_CHANNELS.UPDATE_TEST, input),
 
   // Metadata Operations
   getPriorities: () => ipcRenderer.invoke(IPC_CHANNELS.GET_PRIORITIES),
@@ -148,6 +273,83 @@ const api: ElectronAPI = {
     ipcRenderer.invoke(IPC_CHANNELS.UNLINK_TEST_FROM_STORY, testKey, storyKey),
   getTestStoryLinks: (testKey) => 
     ipcRenderer.invoke(IPC_CHANNELS.GET_TEST_STORY_LINKS, testKey),
+  getStoryCoverage: (storyKey) => ipcRenderer.invoke(IPC_CHANNELS.GET_STORY_COVERAGE, storyKey),
+  updateStoryCoverage: (storyKey, change) =>
+    ipcRenderer.invoke(IPC_CHANNELS.UPDATE_STORY_COVERAGE, storyKey, change),
+
+  // Test Runs (Xray)
+  getExecutionTestRuns: (executionKey) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GET_EXECUTION_TEST_RUNS, executionKey),
+  getTestRun: (testRunId) => ipcRenderer.invoke(IPC_CHANNELS.GET_TEST_RUN, testRunId),
+  updateTestRun: (testRunId, input) =>
+    ipcRenderer.invoke(IPC_CHANNELS.UPDATE_TEST_RUN, testRunId, input),
+  updateTestRunStep: (testRunId, stepId, input) =>
+    ipcRenderer.invoke(IPC_CHANNELS.UPDATE_TEST_RUN_STEP, testRunId, stepId, input),
+  getExecutionDashboard: (executionKey) =>
+    ipcRenderer.invoke(IPC_CHANNELS.GET_EXECUTION_DASHBOARD, executionKey),
+  openRunnerWindow: (testRunId, testKey) =>
+    ipcRenderer.invoke(IPC_CHANNELS.OPEN_RUNNER_WINDOW, testRunId, testKey),
+  getDefectDraft: (testRunId, stepId) => ipcRenderer.invoke(IPC_CHANNELS.GET_DEFECT_DRAFT, testRunId, stepId),
+  createDefect: (draft) => ipcRenderer.invoke(IPC_CHANNELS.CREATE_DEFECT, draft),
+
+  // Attachments and run evidence
+  getAttachments: (target) => ipcRenderer.invoke(IPC_CHANNELS.GET_ATTACHMENTS, target),
+  uploadAttachments: (target, files) => ipcRenderer.invoke(IPC_CHANNELS.UPLOAD_ATTACHMENTS, target, files),
+  downloadAttachment: (attachment) => ipcRenderer.invoke(IPC_CHANNELS.DOWNLOAD_ATTACHMENT, attachment),
+
+  // Workflow transitions
+  getTransitions: (issueKeys) => ipcRenderer.invoke(IPC_CHANNELS.GET_TRANSITIONS, issueKeys),
+  transitionIssues: (request) => ipcRenderer.invoke(IPC_CHANNELS.TRANSITION_ISSUES, request),
+
+  // Results Import
+  selectJUnitFile: () => ipcRenderer.invoke(IPC_CHANNELS.SELECT_JUNIT_FILE),
+  importJUnitResults: (input) => ipcRenderer.invoke(IPC_CHANNELS.IMPORT_JUNIT_RESULTS, input),
+  selectCucumberFile: () => ipcRenderer.invoke(IPC_CHANNELS.SELECT_CUCUMBER_FILE),
+  importCucumberResults: (input) => ipcRenderer.invoke(IPC_CHANNELS.IMPORT_CUCUMBER_RESULTS, input),
+  selectFeatureFile: () => ipcRenderer.invoke(IPC_CHANNELS.SELECT_FEATURE_FILE),
+
+  // Export
+  exportIssues: (request) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_ISSUES, request),
+
+  // Traceability
+  buildTraceability: (request) => ipcRenderer.invoke(IPC_CHANNELS.BUILD_TRACEABILITY, request),
+  exportTraceability: (report, format) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_TRACEABILITY, report, format),
+
+  // Bulk Edit
+  previewBulkEdit: (query) => ipcRenderer.invoke(IPC_CHANNELS.BULK_EDIT_PREVIEW, query),
+  applyBulkEdit: (request) => ipcRenderer.invoke(IPC_CHANNELS.BULK_EDIT_APPLY, request),
+
+  // Saved Searches
+  getSavedSearches: () => ipcRenderer.invoke(IPC_CHANNELS.GET_SAVED_SEARCHES),
+  saveSearch: (search) => ipcRenderer.invoke(IPC_CHANNELS.SAVE_SEARCH, search),
+  deleteSavedSearch: (id) => ipcRenderer.invoke(IPC_CHANNELS.DELETE_SAVED_SEARCH, id),
+  getFavouriteFilters: () => ipcRenderer.invoke(IPC_CHANNELS.GET_FAVOURITE_FILTERS),
+  importFavouriteFilters: (filters) => ipcRenderer.invoke(IPC_CHANNELS.IMPORT_FAVOURITE_FILTERS, filters),
+
+  // Test Repository (Xray)
+  getTestRepositoryFolders: () => ipcRenderer.invoke(IPC_CHANNELS.GET_TEST_REPOSITORY_FOLDERS),
+  createTestRepositoryFolder: (parentPath, name) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CREATE_TEST_REPOSITORY_FOLDER, parentPath, name),
+  moveTestsToFolder: (folderPath, testKeys) =>
+    ipcRenderer.invoke(IPC_CHANNELS.MOVE_TESTS_TO_FOLDER, folderPath, testKeys),
+
+  // Test Plans (Xray)
+  createTestPlan: (planInput, testKeys) =>
+    ipcRenderer.invoke(IPC_CHANNELS.CREATE_TEST_PLAN, planInput, testKeys),
+  getTestPlan: (testPlanKey) => ipcRenderer.invoke(IPC_CHANNELS.GET_TEST_PLAN, testPlanKey),
+  updateTestPlanTests: (testPlanKey, change) =>
+    ipcRenderer.invoke(IPC_CHANNELS.UPDATE_TEST_PLAN_TESTS, testPlanKey, change),
+  updateTestPlanExecutions: (testPlanKey, change) =>
+    ipcRenderer.invoke(IPC_CHANNELS.UPDATE_TEST_PLAN_EXECUTIONS, testPlanKey, change),
+
+  // Pre-Conditions (Xray)
+  createPrecondition: (input) => ipcRenderer.invoke(IPC_CHANNELS.CREATE_PRECONDITION, input),
+  searchPreconditions: (query) => ipcRenderer.invoke(IPC_CHANNELS.SEARCH_PRECONDITIONS, query),
+  getTestPreconditions: (testKey) => ipcRenderer.invoke(IPC_CHANNELS.GET_TEST_PRECONDITIONS, testKey),
+  addTestPreconditions: (testKey, preconditionKeys) =>
+    ipcRenderer.invoke(IPC_CHANNELS.ADD_TEST_PRECONDITIONS, testKey, preconditionKeys),
+  removeTestPrecondition: (testKey, preconditionKey) =>
+    ipcRenderer.invoke(IPC_CHANNELS.REMOVE_TEST_PRECONDITION, testKey, preconditionKey),
 
   // Shell
   openExternal: (url: string) => ipcRenderer.invoke('shell:openExternal', url),
@@ -157,6 +359,9 @@ const api: ElectronAPI = {
   saveTemplate: (template) => ipcRenderer.invoke(IPC_CHANNELS.SAVE_TEMPLATE, template),
   deleteTemplate: (templateId) => ipcRenderer.invoke(IPC_CHANNELS.DELETE_TEMPLATE, templateId),
   applyTemplate: (application) => ipcRenderer.invoke(IPC_CHANNELS.APPLY_TEMPLATE, application),
+  selectTemplatePack: () => ipcRenderer.invoke(IPC_CHANNELS.SELECT_TEMPLATE_PACK),
+  importTemplatePack: (input) => ipcRenderer.invoke(IPC_CHANNELS.IMPORT_TEMPLATE_PACK, input),
+  exportTemplatePack: (input) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_TEMPLATE_PACK, input),
 };
 
 contextBridge.exposeInMainWorld('electronAPI', api);
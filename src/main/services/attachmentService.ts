@@ -0,0 +1,86 @@
+/**
+ * Attachment Service - Files on Jira issues and Xray test run evidence
+ *
+ * Features:
+ * - One target shape for issue attachments, run evidence and step evidence
+ * - Size and type checks per file before anything is uploaded
+ * - Files upload one by one; a rejected or failed file does not stop the others
+ */
+
+import { JiraService } from './jiraService.js';
+import type {
+  AppError,
+  Attachment,
+  AttachmentTarget,
+  AttachmentUpload,
+  AttachmentUploadResult,
+} from '../../shared/types.js';
+import { ATTACHMENT_EXTENSIONS, ErrorCode, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+export class AttachmentService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  async list(target: AttachmentTarget): Promise<Attachment[]> {
+    return target.kind === 'issue'
+      ? this.jiraService.getIssueAttachments(target.issueKey)
+      : this.jiraService.getTestRunEvidence(target.testRunId, target.stepId);
+  }
+
+  async upload(target: AttachmentTarget, files: AttachmentUpload[]): Promise<AttachmentUploadResult[]> {
+    if (files.length === 0) {
+      throw AttachmentService.createError(ErrorCode.VALIDATION_ERROR, 'No files to upload');
+    }
+    if (files.length > VALIDATION_LIMITS.MAX_ATTACHMENTS_PER_UPLOAD) {
+      throw AttachmentService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Too many files (max ${VALIDATION_LIMITS.MAX_ATTACHMENTS_PER_UPLOAD} per upload)`
+      );
+    }
+
+    const results: AttachmentUploadResult[] = [];
+    for (const file of files) {
+      const problem = AttachmentService.checkFile(file.fileName, file.data.byteLength);
+      if (problem) {
+        results.push({ fileName: file.fileName, success: false, error: problem });
+        continue;
+      }
+
+      try {
+        if (target.kind === 'issue') {
+          await this.jiraService.addIssueAttachment(target.issueKey, file);
+        } else {
+          await this.jiraService.addTestRunEvidence(target.testRunId, file, target.stepId);
+        }
+        results.push({ fileName: file.fileName, success: true });
+      } catch (error: unknown) {
+        results.push({ fileName: file.fileName, success: false, error: (error as AppError).message || 'Upload failed' });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Why a file cannot be uploaded, or null when it is fine
+   */
+  static checkFile(fileName: string, size: number): string | null {
+    const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+    if (!(ATTACHMENT_EXTENSIONS as readonly string[]).includes(extension)) {
+      return `.${extension || '?'} files are not accepted`;
+    }
+    if (size === 0) {
+      return 'File is empty';
+    }
+    if (size > VALIDATION_LIMITS.MAX_ATTACHMENT_BYTES) {
+      return `File is too large (max ${VALIDATION_LIMITS.MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB)`;
+    }
+    return null;
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Bulk Edit Service - Applies the same field changes to many Tests
+ *
+ * Features:
+ * - Selects Tests by JQL or key list (scoped to the project)
+ * - Previews current labels, components, fix versions, priority and assignee
+ * - Add / remove use Jira "update" operations, so other values are kept;
+ *   replace sets the field outright
+ * - One PUT per issue through the JiraService rate limiter; a failure on one
+ *   issue does not stop the others
+ */
+
+import { JiraService } from './jiraService.js';
+import type {
+  AppError,
+  BulkEditIssue,
+  BulkEditOperation,
+  BulkEditRequest,
+  BulkEditResult,
+  IssueQuery,
+} from '../../shared/types.js';
+import { ErrorCode, ISSUE_TYPES, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+const PREVIEW_FIELDS = ['summary', 'labels', 'components', 'fixVersions', 'priority', 'assignee'];
+
+// How each field's values are written in a Jira edit request
+const toJiraValue: Record<BulkEditOperation['field'], (value: string) => unknown> = {
+  labels: value => value,
+  components: value => ({ name: value }),
+  fixVersions: value => ({ name: value }),
+  priority: value => ({ id: value }),
+  assignee: value => ({ name: value }),
+};
+
+type IssueEditBody = { fields: Record<string, unknown>; update: Record<string, unknown[]> };
+
+export class BulkEditService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  /**
+   * Tests matching the query with their current values
+   */
+  async preview(query: IssueQuery): Promise<BulkEditIssue[]> {
+    const jql = this.jiraService.scopedJql(ISSUE_TYPES.TEST, query);
+    const issues = await this.jiraService.searchIssueFields(jql, PREVIEW_FIELDS, VALIDATION_LIMITS.MAX_BULK_EDIT_ISSUES);
+
+    return issues.map(issue => {
+      const fields = issue.fields || {};
+      return {
+        key: issue.key,
+        summary: fields.summary || '',
+        labels: fields.labels || [],
+        components: (fields.components || []).map((c: any) => c.name),
+        fixVersions: (fields.fixVersions || []).map((v: any) => v.name),
+        priority: fields.priority?.name || '',
+        assignee: fields.assignee?.displayName || fields.assignee?.name || '',
+      };
+    });
+  }
+
+  /**
+   * Apply the operations to every issue; one result per issue
+   */
+  async apply(request: BulkEditRequest): Promise<BulkEditResult[]> {
+    if (request.keys.length === 0) {
+      throw BulkEditService.createError(ErrorCode.VALIDATION_ERROR, 'No issues selected');
+    }
+    if (request.keys.length > VALIDATION_LIMITS.MAX_BULK_EDIT_ISSUES) {
+      throw BulkEditService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `At most ${VALIDATION_LIMITS.MAX_BULK_EDIT_ISSUES} issues can be edited at once`
+      );
+    }
+
+    const body = BulkEditService.buildEditBody(request.operations);
+
+    // The limiter inside JiraService caps how many of these run at once
+    return Promise.all(request.keys.map(async (key): Promise<BulkEditResult> => {
+      try {
+        await this.jiraService.updateIssue(key, body);
+        return { key, success: true };
+      } catch (error: unknown) {
+        return { key, success: false, error: (error as AppError).message || String(error) };
+      }
+    }));
+  }
+
+  /**
+   * Turn operations into a Jira edit body; throws on contradictory or empty input
+   */
+  static buildEditBody(operations: BulkEditOperation[]): IssueEditBody {
+    const body: IssueEditBody = { fields: {}, update: {} };
+
+    for (const op of operations) {
+      const values = [...new Set(op.values.map(v => v.trim()).filter(Boolean))];
+      const single = op.field === 'priority' || op.field === 'assignee';
+
+      if (single && op.mode !== 'replace') {
+        throw BulkEditService.createError(ErrorCode.VALIDATION_ERROR, `${op.field} can only be replaced`);
+      }
+      if (op.field in body.fields || (op.mode === 'replace' && op.field in body.update)) {
+        throw BulkEditService.createError(ErrorCode.VALIDATION_ERROR, `${op.field} is replaced and cannot also be changed`);
+      }
+
+      if (op.mode === 'replace') {
+        body.fields[op.field] = single
+          ? (values[0] ? toJiraValue[op.field](values[0]) : null)
+          : values.map(toJiraValue[op.field]);
+        continue;
+      }
+
+      if (values.length === 0) {
+        throw BulkEditService.createError(ErrorCode.VALIDATION_ERROR, `Enter at least one value to ${op.mode} for ${op.field}`);
+      }
+      body.update[op.field] = [
+        ...(body.update[op.field] || []),
+        ...values.map(value => ({ [op.mode]: toJiraValue[op.field](value) })),
+      ];
+    }
+
+    if (Object.keys(body.fields).length === 0 && Object.keys(body.update).length === 0) {
+      throw BulkEditService.createError(ErrorCode.VALIDATION_ERROR, 'Add at least one change to apply');
+    }
+    return body;
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Coverage Service - Which Tests cover a story, and how they last ran
+ *
+ * Features:
+ * - Covering Tests come from Xray's requirementTests() JQL function
+ * - Runs per Test Execution (with its environments) from the Xray test runs API
+ * - A story is UNCOVERED with no tests and FAILING when every covering test last failed
+ * - Coverage is added / removed test by test; one failure does not stop the others
+ */
+
+import { JiraService } from './jiraService.js';
+import type {
+  AppError,
+  AssociationChange,
+  CoverageChangeResult,
+  CoverageRun,
+  CoverageState,
+  CoveringTest,
+  StoryCoverage,
+  TestRunStatus,
+} from '../../shared/types.js';
+import { ErrorCode, ISSUE_TYPES, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+export class CoverageService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  async getStoryCoverage(storyKey: string): Promise<StoryCoverage> {
+    const story = await this.jiraService.validateIssue(storyKey);
+    if (!story.exists) {
+      throw CoverageService.createError(ErrorCode.NOT_FOUND, `Issue ${storyKey} not found`);
+    }
+
+    const tests = await this.coveringTests(story.key);
+
+    return {
+      key: story.key,
+      summary: story.summary,
+      issueType: story.issueType,
+      tests,
+      state: CoverageService.coverageState(tests),
+    };
+  }
+
+  /**
+   * Tests covering a story with their runs; pass a cache to share run lookups
+   * between stories covered by the same tests
+   */
+  async coveringTests(storyKey: string, runCache = new Map<string, Promise<CoverageRun[]>>()): Promise<CoveringTest[]> {
+    const jql = this.jiraService.scopedJql(ISSUE_TYPES.TEST, { jql: `issue in requirementTests("${storyKey}")` });
+    const issues = await this.jiraService.searchIssueFields(jql, ['summary'], VALIDATION_LIMITS.MAX_COVERAGE_TESTS);
+
+    return Promise.all(
+      issues.map(async (issue): Promise<CoveringTest> => {
+        if (!runCache.has(issue.key)) runCache.set(issue.key, this.jiraService.getTestRunsForTest(issue.key));
+        const runs = [...(await runCache.get(issue.key)!)]
+          .sort((a, b) => a.executionKey.localeCompare(b.executionKey, undefined, { numeric: true }));
+        return {
+          key: issue.key,
+          summary: issue.fields?.summary || '',
+          latestStatus: CoverageService.latestStatus(runs),
+          runs,
+        };
+      })
+    );
+  }
+
+  /**
+   * Add and remove covering tests; one result per test
+   */
+  async updateStoryCoverage(storyKey: string, change: AssociationChange): Promise<CoverageChangeResult[]> {
+    const add = (change.add || []).map(k => ({ testKey: k, action: 'add' as const }));
+    const remove = (change.remove || []).map(k => ({ testKey: k, action: 'remove' as const }));
+    if (add.length + remove.length === 0) {
+      throw CoverageService.createError(ErrorCode.VALIDATION_ERROR, 'No tests to add or remove');
+    }
+
+    return Promise.all(
+      [...add, ...remove].map(async ({ testKey, action }): Promise<CoverageChangeResult> => {
+        try {
+          if (action === 'add') await this.jiraService.linkTestToStory(testKey, storyKey);
+          else await this.jiraService.unlinkTestFromStory(testKey, storyKey);
+          return { testKey, action, success: true };
+        } catch (error: unknown) {
+          return { testKey, action, success: false, error: (error as AppError).message || 'Update failed' };
+        }
+      })
+    );
+  }
+
+  /**
+   * Status of the most recently finished run; unfinished runs count only when
+   * nothing has finished yet
+   */
+  private static latestStatus(runs: CoverageRun[]): TestRunStatus {
+    const finished = runs.filter(r => r.finishedOn);
+    if (finished.length === 0) {
+      return runs.some(r => r.status === 'EXECUTING') ? 'EXECUTING' : 'TODO';
+    }
+    return finished.reduce((latest, run) =>
+      Date.parse(run.finishedOn!) > Date.parse(latest.finishedOn!) ? run : latest
+    ).status;
+  }
+
+  static coverageState(tests: CoveringTest[]): CoverageState {
+    if (tests.length === 0) return 'UNCOVERED';
+    return tests.every(t => t.latestStatus === 'FAIL') ? 'FAILING' : 'COVERED';
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
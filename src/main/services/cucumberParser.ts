@@ -0,0 +1,90 @@
+/**
+ * Cucumber Parser - Reads Cucumber JSON reports (Karate emits the same format)
+ *
+ * Features:
+ * - Accepts a features array or a single feature object
+ * - Derives scenario status from step, before and after hook results
+ * - Collects candidate issue keys from scenario tags (@MTD-123)
+ * - Filters a report down to selected scenarios before upload
+ */
+
+import type { CucumberScenario, ImportedResultStatus } from '../../shared/types.js';
+
+const TAG_KEY_PATTERN = /^@([A-Z][A-Z0-9_]*-\d+)$/;
+
+export interface CucumberReport {
+  features: any[];
+  scenarios: CucumberScenario[];
+}
+
+export class CucumberParser {
+  /**
+   * Parse report JSON into features (kept for upload) and flat scenarios
+   */
+  static parse(json: string): CucumberReport {
+    const data = JSON.parse(json);
+    const features: any[] = Array.isArray(data) ? data : [data];
+
+    if (!features.every(f => f && typeof f === 'object' && Array.isArray(f.elements))) {
+      throw new Error('Expected Cucumber JSON: an array of features with "elements"');
+    }
+
+    const scenarios: CucumberScenario[] = [];
+    for (const feature of features) {
+      for (const element of feature.elements) {
+        // Backgrounds are reported as separate elements; their steps count for the next scenario in Xray
+        if (element.type === 'background') continue;
+
+        scenarios.push({
+          id: this.scenarioId(feature, element),
+          feature: feature.name || feature.uri || '',
+          name: element.name || '',
+          keyword: element.keyword || 'Scenario',
+          tags: (element.tags || []).map((t: any) => t.name),
+          status: this.scenarioStatus(element),
+        });
+      }
+    }
+
+    return { features, scenarios };
+  }
+
+  /**
+   * Issue keys referenced by a scenario's tags, in tag order
+   */
+  static tagKeys(scenario: CucumberScenario): string[] {
+    return scenario.tags
+      .map(tag => tag.match(TAG_KEY_PATTERN)?.[1])
+      .filter((key): key is string => !!key);
+  }
+
+  /**
+   * Copy of the report containing only the given scenarios (plus backgrounds)
+   */
+  static filter(features: any[], keepIds: Set<string>): any[] {
+    return features
+      .map(feature => ({
+        ...feature,
+        elements: feature.elements.filter(
+          (element: any) => element.type === 'background' || keepIds.has(this.scenarioId(feature, element))
+        ),
+      }))
+      .filter(feature => feature.elements.some((e: any) => e.type !== 'background'));
+  }
+
+  private static scenarioId(feature: any, element: any): string {
+    return `${feature.uri || feature.id || feature.name}:${element.line ?? element.id ?? element.name}`;
+  }
+
+  private static scenarioStatus(element: any): ImportedResultStatus {
+    const results: string[] = [
+      ...(element.before || []),
+      ...(element.steps || []),
+      ...(element.after || []),
+    ].map((s: any) => s.result?.status);
+
+    if (results.some(r => r === 'failed')) return 'failed';
+    if (results.length > 0 && results.every(r => r === 'passed')) return 'passed';
+    return 'skipped';
+  }
+}
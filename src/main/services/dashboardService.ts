@@ -0,0 +1,67 @@
+/**
+ * Dashboard Service - Test run progress of a Test Execution
+ *
+ * Features:
+ * - Runs (status, assignee, defects) from the Xray test runs API
+ * - Test summaries and components from Xray's testExecutionTests() JQL function
+ * - Runs are sorted by test key
+ */
+
+import { JiraService } from './jiraService.js';
+import type { AppError, DashboardRun, ExecutionDashboard } from '../../shared/types.js';
+import { ErrorCode, ISSUE_TYPES, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+export class DashboardService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  async getExecutionDashboard(executionKey: string): Promise<ExecutionDashboard> {
+    const execution = await this.jiraService.validateIssue(executionKey);
+    if (!execution.exists) {
+      throw DashboardService.createError(ErrorCode.NOT_FOUND, `Issue ${executionKey} not found`);
+    }
+    if (execution.issueType !== ISSUE_TYPES.TEST_EXECUTION) {
+      throw DashboardService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `${execution.key} is a ${execution.issueType}, not a ${ISSUE_TYPES.TEST_EXECUTION}`
+      );
+    }
+
+    const [runs, tests] = await Promise.all([
+      this.jiraService.getTestRunsForExecution(execution.key),
+      this.jiraService.searchIssueFields(
+        `issue in testExecutionTests("${execution.key}")`,
+        ['summary', 'components'],
+        VALIDATION_LIMITS.MAX_TESTS_PER_EXECUTION
+      ),
+    ]);
+    const testsByKey = new Map(tests.map(test => [test.key, test.fields || {}]));
+
+    return {
+      key: execution.key,
+      summary: execution.summary,
+      runs: runs
+        .map((run): DashboardRun => {
+          const test = testsByKey.get(run.testKey) || {};
+          return {
+            id: run.id,
+            testKey: run.testKey,
+            summary: test.summary || '',
+            status: run.status,
+            assignee: run.assignee || run.executedBy || '',
+            components: (test.components || []).map((c: any) => c.name),
+            defects: (run.defects || []).map((d: any) => (typeof d === 'string' ? d : d.key)),
+          };
+        })
+        .sort((a, b) => a.testKey.localeCompare(b.testKey, undefined, { numeric: true })),
+      loadedAt: new Date().toISOString(),
+    };
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
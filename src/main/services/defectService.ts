@@ -0,0 +1,114 @@
+/**
+ * Defect Service - Bugs raised from failed test runs
+ *
+ * Features:
+ * - Draft pre-filled from the test summary, the steps up to the failing one,
+ *   and the execution's environments and fix versions
+ * - Required Bug fields the app cannot fill are reported before creating
+ * - The created Bug is linked to the Test and added to the run (or step) defects;
+ *   a failure there is returned as a warning since the Bug already exists
+ */
+
+import { JiraService } from './jiraService.js';
+import type { AppError, CreatedDefect, DefectDraft, TestRun, TestRunStep } from '../../shared/types.js';
+import { ErrorCode, ISSUE_TYPES, LINK_TYPES, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+export class DefectService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  async buildDraft(testRunId: number, stepId?: number): Promise<DefectDraft> {
+    const [run, bugFields] = await Promise.all([
+      this.jiraService.getTestRun(testRunId),
+      this.jiraService.getFieldsForIssueType(ISSUE_TYPES.BUG),
+    ]);
+    const test = await this.jiraService.validateIssue(run.testKey);
+
+    // From one step: that step. From the run: its first failed step, if any
+    const failedIndex = stepId !== undefined
+      ? run.steps.findIndex(s => s.id === stepId)
+      : run.steps.findIndex(s => s.status === 'FAIL');
+    if (stepId !== undefined && failedIndex === -1) {
+      throw DefectService.createError(ErrorCode.NOT_FOUND, `Step ${stepId} is not part of run ${testRunId}`);
+    }
+    const failedStep = failedIndex === -1 ? undefined : run.steps[failedIndex];
+
+    const summary = failedStep
+      ? `${test.summary} - step ${failedStep.index} fails`
+      : `${test.summary} - test fails`;
+
+    return {
+      testRunId,
+      testKey: run.testKey,
+      stepId,
+      summary: summary.slice(0, VALIDATION_LIMITS.MAX_SUMMARY_LENGTH),
+      description: DefectService.describe(run, test.summary, failedIndex)
+        .slice(0, VALIDATION_LIMITS.MAX_DESCRIPTION_LENGTH),
+      environment: run.environments.join(', '),
+      fixVersions: run.fixVersions,
+      missingRequired: JiraService.missingDefectFields(bugFields),
+    };
+  }
+
+  async createDefect(draft: DefectDraft): Promise<CreatedDefect> {
+    if (!draft.summary.trim()) {
+      throw DefectService.createError(ErrorCode.VALIDATION_ERROR, 'Summary is required');
+    }
+
+    const { key } = await this.jiraService.createDefect(draft);
+    const warnings: string[] = [];
+
+    try {
+      await this.jiraService.linkIssues(LINK_TYPES.RELATES, key, draft.testKey);
+    } catch (error: unknown) {
+      warnings.push(`Not linked to ${draft.testKey}: ${(error as AppError).message}`);
+    }
+    try {
+      await this.jiraService.addTestRunDefects(draft.testRunId, [key], draft.stepId);
+    } catch (error: unknown) {
+      warnings.push(`Not added to the run: ${(error as AppError).message}`);
+    }
+
+    return { key, warnings };
+  }
+
+  /**
+   * Jira wiki markup: context, the steps up to the failing one, and what happened there
+   */
+  private static describe(run: TestRun, testSummary: string, failedIndex: number): string {
+    const steps = failedIndex === -1 ? run.steps : run.steps.slice(0, failedIndex + 1);
+    const lines = [`Found while running ${run.testKey} (${testSummary}) in ${run.testExecKey}.`];
+
+    if (steps.length > 0) {
+      lines.push('', 'h3. Steps to reproduce');
+      for (const step of steps) {
+        lines.push(`# ${DefectService.oneLine(step.step)}${step.data ? ` (data: ${DefectService.oneLine(step.data)})` : ''}`);
+      }
+    }
+
+    const failed: TestRunStep | undefined = run.steps[failedIndex];
+    if (failed) {
+      lines.push(
+        '',
+        `h3. Step ${failed.index}`,
+        `*Expected:* ${failed.result || '-'}`,
+        `*Actual:* ${failed.actualResult || '-'}`
+      );
+      if (failed.comment) lines.push(`*Comment:* ${failed.comment}`);
+    }
+    if (run.comment) lines.push('', `*Run comment:* ${run.comment}`);
+
+    return lines.join('\n');
+  }
+
+  private static oneLine(text: string): string {
+    return text.replace(/\s*\n\s*/g, ' ').trim();
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Export Service - Pulls tests, test sets and executions out of Jira/Xray
+ * as spreadsheet rows for audits and release sign-off
+ *
+ * Features:
+ * - Selects issues by JQL (scoped to the project and entity type) or by key,
+ *   see JiraService.scopedJql
+ * - Tests expand to one row per step when a step column is chosen
+ * - Executions carry run status counts from Xray
+ * - Columns are chosen by id from EXPORT_COLUMNS and kept in the given order
+ */
+
+import { JiraService } from './jiraService.js';
+import { SpreadsheetWriter, type SpreadsheetCell } from './spreadsheetWriter.js';
+import type { AppError, ExportEntity, ExportFormat, ExportRequest } from '../../shared/types.js';
+import {
+  CUSTOM_FIELDS,
+  ErrorCode,
+  EXPORT_COLUMNS,
+  EXPORT_STEP_COLUMNS,
+  ISSUE_TYPES,
+  VALIDATION_LIMITS,
+} from '../../shared/constants.js';
+
+type ExportRecord = Record<string, SpreadsheetCell>;
+
+const ENTITY_ISSUE_TYPES: Record<ExportEntity, string> = {
+  tests: ISSUE_TYPES.TEST,
+  testSets: ISSUE_TYPES.TEST_SET,
+  executions: ISSUE_TYPES.TEST_EXECUTION,
+};
+
+const ENTITY_SHEET_NAMES: Record<ExportEntity, string> = {
+  tests: 'Tests',
+  testSets: 'Test Sets',
+  executions: 'Test Executions',
+};
+
+export class ExportService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  /**
+   * Fetch the requested issues and lay them out as rows (header first)
+   */
+  async buildRows(request: ExportRequest): Promise<{ rows: SpreadsheetCell[][]; issueCount: number }> {
+    const columns = EXPORT_COLUMNS[request.entity].filter(c => request.columns.includes(c.id));
+    const ordered = request.columns
+      .map(id => columns.find(c => c.id === id))
+      .filter((c): c is (typeof columns)[number] => Boolean(c));
+
+    if (ordered.length === 0) {
+      throw ExportService.createError(ErrorCode.VALIDATION_ERROR, 'Choose at least one column to export');
+    }
+
+    const jql = this.jiraService.scopedJql(ENTITY_ISSUE_TYPES[request.entity], request);
+    const issues = await this.jiraService.searchIssueFields(
+      jql,
+      this.fieldsFor(request.entity),
+      VALIDATION_LIMITS.MAX_EXPORT_ISSUES
+    );
+
+    let records: ExportRecord[];
+    if (request.entity === 'tests') {
+      const withSteps = ordered.some(c => (EXPORT_STEP_COLUMNS as readonly string[]).includes(c.id));
+      records = await this.testRecords(issues, withSteps);
+    } else if (request.entity === 'testSets') {
+      records = issues.map(issue => this.testSetRecord(issue));
+    } else {
+      records = await this.executionRecords(issues);
+    }
+
+    const header = ordered.map(c => c.label);
+    const rows = records.map(record => ordered.map(c => record[c.id] ?? ''));
+    return { rows: [header, ...rows], issueCount: issues.length };
+  }
+
+  /**
+   * Serialize rows for the chosen format
+   */
+  static serialize(rows: SpreadsheetCell[][], format: ExportFormat, entity: ExportEntity): Buffer {
+    return format === 'xlsx'
+      ? SpreadsheetWriter.toXlsx(rows, ENTITY_SHEET_NAMES[entity])
+      : Buffer.from(SpreadsheetWriter.toCsv(rows), 'utf-8');
+  }
+
+  private fieldsFor(entity: ExportEntity): string[] {
+    const common = ['summary', 'status', 'labels', 'assignee'];
+    if (entity === 'tests') return [...common, 'priority', 'components', CUSTOM_FIELDS.TEST_TYPE];
+    if (entity === 'testSets') return [...common, CUSTOM_FIELDS.TESTS_IN_SET];
+    return [...common, 'fixVersions'];
+  }
+
+  private baseRecord(issue: any): ExportRecord {
+    const fields = issue.fields || {};
+    return {
+      key: issue.key,
+      summary: fields.summary || '',
+      status: fields.status?.name || '',
+      labels: (fields.labels || []).join(', '),
+      assignee: fields.assignee?.displayName || fields.assignee?.name || '',
+    };
+  }
+
+  private async testRecords(issues: any[], withSteps: boolean): Promise<ExportRecord[]> {
+    const steps = withSteps
+      ? await Promise.all(issues.map(issue => this.jiraService.getTestSteps(issue.key)))
+      : [];
+
+    return issues.flatMap((issue, i) => {
+      const fields = issue.fields || {};
+      const record: ExportRecord = {
+        ...this.baseRecord(issue),
+        priority: fields.priority?.name || '',
+        testType: fields[CUSTOM_FIELDS.TEST_TYPE]?.value || '',
+        components: (fields.components || []).map((c: any) => c.name).join(', '),
+      };
+
+      const testSteps = steps[i] || [];
+      if (!withSteps || testSteps.length === 0) return [record];
+
+      return testSteps.map(step => ({
+        ...record,
+        stepNumber: step.index,
+        step: step.step,
+        data: step.data,
+        result: step.result,
+      }));
+    });
+  }
+
+  private testSetRecord(issue: any): ExportRecord {
+    const tests: string[] = issue.fields?.[CUSTOM_FIELDS.TESTS_IN_SET] || [];
+    return {
+      ...this.baseRecord(issue),
+      testCount: tests.length,
+      tests: tests.join(', '),
+    };
+  }
+
+  private async executionRecords(issues: any[]): Promise<ExportRecord[]> {
+    const runs = await Promise.all(issues.map(issue => this.jiraService.getExecutionTestRuns(issue.key)));
+
+    return issues.map((issue, i) => {
+      const total = runs[i].length;
+      const passed = runs[i].filter(r => r.status === 'PASS').length;
+      const failed = runs[i].filter(r => r.status === 'FAIL').length;
+      return {
+        ...this.baseRecord(issue),
+        fixVersions: (issue.fields?.fixVersions || []).map((v: any) => v.name).join(', '),
+        total,
+        passed,
+        failed,
+        todo: runs[i].filter(r => r.status === 'TODO').length,
+        passRate: total > 0 ? `${Math.round((passed / total) * 100)}%` : '',
+      };
+    });
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
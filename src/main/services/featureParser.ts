@@ -0,0 +1,172 @@
+/**
+ * Feature Parser - Reads Gherkin .feature files
+ *
+ * Features:
+ * - Feature, Background, Scenario / Example, Scenario Outline / Template
+ * - Tags on features, scenarios and Examples blocks
+ * - Doc strings and data tables attached to the step above them
+ * - Rule: blocks are flattened; their Backgrounds join the feature Background
+ * - English keywords only (# language: headers are ignored)
+ * - parseFile reads a .feature file from disk (size-checked) as drafts for
+ *   new manual tests; nothing is sent to Jira
+ */
+
+import { promises as fs } from 'fs';
+import type { AppError, FeatureExamples, FeatureScenario, FeatureStep, ParsedFeature } from '../../shared/types.js';
+import { ErrorCode, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+const STEP_PATTERN = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const SECTION_PATTERN = /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+const DOC_STRING_PATTERN = /^("""|```)/;
+
+type Section = 'feature' | 'background' | 'scenario' | 'examples';
+
+export class FeatureParser {
+  /**
+   * Read and parse a .feature file, refusing anything unreasonably large
+   */
+  static async parseFile(filePath: string): Promise<ParsedFeature> {
+    const stat = await fs.stat(filePath);
+    if (stat.size > VALIDATION_LIMITS.MAX_IMPORT_FILE_BYTES) {
+      throw FeatureParser.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Feature file is too large (max ${VALIDATION_LIMITS.MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB)`
+      );
+    }
+
+    const text = await fs.readFile(filePath, 'utf-8');
+    try {
+      return FeatureParser.parse(text);
+    } catch (error) {
+      throw FeatureParser.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'File is not a valid Gherkin feature file',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Parse feature file text; throws when there is no Feature: line
+   */
+  static parse(text: string): ParsedFeature {
+    const feature: ParsedFeature = { name: '', description: '', tags: [], background: [], scenarios: [] };
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    let section: Section | null = null;
+    let pendingTags: string[] = [];
+    let scenario: FeatureScenario | null = null;
+    let examples: FeatureExamples | null = null;
+    let lastStep: FeatureStep | null = null;
+    let docString: { fence: string; indent: number; lines: string[] } | null = null;
+    let descriptionLines: string[] = [];
+
+    const flushDescription = () => {
+      const description = descriptionLines.join('\n').trim();
+      descriptionLines = [];
+      if (!description) return;
+      if (section === 'feature') feature.description = description;
+      else if (section === 'scenario' && scenario) scenario.description = description;
+    };
+
+    lines.forEach((raw, index) => {
+      const line = raw.trim();
+
+      if (docString) {
+        if (line.startsWith(docString.fence)) {
+          if (lastStep) lastStep.argument = docString.lines.join('\n');
+          docString = null;
+        } else {
+          // Strip the fence's indentation, keep anything deeper
+          docString.lines.push(raw.slice(Math.min(docString.indent, raw.search(/\S|$/))));
+        }
+        return;
+      }
+
+      if (!line || line.startsWith('#')) return;
+
+      if (line.startsWith('@')) {
+        pendingTags.push(...line.split(/\s+/).filter(t => t.startsWith('@')).map(t => t.slice(1)));
+        return;
+      }
+
+      const fence = line.match(DOC_STRING_PATTERN);
+      if (fence) {
+        docString = { fence: fence[1], indent: raw.search(/\S/), lines: [] };
+        return;
+      }
+
+      if (line.startsWith('|')) {
+        const cells = line.replace(/^\||\|$/g, '').split('|').map(c => c.trim());
+        if (section === 'examples' && examples) {
+          if (examples.header.length === 0) examples.header = cells;
+          else examples.rows.push(cells);
+        } else if (lastStep) {
+          lastStep.argument = lastStep.argument ? `${lastStep.argument}\n${line}` : line;
+        }
+        return;
+      }
+
+      const heading = line.match(SECTION_PATTERN);
+      if (heading) {
+        flushDescription();
+        const [, keyword, name] = heading;
+        lastStep = null;
+
+        if (keyword === 'Feature') {
+          section = 'feature';
+          feature.name = name;
+          feature.tags = pendingTags;
+        } else if (keyword === 'Rule') {
+          section = 'feature';
+        } else if (keyword === 'Background') {
+          section = 'background';
+        } else if (keyword === 'Examples' || keyword === 'Scenarios') {
+          section = 'examples';
+          examples = { name, tags: pendingTags, header: [], rows: [] };
+          scenario?.examples.push(examples);
+        } else {
+          section = 'scenario';
+          scenario = {
+            name,
+            line: index + 1,
+            outline: keyword === 'Scenario Outline' || keyword === 'Scenario Template',
+            tags: pendingTags,
+            description: '',
+            steps: [],
+            examples: [],
+          };
+          feature.scenarios.push(scenario);
+        }
+        pendingTags = [];
+        return;
+      }
+
+      const step = line.match(STEP_PATTERN);
+      if (step && (section === 'background' || section === 'scenario')) {
+        flushDescription();
+        lastStep = { keyword: step[1], text: step[2].trim() };
+        if (section === 'background') feature.background.push(lastStep);
+        else scenario?.steps.push(lastStep);
+        return;
+      }
+
+      // Free text under a heading is its description
+      if (section === 'feature' || (section === 'scenario' && scenario?.steps.length === 0)) {
+        descriptionLines.push(line);
+      }
+    });
+
+    flushDescription();
+
+    if (!feature.name && feature.scenarios.length === 0) {
+      throw new Error('No "Feature:" found - is this a Gherkin .feature file?');
+    }
+
+    return feature;
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -16,15 +16,39 @@ import {
   CreateIssueResponse,
   StoryValidationResult,
   TestStepInput,
+  TestStep,
+  ExistingTest,
+  UpdateTestInput,
+  FieldUpdateResult,
   AppError,
   Priority,
   LabelSuggestion,
   Component,
   Version,
+  TestRun,
+  TestRunStep,
+  TestRunSummary,
+  CoverageRun,
+  UpdateTestRunInput,
+  UpdateTestRunStepInput,
+  CreatePreconditionInput,
+  Precondition,
+  CreateTestPlanInput,
+  AssociationChange,
+  TestPlanDetails,
+  TestRepositoryFolder,
+  IssueQuery,
+  JiraFilter,
+  Attachment,
+  AttachmentUpload,
+  DefectDraft,
+  IssueTransition,
 } from '../../shared/types.js';
-import { CUSTOM_FIELDS, ErrorCode, TIMEOUTS, RATE_LIMITS } from '../../shared/constants.js';
+import { CUSTOM_FIELDS, ISSUE_TYPES, XRAY_FIELD_NAMES, ErrorCode, TIMEOUTS, RATE_LIMITS } from '../../shared/constants.js';
 import { MetadataService, FieldDescriptor } from './metadataService.js';
 
+const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*-\d+$/;
+
 export class JiraService {
   private client: AxiosInstance;
   private limiter = pLimit(RATE_LIMITS.MAX_CONCURRENT_REQUESTS);
@@ -220,12 +244,16 @@ export class JiraService {
   // ==================== Test Operations ====================
 
   async createTest(input: CreateTestInput): Promise<CreateIssueResponse> {
+    // Resolved outside the limiter - field lookup may need to load metadata first
+    const definitionFields = await this.buildTestDefinitionFields(input);
+
     return this.limiter(async () => {
       const fields: Record<string, unknown> = {
         project: { key: this.projectKey },
         issuetype: { name: 'Test' },
         summary: input.summary,
         [CUSTOM_FIELDS.TEST_TYPE]: { value: input.testType },
+        ...definitionFields,
       };
 
       if (input.description) fields.description = input.description;
@@ -247,6 +275,43 @@ export class JiraService {
     });
   }
 
+  /**
+   * Cucumber and Generic tests keep their definition in custom fields
+   * that are looked up by name (IDs differ between Xray instances)
+   */
+  private async buildTestDefinitionFields(input: CreateTestInput): Promise<Record<string, unknown>> {
+    if (input.testType === 'Cucumber') {
+      const scenarioTypeField = await this.resolveXrayField(XRAY_FIELD_NAMES.CUCUMBER_TEST_TYPE);
+      const scenarioField = await this.resolveXrayField(XRAY_FIELD_NAMES.CUCUMBER_SCENARIO);
+      return {
+        [scenarioTypeField]: { value: input.scenarioType || 'Scenario' },
+        [scenarioField]: input.gherkin || '',
+      };
+    }
+
+    if (input.testType === 'Generic') {
+      const definitionField = await this.resolveXrayField(XRAY_FIELD_NAMES.GENERIC_DEFINITION);
+      return { [definitionField]: input.definition || '' };
+    }
+
+    return {};
+  }
+
+  private async resolveXrayField(name: string): Promise<string> {
+    const key = await this.findXrayFieldKey(name);
+    if (!key) {
+      throw this.createError(ErrorCode.NOT_FOUND, `Xray field "${name}" was not found on this Jira instance`);
+    }
+    return key;
+  }
+
+  private async findXrayFieldKey(name: string): Promise<string | undefined> {
+    if (!this.metadataInitialized) {
+      await this.initializeMetadata();
+    }
+    return this.metadataService.findFieldByName(name)?.key;
+  }
+
   /**
    * FIX #2: Add test step - FIXED DUPLICATION ISSUE
    * 
@@ -268,15 +333,177 @@ export class JiraService {
   }
 
   /**
-   * Get all test steps for a test (useful for verification)
+   * Get all test steps for a test, in order
+   * Xray DC returns step fields either as plain strings or as { raw, rendered }
    */
-  async getTestSteps(testKey: string): Promise<TestStepInput[]> {
+  async getTestSteps(testKey: string): Promise<TestStep[]> {
     return this.limiter(async () => {
       const response = await this.client.get(`/rest/raven/1.0/api/test/${testKey}/step`);
-      return response.data || [];
+      const steps: any[] = response.data || [];
+      const text = (value: any): string => (typeof value === 'string' ? value : value?.raw ?? '');
+
+      return steps
+        .map((step, i) => ({
+          id: step.id,
+          index: step.index ?? i + 1,
+          step: text(step.step),
+          data: text(step.data),
+          result: text(step.result),
+        }))
+        .sort((a, b) => a.index - b.index);
+    });
+  }
+
+  async updateTestStep(testKey: string, stepId: number, step: TestStepInput): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.post(`/rest/raven/1.0/api/test/${testKey}/step/${stepId}`, {
+        step: step.step,
+        data: step.data,
+        result: step.result,
+      });
+    });
+  }
+
+  async deleteTestStep(testKey: string, stepId: number): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.delete(`/rest/raven/1.0/api/test/${testKey}/step/${stepId}`);
     });
   }
 
+  // ==================== Test Editing ====================
+
+  /**
+   * Load a Test into the shape of the create form
+   */
+  async getTestForEdit(testKey: string): Promise<ExistingTest> {
+    const issue = await this.getIssueScheme(testKey);
+    const fields = issue.fields || {};
+    const issueType = fields.issuetype?.name;
+    if (issueType !== ISSUE_TYPES.TEST) {
+      throw this.createError(ErrorCode.VALIDATION_ERROR, `${testKey} is a ${issueType || 'unknown issue type'}, not a Test`);
+    }
+
+    const steps = await this.getTestSteps(testKey);
+    const scenarioTypeField = await this.findXrayFieldKey(XRAY_FIELD_NAMES.CUCUMBER_TEST_TYPE);
+    const scenarioField = await this.findXrayFieldKey(XRAY_FIELD_NAMES.CUCUMBER_SCENARIO);
+    const definitionField = await this.findXrayFieldKey(XRAY_FIELD_NAMES.GENERIC_DEFINITION);
+
+    return {
+      key: issue.key,
+      test: {
+        summary: fields.summary || '',
+        description: fields.description || '',
+        testType: fields[CUSTOM_FIELDS.TEST_TYPE]?.value || 'Manual',
+        scenarioType: (scenarioTypeField && fields[scenarioTypeField]?.value) || 'Scenario',
+        gherkin: (scenarioField && fields[scenarioField]) || '',
+        definition: (definitionField && fields[definitionField]) || '',
+        priority: fields.priority?.id || '',
+        assignee: fields.assignee?.name || '',
+        reporter: fields.reporter?.name || '',
+        labels: fields.labels || [],
+        components: (fields.components || []).map((c: any) => c.name),
+        fixVersions: (fields.fixVersions || []).map((v: any) => v.name),
+        dueDate: fields.duedate || '',
+        steps: steps.map(({ id, step, data, result }) => ({ id, step, data, result })),
+      },
+    };
+  }
+
+  /**
+   * Save changed fields (one PUT each) and step changes, collecting a result
+   * per field/step so one rejected field does not hide the others
+   */
+  async updateTest(input: UpdateTestInput): Promise<FieldUpdateResult[]> {
+    const results: FieldUpdateResult[] = [];
+    const attempt = async (field: string, action: () => Promise<void>) => {
+      try {
+        await action();
+        results.push({ field, success: true });
+      } catch (error: unknown) {
+        const appError = error as AppError;
+        results.push({ field, success: false, error: appError.message || String(error) });
+      }
+    };
+
+    for (const field of Object.keys(input.fields) as (keyof UpdateTestInput['fields'])[]) {
+      await attempt(field, async () => {
+        if (field === 'folderPath') {
+          const folderId = await this.resolveFolderPath(input.fields.folderPath || '/');
+          await this.moveTestsToFolder(folderId, [input.testKey]);
+          return;
+        }
+        await this.updateIssueFields(input.testKey, await this.buildTestUpdateFields(field, input.fields));
+      });
+    }
+
+    for (const step of input.steps.remove) {
+      await attempt(`Step ${step.index} (deleted)`, () => this.deleteTestStep(input.testKey, step.id));
+    }
+    for (const step of input.steps.update) {
+      await attempt(`Step ${step.index}`, () => this.updateTestStep(input.testKey, step.id, step));
+    }
+    for (const [i, step] of input.steps.add.entries()) {
+      await attempt(`New step ${i + 1}`, () => this.addTestStep(input.testKey, step));
+    }
+
+    return results;
+  }
+
+  async updateIssueFields(issueKey: string, fields: Record<string, unknown>): Promise<void> {
+    return this.updateIssue(issueKey, { fields });
+  }
+
+  /**
+   * Edit an issue with "fields" (set) and/or "update" (add/remove operations)
+   */
+  async updateIssue(
+    issueKey: string,
+    body: { fields?: Record<string, unknown>; update?: Record<string, unknown[]> }
+  ): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.put(`/rest/api/2/issue/${issueKey}`, body);
+    });
+  }
+
+  /**
+   * Jira fields for one changed form field; empty values clear the field
+   */
+  private async buildTestUpdateFields(
+    field: keyof UpdateTestInput['fields'],
+    values: UpdateTestInput['fields']
+  ): Promise<Record<string, unknown>> {
+    switch (field) {
+      case 'summary':
+        return { summary: values.summary };
+      case 'description':
+        return { description: values.description || null };
+      case 'testType':
+        return { [CUSTOM_FIELDS.TEST_TYPE]: { value: values.testType } };
+      case 'scenarioType':
+        return { [await this.resolveXrayField(XRAY_FIELD_NAMES.CUCUMBER_TEST_TYPE)]: { value: values.scenarioType || 'Scenario' } };
+      case 'gherkin':
+        return { [await this.resolveXrayField(XRAY_FIELD_NAMES.CUCUMBER_SCENARIO)]: values.gherkin || '' };
+      case 'definition':
+        return { [await this.resolveXrayField(XRAY_FIELD_NAMES.GENERIC_DEFINITION)]: values.definition || '' };
+      case 'priority':
+        return { priority: values.priority ? { id: values.priority } : null };
+      case 'assignee':
+        return { assignee: values.assignee ? { name: values.assignee } : null };
+      case 'reporter':
+        return { reporter: values.reporter ? { name: values.reporter } : null };
+      case 'labels':
+        return { labels: values.labels || [] };
+      case 'components':
+        return { components: (values.components || []).map(c => ({ name: c })) };
+      case 'fixVersions':
+        return { fixVersions: (values.fixVersions || []).map(v => ({ name: v })) };
+      case 'dueDate':
+        return { duedate: values.dueDate || null };
+      default:
+        throw this.createError(ErrorCode.VALIDATION_ERROR, `Field "${field}" cannot be edited`);
+    }
+  }
+
   async createTestSet(input: CreateTestSetInput): Promise<CreateIssueResponse> {
     return this.limiter(async () => {
       const fields: Record<string, unknown> = {
@@ -308,25 +535,34 @@ export class JiraService {
 
   async createTestExecution(input: CreateTestExecutionInput): Promise<CreateIssueResponse> {
     return this.limiter(async () => {
-      const fields: Record<string, unknown> = {
-        project: { key: this.projectKey },
-        issuetype: { name: 'Test Execution' },
-        summary: input.summary,
-      };
-
-      if (input.description) fields.description = input.description;
-      if (input.fixVersions) {
-        fields.fixVersions = input.fixVersions.map(v => ({ name: v }));
-      }
-      if (input.assignee) fields.assignee = { name: input.assignee };
-      if (input.reporter) fields.reporter = { name: input.reporter };
-      if (input.labels) fields.labels = input.labels;
-
+      const fields = this.buildTestExecutionFields(input);
       const response = await this.client.post('/rest/api/2/issue', { fields });
       return response.data;
     });
   }
 
+  /**
+   * Issue fields for a Test Execution - shared by createTestExecution and
+   * results imports so imported executions look like ones created in the app
+   */
+  private buildTestExecutionFields(input: CreateTestExecutionInput): Record<string, unknown> {
+    const fields: Record<string, unknown> = {
+      project: { key: this.projectKey },
+      issuetype: { name: 'Test Execution' },
+      summary: input.summary,
+    };
+
+    if (input.description) fields.description = input.description;
+    if (input.fixVersions) {
+      fields.fixVersions = input.fixVersions.map(v => ({ name: v }));
+    }
+    if (input.assignee) fields.assignee = { name: input.assignee };
+    if (input.reporter) fields.reporter = { name: input.reporter };
+    if (input.labels) fields.labels = input.labels;
+
+    return fields;
+  }
+
   async addTestsToExecution(executionKey: string, testKeys: string[]): Promise<void> {
     return this.limiter(async () => {
       await this.client.put(`/rest/api/2/issue/${executionKey}`, {
@@ -347,29 +583,45 @@ export class JiraService {
     });
   }
 
-  async searchTestsByLabel(label: string): Promise<string[]> {
+  /**
+   * Find an existing Test whose summary matches exactly (case-insensitive)
+   */
+  async findTestKeyBySummary(summary: string): Promise<string | undefined> {
     return this.limiter(async () => {
-      const jql = `project = ${this.projectKey} AND issuetype = Test AND labels = "${label}"`;
+      // Text search is fuzzy, so narrow it down and compare exactly afterwards
+      const jql = `project = ${this.projectKey} AND issuetype = Test AND summary ~ "${this.toTextSearchTerm(summary)}"`;
       const response = await this.client.get('/rest/api/2/search', {
         params: {
           jql,
-          fields: 'key',
-          maxResults: 100,
+          fields: 'key,summary',
+          maxResults: 50,
         },
       });
 
-      return response.data.issues.map((issue: any) => issue.key);
+      const wanted = summary.trim().toLowerCase();
+      const match = response.data.issues.find(
+        (issue: any) => String(issue.fields.summary).trim().toLowerCase() === wanted
+      );
+      return match?.key;
     });
   }
 
+  /**
+   * Summaries for the given keys, 100 keys per search so long lists stay
+   * under Jira's maxResults cap and the URL length limit
+   */
   async getTestsByKeys(keys: string[]): Promise<{ key: string; summary: string }[]> {
-    return this.limiter(async () => {
-      const jql = `key in (${keys.join(',')})`;
+    const chunkSize = 100;
+    const chunks: string[][] = [];
+    for (let i = 0; i < keys.length; i += chunkSize) chunks.push(keys.slice(i, i + chunkSize));
+
+    const results = await Promise.all(chunks.map(chunk => this.limiter(async () => {
+      const jql = `key in (${chunk.join(',')})`;
       const response = await this.client.get('/rest/api/2/search', {
         params: {
           jql,
           fields: 'key,summary',
-          maxResults: keys.length,
+          maxResults: chunk.length,
         },
       });
 
@@ -377,7 +629,8 @@ export class JiraService {
         key: issue.key,
         summary: issue.fields.summary,
       }));
-    });
+    })));
+    return results.flat();
   }
 
   async linkToTestPlan(executionKey: string, testPlanKey: string): Promise<void> {
@@ -519,8 +772,787 @@ export class JiraService {
     });
   }
 
+  // ==================== Xray Test Run APIs ====================
+
+  /**
+   * List the test runs of a Test Execution (one per test, in execution rank order)
+   */
+  async getExecutionTestRuns(executionKey: string): Promise<TestRunSummary[]> {
+    return this.limiter(async () => {
+      const response = await this.client.get(`/rest/raven/1.0/api/testexec/${executionKey}/test`);
+      const runs: any[] = response.data || [];
+
+      return runs
+        .map((run) => ({
+          id: run.id,
+          testKey: run.key,
+          status: run.status,
+          rank: run.rank,
+        }))
+        .sort((a, b) => a.rank - b.rank);
+    });
+  }
+
+  /**
+   * Every run of a test across Test Executions, with the executions' environments
+   */
+  async getTestRunsForTest(testKey: string): Promise<CoverageRun[]> {
+    const runs = await this.exportTestRuns({ testKey });
+    return runs.map((run) => ({
+      executionKey: run.testExecKey,
+      environments: run.testEnvironments || [],
+      status: run.status,
+      finishedOn: run.finishedOn || undefined,
+    }));
+  }
+
+  /**
+   * Raw runs of a Test Execution, including assignee, executor and defects
+   */
+  async getTestRunsForExecution(executionKey: string): Promise<any[]> {
+    return this.exportTestRuns({ testExecKey: executionKey });
+  }
+
+  private async exportTestRuns(params: { testKey?: string; testExecKey?: string }): Promise<any[]> {
+    return this.limiter(async () => {
+      const response = await this.client.get('/rest/raven/1.0/api/testruns', { params });
+      return response.data || [];
+    });
+  }
+
+  /**
+   * Get a single test run with its steps
+   */
+  async getTestRun(testRunId: number): Promise<TestRun> {
+    return this.limiter(async () => {
+      const response = await this.client.get(`/rest/raven/1.0/api/testrun/${testRunId}`);
+      return this.normalizeTestRun(response.data);
+    });
+  }
+
+  /**
+   * Update overall run status and/or comment
+   */
+  async updateTestRun(testRunId: number, input: UpdateTestRunInput): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.put(`/rest/raven/1.0/api/testrun/${testRunId}`, input);
+    });
+  }
+
+  /**
+   * Update status, comment and actual result of one step of a run.
+   * Xray only touches the steps listed in the payload, the rest keep their values.
+   */
+  async updateTestRunStep(testRunId: number, stepId: number, input: UpdateTestRunStepInput): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.put(`/rest/raven/1.0/api/testrun/${testRunId}`, {
+        steps: [{ id: stepId, ...input }],
+      });
+    });
+  }
+
+  /**
+   * Associate defects with a run, or with one of its steps when stepId is given
+   */
+  async addTestRunDefects(testRunId: number, defectKeys: string[], stepId?: number): Promise<void> {
+    return this.limiter(async () => {
+      const defects = { add: defectKeys };
+      await this.client.put(
+        `/rest/raven/1.0/api/testrun/${testRunId}`,
+        stepId === undefined ? { defects } : { steps: [{ id: stepId, defects }] }
+      );
+    });
+  }
+
+  private normalizeTestRun(run: any): TestRun {
+    const steps: TestRunStep[] = (run.steps || []).map((step: any) => ({
+      id: step.id,
+      index: step.index,
+      step: this.toRawText(step.step),
+      data: this.toRawText(step.data),
+      result: this.toRawText(step.result),
+      status: step.status,
+      comment: this.toRawText(step.comment),
+      actualResult: this.toRawText(step.actualResult),
+      defects: this.toKeys(step.defects),
+    }));
+
+    return {
+      id: run.id,
+      testKey: run.testKey,
+      testExecKey: run.testExecKey,
+      status: run.status,
+      comment: this.toRawText(run.comment),
+      assignee: run.assignee,
+      executedBy: run.executedBy,
+      startedOn: run.startedOn,
+      finishedOn: run.finishedOn,
+      environments: run.testEnvironments || [],
+      fixVersions: (run.fixVersions || []).map((v: any) => (typeof v === 'string' ? v : v.name)),
+      defects: this.toKeys(run.defects),
+      steps: steps.sort((a, b) => a.index - b.index),
+    };
+  }
+
+  /**
+   * Xray lists defects either as keys or as { id, key, summary, status }
+   */
+  private toKeys(values: unknown): string[] {
+    return Array.isArray(values) ? values.map((v: any) => (typeof v === 'string' ? v : v.key)) : [];
+  }
+
+  /**
+   * Xray returns rich-text fields either as plain strings or as { raw, rendered }
+   */
+  private toRawText(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && 'raw' in value) {
+      return String((value as { raw: unknown }).raw ?? '');
+    }
+    return '';
+  }
+
+  // ==================== Workflow Transitions ====================
+
+  /**
+   * Transitions available to the current user on an issue, with their screen fields
+   */
+  async getTransitions(issueKey: string): Promise<IssueTransition[]> {
+    return this.limiter(async () => {
+      const response = await this.client.get(`/rest/api/2/issue/${issueKey}/transitions`, {
+        params: { expand: 'transitions.fields' },
+      });
+      const transitions: any[] = response.data.transitions || [];
+      return transitions.map((t) => ({
+        id: String(t.id),
+        name: t.name,
+        toStatus: t.to?.name || '',
+        fields: Object.entries(t.fields || {}).map(([key, field]: [string, any]) => ({
+          key,
+          name: field.name || key,
+          required: !!field.required,
+          type: field.schema?.type || 'string',
+          items: field.schema?.items,
+          allowedValues: field.allowedValues?.map((v: any) => ({ id: String(v.id), name: v.name || v.value || String(v.id) })),
+        })),
+      }));
+    });
+  }
+
+  /**
+   * Run a transition; fields and update follow the issue edit format
+   */
+  async transitionIssue(
+    issueKey: string,
+    transitionId: string,
+    body: { fields?: Record<string, unknown>; update?: Record<string, unknown> } = {}
+  ): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.post(`/rest/api/2/issue/${issueKey}/transitions`, {
+        transition: { id: transitionId },
+        ...body,
+      });
+    });
+  }
+
+  // ==================== Defects ====================
+
+  /**
+   * Create a Bug from a draft. Optional fields are only sent when the Bug
+   * create screen has them; required fields the draft cannot fill are refused
+   * up front instead of failing on Jira's side.
+   */
+  async createDefect(draft: DefectDraft): Promise<CreateIssueResponse> {
+    // Resolved outside the limiter - field lookup may need to load metadata first
+    const bugFields = await this.getFieldsForIssueType(ISSUE_TYPES.BUG);
+    const missing = JiraService.missingDefectFields(bugFields);
+    if (missing.length > 0) {
+      throw this.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `The Bug create screen requires fields this app cannot fill: ${missing.join(', ')}`
+      );
+    }
+    const onScreen = new Set(bugFields.map(f => f.key));
+
+    return this.limiter(async () => {
+      const fields: Record<string, unknown> = {
+        project: { key: this.projectKey },
+        issuetype: { name: ISSUE_TYPES.BUG },
+        summary: draft.summary,
+      };
+
+      if (onScreen.has('description') && draft.description) fields.description = draft.description;
+      if (onScreen.has('environment') && draft.environment) fields.environment = draft.environment;
+      if (onScreen.has('fixVersions') && draft.fixVersions.length > 0) {
+        fields.fixVersions = draft.fixVersions.map(v => ({ name: v }));
+      }
+      if (onScreen.has('priority') && draft.priority) fields.priority = { id: draft.priority };
+
+      const response = await this.client.post('/rest/api/2/issue', { fields });
+      return response.data;
+    });
+  }
+
+  /**
+   * Required Bug fields without a default that a defect draft does not cover
+   */
+  static missingDefectFields(bugFields: FieldDescriptor[]): string[] {
+    const filled = new Set(['project', 'issuetype', 'summary', 'description', 'environment', 'fixVersions', 'priority']);
+    return bugFields
+      .filter(f => f.required && !f.hasDefaultValue && !filled.has(f.key))
+      .map(f => f.name);
+  }
+
+  // ==================== Attachments & Run Evidence ====================
+
+  /**
+   * Attachments of a Jira issue, oldest first
+   */
+  async getIssueAttachments(issueKey: string): Promise<Attachment[]> {
+    return this.limiter(async () => {
+      const response = await this.client.get(`/rest/api/2/issue/${issueKey}`, {
+        params: { fields: 'attachment' },
+      });
+      const attachments: any[] = response.data.fields?.attachment || [];
+      return attachments.map((a) => ({
+        id: String(a.id),
+        fileName: a.filename,
+        size: a.size || 0,
+        mimeType: a.mimeType || '',
+        created: a.created,
+        author: a.author?.displayName,
+        url: a.content,
+      }));
+    });
+  }
+
+  /**
+   * Upload one file to an issue (multipart; Jira needs the XSRF opt-out header)
+   */
+  async addIssueAttachment(issueKey: string, upload: AttachmentUpload): Promise<void> {
+    return this.limiter(async () => {
+      const form = new FormData();
+      form.append('file', new Blob([upload.data], { type: upload.mimeType }), upload.fileName);
+      await this.client.post(`/rest/api/2/issue/${issueKey}/attachments`, form, {
+        // An explicit multipart type stops axios from serialising the form as JSON
+        headers: { 'Content-Type': 'multipart/form-data', 'X-Atlassian-Token': 'no-check' },
+        timeout: TIMEOUTS.ATTACHMENT_UPLOAD,
+      });
+    });
+  }
+
+  /**
+   * Evidence of a test run, or of one of its steps when stepId is given
+   */
+  async getTestRunEvidence(testRunId: number, stepId?: number): Promise<Attachment[]> {
+    return this.limiter(async () => {
+      const response = await this.client.get(this.evidencePath(testRunId, stepId));
+      const evidence: any[] = response.data || [];
+      return evidence.map((e) => ({
+        id: String(e.id),
+        fileName: e.fileName,
+        size: typeof e.numericalFileSize === 'number' ? e.numericalFileSize : Number(e.fileSize) || 0,
+        mimeType: e.mimeType || '',
+        created: e.createdDate || e.created,
+        author: e.authorFullName || e.author,
+        url: e.fileURL,
+      }));
+    });
+  }
+
+  /**
+   * Add evidence to a test run or one of its steps (Xray takes base64 JSON, not multipart)
+   */
+  async addTestRunEvidence(testRunId: number, upload: AttachmentUpload, stepId?: number): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.post(
+        this.evidencePath(testRunId, stepId),
+        {
+          data: Buffer.from(upload.data).toString('base64'),
+          filename: upload.fileName,
+          contentType: upload.mimeType,
+        },
+        { timeout: TIMEOUTS.ATTACHMENT_UPLOAD }
+      );
+    });
+  }
+
+  private evidencePath(testRunId: number, stepId?: number): string {
+    return stepId === undefined
+      ? `/rest/raven/1.0/api/testrun/${testRunId}/attachment`
+      : `/rest/raven/1.0/api/testrun/${testRunId}/step/${stepId}/attachment`;
+  }
+
+  /**
+   * Download attachment content. Only URLs on the connected Jira instance are
+   * fetched so the credentials are never sent anywhere else.
+   */
+  async downloadAttachment(url: string): Promise<Buffer> {
+    let origin: string;
+    try {
+      origin = new URL(url, this.baseUrl).origin;
+    } catch {
+      throw this.createError(ErrorCode.VALIDATION_ERROR, `Invalid attachment URL: ${url}`);
+    }
+    if (origin !== this.baseUrl) {
+      throw this.createError(ErrorCode.FORBIDDEN, 'Attachment is not on the connected Jira instance');
+    }
+
+    return this.limiter(async () => {
+      const response = await this.client.get(url, {
+        responseType: 'arraybuffer',
+        timeout: TIMEOUTS.ATTACHMENT_UPLOAD,
+      });
+      return Buffer.from(response.data);
+    });
+  }
+
+  // ==================== Xray Test Repository APIs ====================
+
+  /**
+   * Full folder tree of the project's Test Repository, rooted at "/"
+   */
+  async getTestRepositoryFolders(): Promise<TestRepositoryFolder> {
+    return this.limiter(async () => {
+      const response = await this.client.get(`/rest/raven/1.0/api/testrepository/${this.projectKey}/folders`);
+      const data = response.data;
+      // DC answers with the root folder; some versions return just its children
+      const children: any[] = Array.isArray(data) ? data : data?.folders || [];
+      return {
+        id: -1,
+        name: '',
+        path: '/',
+        testsCount: Array.isArray(data) ? 0 : data?.testsCount ?? 0,
+        folders: children.map(folder => this.normalizeFolder(folder, '')),
+      };
+    });
+  }
+
+  /**
+   * Create a folder below an existing folder path ("/" for the root)
+   */
+  async createTestRepositoryFolder(parentPath: string, name: string): Promise<TestRepositoryFolder> {
+    const parentId = await this.resolveFolderPath(parentPath);
+
+    return this.limiter(async () => {
+      const response = await this.client.post(
+        `/rest/raven/1.0/api/testrepository/${this.projectKey}/folders/${parentId}`,
+        { name }
+      );
+      return this.normalizeFolder(response.data, parentPath.replace(/\/+$/, ''));
+    });
+  }
+
+  async moveTestsToFolder(folderId: number, testKeys: string[]): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.put(
+        `/rest/raven/1.0/api/testrepository/${this.projectKey}/folders/${folderId}/tests`,
+        { add: testKeys }
+      );
+    });
+  }
+
+  /**
+   * Folder id for a path like "/Checkout/Payments" (segments match case-insensitively)
+   */
+  async resolveFolderPath(folderPath: string): Promise<number> {
+    const segments = folderPath.split('/').map(s => s.trim()).filter(Boolean);
+    let folder = await this.getTestRepositoryFolders();
+
+    for (const segment of segments) {
+      const next = folder.folders.find(f => f.name.toLowerCase() === segment.toLowerCase());
+      if (!next) {
+        throw this.createError(ErrorCode.NOT_FOUND, `Test Repository folder "${folderPath}" not found`);
+      }
+      folder = next;
+    }
+    return folder.id;
+  }
+
+  private normalizeFolder(raw: any, parentPath: string): TestRepositoryFolder {
+    const path = `${parentPath}/${raw.name}`;
+    return {
+      id: raw.id,
+      name: raw.name,
+      path,
+      testsCount: raw.testsCount ?? raw.testCount ?? 0,
+      folders: (raw.folders || []).map((child: any) => this.normalizeFolder(child, path)),
+    };
+  }
+
+  // ==================== Xray Test Plan APIs ====================
+
+  async createTestPlan(input: CreateTestPlanInput): Promise<CreateIssueResponse> {
+    return this.limiter(async () => {
+      const fields: Record<string, unknown> = {
+        project: { key: this.projectKey },
+        issuetype: { name: ISSUE_TYPES.TEST_PLAN },
+        summary: input.summary,
+      };
+
+      if (input.description) fields.description = input.description;
+      if (input.assignee) fields.assignee = { name: input.assignee };
+      if (input.reporter) fields.reporter = { name: input.reporter };
+      if (input.labels && input.labels.length > 0) fields.labels = input.labels;
+      if (input.fixVersions && input.fixVersions.length > 0) {
+        fields.fixVersions = input.fixVersions.map(v => ({ name: v }));
+      }
+
+      const response = await this.client.post('/rest/api/2/issue', { fields });
+      return response.data;
+    });
+  }
+
+  /**
+   * Plan summary with its tests (incl. latest status) and executions
+   */
+  async getTestPlan(testPlanKey: string): Promise<TestPlanDetails> {
+    const [plan, tests, executions] = await Promise.all([
+      this.validateIssue(testPlanKey),
+      this.limiter(async () => {
+        const response = await this.client.get(`/rest/raven/1.0/api/testplan/${testPlanKey}/test`);
+        return (response.data || []) as any[];
+      }),
+      this.limiter(async () => {
+        const response = await this.client.get(`/rest/raven/1.0/api/testplan/${testPlanKey}/testexecution`);
+        return (response.data || []) as any[];
+      }),
+    ]);
+
+    if (!plan.exists) {
+      throw this.createError(ErrorCode.NOT_FOUND, `Test Plan ${testPlanKey} not found`);
+    }
+
+    const keys = [...tests, ...executions].map(issue => issue.key);
+    const summaries = new Map(
+      (keys.length > 0 ? await this.getTestsByKeys(keys) : []).map(issue => [issue.key, issue.summary])
+    );
+
+    return {
+      key: plan.key,
+      summary: plan.summary,
+      tests: tests.map(t => ({
+        key: t.key,
+        summary: summaries.get(t.key) || '',
+        latestStatus: t.latestStatus || 'TODO',
+      })),
+      executions: executions.map(e => ({ key: e.key, summary: summaries.get(e.key) || '' })),
+    };
+  }
+
+  async updateTestPlanTests(testPlanKey: string, change: AssociationChange): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.post(`/rest/raven/1.0/api/testplan/${testPlanKey}/test`, {
+        add: change.add || [],
+        remove: change.remove || [],
+      });
+    });
+  }
+
+  async updateTestPlanExecutions(testPlanKey: string, change: AssociationChange): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.post(`/rest/raven/1.0/api/testplan/${testPlanKey}/testexecution`, {
+        add: change.add || [],
+        remove: change.remove || [],
+      });
+    });
+  }
+
+  // ==================== Xray Pre-Condition APIs ====================
+
+  async createPrecondition(input: CreatePreconditionInput): Promise<CreateIssueResponse> {
+    const typeField = await this.resolveXrayField(XRAY_FIELD_NAMES.PRECONDITION_TYPE);
+
+    return this.limiter(async () => {
+      const fields: Record<string, unknown> = {
+        project: { key: this.projectKey },
+        issuetype: { name: ISSUE_TYPES.PRECONDITION },
+        summary: input.summary,
+        [typeField]: { value: input.preconditionType },
+        [CUSTOM_FIELDS.PRECONDITIONS]: input.conditions,
+      };
+
+      if (input.description) fields.description = input.description;
+      if (input.priority) fields.priority = { id: input.priority };
+      if (input.labels && input.labels.length > 0) fields.labels = input.labels;
+
+      const response = await this.client.post('/rest/api/2/issue', { fields });
+      return response.data;
+    });
+  }
+
+  /**
+   * Find reusable Pre-Conditions in the project by key or summary text
+   */
+  async searchPreconditions(query: string = ''): Promise<Precondition[]> {
+    const term = query.trim();
+    let jql = `project = ${this.projectKey} AND issuetype = "${ISSUE_TYPES.PRECONDITION}"`;
+    if (/^[A-Z][A-Z0-9_]*-\d+$/i.test(term)) {
+      jql += ` AND key = ${term.toUpperCase()}`;
+    } else if (this.toTextSearchTerm(term)) {
+      jql += ` AND summary ~ "${this.toTextSearchTerm(term)}"`;
+    }
+    return this.findPreconditions(`${jql} ORDER BY updated DESC`, 25);
+  }
+
+  /**
+   * Pre-Conditions associated with a Test, in Xray's rank order
+   */
+  async getTestPreconditions(testKey: string): Promise<Precondition[]> {
+    const associated = await this.limiter(async () => {
+      const response = await this.client.get(`/rest/raven/1.0/api/test/${testKey}/preconditions`);
+      return (response.data || []) as any[];
+    });
+    if (associated.length === 0) return [];
+
+    const keys: string[] = associated.map(p => p.key);
+    const details = await this.findPreconditions(`key in (${keys.join(',')})`, keys.length);
+    return keys
+      .map(key => details.find(p => p.key === key))
+      .filter((p): p is Precondition => !!p);
+  }
+
+  async addPreconditionsToTest(testKey: string, preconditionKeys: string[]): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.post(`/rest/raven/1.0/api/test/${testKey}/preconditions`, {
+        add: preconditionKeys,
+      });
+    });
+  }
+
+  async removePreconditionFromTest(testKey: string, preconditionKey: string): Promise<void> {
+    return this.limiter(async () => {
+      await this.client.delete(`/rest/raven/1.0/api/test/${testKey}/precondition/${preconditionKey}`);
+    });
+  }
+
+  private async findPreconditions(jql: string, maxResults: number): Promise<Precondition[]> {
+    const typeField = await this.findXrayFieldKey(XRAY_FIELD_NAMES.PRECONDITION_TYPE);
+
+    return this.limiter(async () => {
+      const fields = ['summary', CUSTOM_FIELDS.PRECONDITIONS, ...(typeField ? [typeField] : [])];
+      const response = await this.client.get('/rest/api/2/search', {
+        params: { jql, fields: fields.join(','), maxResults },
+      });
+
+      return response.data.issues.map((issue: any): Precondition => ({
+        key: issue.key,
+        summary: issue.fields.summary,
+        preconditionType: typeField ? issue.fields[typeField]?.value : undefined,
+        conditions: issue.fields[CUSTOM_FIELDS.PRECONDITIONS] || undefined,
+      }));
+    });
+  }
+
+  // ==================== Xray Results Import APIs ====================
+
+  /**
+   * Import a JUnit report. With testExecKey results go into that execution,
+   * otherwise Xray creates a new execution from the given fields.
+   */
+  async importJUnitResults(
+    xml: string,
+    target: { testExecKey?: string; execution?: CreateTestExecutionInput }
+  ): Promise<CreateIssueResponse> {
+    return this.limiter(async () => {
+      const form = new FormData();
+      form.append('file', new Blob([xml], { type: 'application/xml' }), 'junit.xml');
+
+      let url = '/rest/raven/1.0/import/execution/junit';
+      let params: Record<string, string> = { projectKey: this.projectKey };
+
+      if (target.testExecKey) {
+        params = { ...params, testExecKey: target.testExecKey };
+      } else if (target.execution) {
+        url = '/rest/raven/1.0/import/execution/junit/multipart';
+        params = {};
+        const info = { fields: this.buildTestExecutionFields(target.execution) };
+        form.append('info', new Blob([JSON.stringify(info)], { type: 'application/json' }), 'info.json');
+      }
+
+      const response = await this.client.post(url, form, {
+        params,
+        headers: {
+          'Content-Type': 'multipart/form-data',
+          'X-Atlassian-Token': 'no-check',
+        },
+      });
+      return this.toImportedExecution(response.data);
+    });
+  }
+
+  /**
+   * Import a Cucumber JSON report (also produced by Karate) as a new execution.
+   * Scenarios tagged with a Test key update that Test; untagged ones make Xray
+   * create a new Cucumber test.
+   */
+  async importCucumberResults(
+    features: unknown[],
+    execution: CreateTestExecutionInput
+  ): Promise<CreateIssueResponse> {
+    return this.limiter(async () => {
+      const info = { fields: this.buildTestExecutionFields(execution) };
+      const form = new FormData();
+      form.append('result', new Blob([JSON.stringify(features)], { type: 'application/json' }), 'cucumber.json');
+      form.append('info', new Blob([JSON.stringify(info)], { type: 'application/json' }), 'info.json');
+
+      const response = await this.client.post('/rest/raven/1.0/import/execution/cucumber/multipart', form, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+          'X-Atlassian-Token': 'no-check',
+        },
+      });
+      return this.toImportedExecution(response.data);
+    });
+  }
+
+  /**
+   * Xray DC answers imports with { testExecIssue: { id, key, self } }
+   */
+  private toImportedExecution(data: any): CreateIssueResponse {
+    const issue = data?.testExecIssue || data;
+    if (!issue?.key) {
+      throw this.createError(ErrorCode.JIRA_API_ERROR, 'Xray import did not return a Test Execution', data);
+    }
+    return { id: issue.id, key: issue.key, self: issue.self };
+  }
+
+  // ==================== Search APIs ====================
+
+  /**
+   * JQL for a user query, always scoped to this project and one issue type.
+   * Free JQL goes in parentheses; keys are filtered to valid issue keys.
+   * orderBy, when given, replaces any ORDER BY in the query.
+   */
+  scopedJql(issueType: string, query: IssueQuery, orderBy?: string): string {
+    const typeClause = `issuetype = "${issueType}"`;
+    if (query.jql?.trim()) return this.projectJql(typeClause, query.jql, orderBy);
+
+    const scope = `project = ${this.projectKey} AND ${typeClause}`;
+    const keys = (query.keys || []).map(k => k.trim().toUpperCase()).filter(k => ISSUE_KEY_PATTERN.test(k));
+    if (keys.length === 0) {
+      throw this.createError(ErrorCode.VALIDATION_ERROR, 'Provide a JQL query or at least one issue key');
+    }
+    return `${scope} AND key in (${keys.join(',')}) ORDER BY ${orderBy || 'key ASC'}`;
+  }
+
+  /**
+   * Free JQL limited to this project and the given issue type clause, e.g.
+   * `issuetype not in (...)`. orderBy, when given, replaces any ORDER BY in the JQL.
+   */
+  projectJql(typeClause: string, jql: string, orderBy?: string): string {
+    const scope = `project = ${this.projectKey} AND ${typeClause}`;
+    // ORDER BY cannot sit inside the parentheses
+    const { filter, orderBy: queryOrderBy } = this.splitJql(jql.trim());
+    const scoped = filter ? `${scope} AND (${filter})` : scope;
+    return `${scoped} ORDER BY ${orderBy || queryOrderBy || 'key ASC'}`;
+  }
+
+  /**
+   * Split free JQL at its top-level ORDER BY, skipping quoted text. Unbalanced
+   * parentheses or quotes are refused: they could close the scope's group and
+   * OR in other projects or issue types.
+   */
+  private splitJql(jql: string): { filter: string; orderBy?: string } {
+    const orderByPattern = /ORDER\s+BY\s+/iy;
+    let depth = 0;
+    let quote: string | null = null;
+    let orderAt = -1;
+
+    for (let i = 0; i < jql.length; i++) {
+      const ch = jql[i];
+      if (quote) {
+        if (ch === '\\') i++;
+        else if (ch === quote) quote = null;
+        continue;
+      }
+      if (ch === '"' || ch === "'") quote = ch;
+      else if (ch === '(') depth++;
+      else if (ch === ')') {
+        if (--depth < 0) break;
+      }
+      else if (depth === 0 && orderAt === -1 && (i === 0 || /\s/.test(jql[i - 1]))) {
+        orderByPattern.lastIndex = i;
+        if (orderByPattern.test(jql)) orderAt = i;
+      }
+    }
+
+    if (quote) {
+      throw this.createError(ErrorCode.VALIDATION_ERROR, 'JQL has an unterminated quoted string');
+    }
+    if (depth !== 0) {
+      throw this.createError(ErrorCode.VALIDATION_ERROR, 'JQL has unbalanced parentheses');
+    }
+    if (orderAt === -1) return { filter: jql.trim() };
+
+    const orderBy = jql.slice(orderAt).replace(/^ORDER\s+BY\s+/i, '').trim();
+    if (/\b(AND|OR|NOT)\b/i.test(orderBy.replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, ''))) {
+      throw this.createError(ErrorCode.VALIDATION_ERROR, 'ORDER BY can only list fields');
+    }
+    return { filter: jql.slice(0, orderAt).trim(), orderBy: orderBy || undefined };
+  }
+
+  /**
+   * The user's favourite (starred) Jira filters
+   */
+  async getFavouriteFilters(): Promise<JiraFilter[]> {
+    return this.limiter(async () => {
+      const response = await this.client.get('/rest/api/2/filter/favourite');
+      return (response.data || []).map((filter: any) => ({
+        id: String(filter.id),
+        name: filter.name,
+        jql: filter.jql || '',
+        owner: filter.owner?.displayName || filter.owner?.name || '',
+      }));
+    });
+  }
+
+  /**
+   * One page of a JQL search
+   */
+  async searchIssues(
+    jql: string,
+    fields: string[],
+    startAt: number,
+    maxResults: number
+  ): Promise<{ issues: any[]; total: number }> {
+    return this.limiter(async () => {
+      const response = await this.client.get('/rest/api/2/search', {
+        params: { jql, fields: fields.join(','), startAt, maxResults },
+      });
+      return { issues: response.data.issues || [], total: response.data.total ?? 0 };
+    });
+  }
+
+  /**
+   * Run a JQL search and page through every match, up to maxIssues.
+   * Returns raw issues ({ key, fields }) with only the requested fields.
+   */
+  async searchIssueFields(jql: string, fields: string[], maxIssues: number): Promise<any[]> {
+    const issues: any[] = [];
+    const pageSize = 100;
+
+    while (issues.length < maxIssues) {
+      const page = await this.searchIssues(jql, fields, issues.length, Math.min(pageSize, maxIssues - issues.length));
+      issues.push(...page.issues);
+      if (page.issues.length === 0 || issues.length >= page.total) break;
+    }
+
+    return issues;
+  }
+
   // ==================== Helper Methods ====================
 
+  /**
+   * Strip Lucene operators so arbitrary text can be used with the JQL ~ operator
+   */
+  private toTextSearchTerm(value: string): string {
+    return value
+      .replace(/[+\-&|!(){}[\]^"~*?:\\/]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
   getPriorityNameById(id: string): string {
     const priority = this.metadataService.getPriorityById(id);
     return priority?.name || id;
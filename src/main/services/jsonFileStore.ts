@@ -0,0 +1,63 @@
+/**
+ * JSON File Store - One JSON document in the app's user data directory
+ *
+ * Features:
+ * - Writes go to a uniquely named temp file that is renamed over the original,
+ *   so a crash never leaves a half-written file and parallel writes never share
+ *   a temp file
+ * - exclusive() runs read-modify-write tasks one at a time per file, so two
+ *   IPC calls cannot read the same state and overwrite each other's change
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+// Keyed by resolved path so every store on the same file shares one queue
+const queues = new Map<string, Promise<unknown>>();
+
+export class JsonFileStore {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Run a task once every earlier task on this file has finished. Tasks must
+   * not call exclusive() on the same file again, or they wait on themselves.
+   */
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const previous = queues.get(this.filePath) || Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.catch(() => undefined);
+    queues.set(this.filePath, settled);
+    settled.then(() => {
+      if (queues.get(this.filePath) === settled) queues.delete(this.filePath);
+    });
+    return run;
+  }
+
+  /**
+   * The file's text, or undefined when it does not exist yet
+   */
+  async readText(): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async write(data: unknown): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+    } catch (error: unknown) {
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * JUnit Parser - Reads and writes JUnit XML reports
+ *
+ * Features:
+ * - Dependency-free XML reader (elements, attributes, text, CDATA, entities)
+ * - Handles <testsuites> roots, nested suites and bare <testsuite> files
+ * - Extracts @MTD-123 style tags and test_key properties
+ * - Re-serializes results with a test_key property per testcase so Xray
+ *   maps each testcase to an existing Test instead of creating new ones
+ */
+
+import type { JUnitTestCase, ImportedResultStatus } from '../../shared/types.js';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const TAG_KEY_PATTERN = /@([A-Z][A-Z0-9_]*-\d+)/;
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' };
+
+export class JUnitParser {
+  /**
+   * Parse a JUnit XML document into flat test cases
+   */
+  static parse(xml: string): JUnitTestCase[] {
+    const root = this.parseXml(xml);
+    const testCases: JUnitTestCase[] = [];
+    this.collectTestCases(root, '', testCases);
+    return testCases;
+  }
+
+  /**
+   * Build a JUnit document from test cases, tagging mapped ones with test_key
+   */
+  static build(testCases: JUnitTestCase[]): string {
+    const suites = new Map<string, JUnitTestCase[]>();
+    for (const testCase of testCases) {
+      const suite = suites.get(testCase.suite) || [];
+      suite.push(testCase);
+      suites.set(testCase.suite, suite);
+    }
+
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<testsuites>'];
+    for (const [suiteName, cases] of suites) {
+      const failures = cases.filter(c => c.status === 'failed').length;
+      const errors = cases.filter(c => c.status === 'error').length;
+      const skipped = cases.filter(c => c.status === 'skipped').length;
+      lines.push(
+        `  <testsuite name="${this.escape(suiteName)}" tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}">`
+      );
+
+      for (const testCase of cases) {
+        const time = testCase.time ? ` time="${this.escape(testCase.time)}"` : '';
+        lines.push(
+          `    <testcase name="${this.escape(testCase.name)}" classname="${this.escape(testCase.classname)}"${time}>`
+        );
+        if (testCase.testKey) {
+          lines.push('      <properties>');
+          lines.push(`        <property name="test_key" value="${this.escape(testCase.testKey)}"/>`);
+          lines.push('      </properties>');
+        }
+        if (testCase.status !== 'passed') {
+          const element = testCase.status === 'failed' ? 'failure' : testCase.status;
+          const message = testCase.message ? ` message="${this.escape(testCase.message)}"` : '';
+          lines.push(`      <${element}${message}>${this.escape(testCase.details || '')}</${element}>`);
+        }
+        lines.push('    </testcase>');
+      }
+
+      lines.push('  </testsuite>');
+    }
+    lines.push('</testsuites>');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Extract an issue key from an @MTD-123 tag
+   */
+  static extractTagKey(text: string): string | undefined {
+    return text.match(TAG_KEY_PATTERN)?.[1];
+  }
+
+  /**
+   * Testcase name without its @KEY tag (used as summary for created tests)
+   */
+  static stripTag(text: string): string {
+    return text.replace(TAG_KEY_PATTERN, '').replace(/\s{2,}/g, ' ').trim();
+  }
+
+  // ==================== Test case extraction ====================
+
+  private static collectTestCases(element: XmlElement, suite: string, out: JUnitTestCase[]): void {
+    for (const child of element.children) {
+      if (child.name === 'testsuite' || child.name === 'testsuites') {
+        this.collectTestCases(child, child.attributes.name || suite, out);
+      } else if (child.name === 'testcase') {
+        out.push(this.toTestCase(child, suite));
+      }
+    }
+  }
+
+  private static toTestCase(element: XmlElement, suite: string): JUnitTestCase {
+    const name = element.attributes.name || '';
+    const classname = element.attributes.classname || suite;
+
+    let status: ImportedResultStatus = 'passed';
+    let message: string | undefined;
+    let details: string | undefined;
+
+    for (const child of element.children) {
+      if (child.name === 'failure' || child.name === 'error' || child.name === 'skipped') {
+        status = child.name === 'failure' ? 'failed' : child.name;
+        message = child.attributes.message;
+        details = child.text.trim() || undefined;
+        break;
+      }
+    }
+
+    const propertyKey = element.children
+      .filter(c => c.name === 'properties')
+      .flatMap(c => c.children)
+      .find(p => p.name === 'property' && p.attributes.name === 'test_key')?.attributes.value;
+
+    return {
+      name,
+      classname,
+      suite: suite || classname,
+      time: element.attributes.time,
+      status,
+      message,
+      details,
+      testKey: propertyKey || this.extractTagKey(name) || this.extractTagKey(classname),
+    };
+  }
+
+  // ==================== Minimal XML reader ====================
+
+  private static parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    let pos = 0;
+
+    while (pos < xml.length) {
+      const lt = xml.indexOf('<', pos);
+      if (lt === -1) break;
+
+      if (lt > pos) stack[stack.length - 1].text += this.decode(xml.slice(pos, lt));
+
+      if (xml.startsWith('<!--', lt)) {
+        pos = this.skipPast(xml, '-->', lt);
+      } else if (xml.startsWith('<![CDATA[', lt)) {
+        const end = xml.indexOf(']]>', lt);
+        if (end === -1) throw new Error('Unterminated CDATA section');
+        stack[stack.length - 1].text += xml.slice(lt + 9, end);
+        pos = end + 3;
+      } else if (xml.startsWith('<?', lt)) {
+        pos = this.skipPast(xml, '?>', lt);
+      } else if (xml.startsWith('<!', lt)) {
+        pos = this.skipPast(xml, '>', lt);
+      } else if (xml.startsWith('</', lt)) {
+        const end = this.skipPast(xml, '>', lt);
+        const name = xml.slice(lt + 2, end - 1).trim();
+        const open = stack.pop();
+        if (!open || open.name !== name) {
+          throw new Error(`Malformed XML: unexpected </${name}>`);
+        }
+        pos = end;
+      } else {
+        const end = this.findTagEnd(xml, lt);
+        const raw = xml.slice(lt + 1, end);
+        const selfClosing = raw.endsWith('/');
+        const body = selfClosing ? raw.slice(0, -1) : raw;
+        const nameMatch = body.match(/^[^\s/>]+/);
+        if (!nameMatch) throw new Error('Malformed XML: empty tag');
+
+        const element: XmlElement = {
+          name: nameMatch[0],
+          attributes: this.parseAttributes(body.slice(nameMatch[0].length)),
+          children: [],
+          text: '',
+        };
+        stack[stack.length - 1].children.push(element);
+        if (!selfClosing) stack.push(element);
+        pos = end + 1;
+      }
+    }
+
+    if (stack.length !== 1) {
+      throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+    }
+    return root;
+  }
+
+  /**
+   * Find the closing '>' of a start tag, ignoring '>' inside quoted attribute values
+   */
+  private static findTagEnd(xml: string, start: number): number {
+    let quote: string | null = null;
+    for (let i = start + 1; i < xml.length; i++) {
+      const ch = xml[i];
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === '>') {
+        return i;
+      }
+    }
+    throw new Error('Malformed XML: unterminated tag');
+  }
+
+  private static skipPast(xml: string, token: string, from: number): number {
+    const end = xml.indexOf(token, from);
+    if (end === -1) throw new Error(`Malformed XML: missing "${token}"`);
+    return end + token.length;
+  }
+
+  private static parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+      attributes[match[1]] = this.decode(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+  }
+
+  /**
+   * One pass, so decoded text is never decoded again ("&#38;lt;" is "&lt;", not "<")
+   */
+  private static decode(text: string): string {
+    return text.replace(/&(?:#x([0-9a-fA-F]+)|#(\d+)|(lt|gt|quot|apos|amp));/g, (entity, hex, dec, name) => {
+      if (hex) return String.fromCodePoint(parseInt(hex, 16));
+      if (dec) return String.fromCodePoint(parseInt(dec, 10));
+      return NAMED_ENTITIES[name] ?? entity;
+    });
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -162,6 +162,26 @@ export class MetadataService {
     return this.cache.allFields.get(fieldKey) || null;
   }
 
+  /**
+   * Find a field by display name (case-insensitive).
+   * Used for Xray fields whose customfield IDs differ per instance.
+   */
+  findFieldByName(name: string): FieldDescriptor | null {
+    if (!this.cache) return null;
+    const target = name.toLowerCase();
+
+    for (const issueType of this.cache.issueTypes.values()) {
+      for (const field of issueType.fields.values()) {
+        if (field.name.toLowerCase() === target) return field;
+      }
+    }
+
+    for (const field of this.cache.allFields.values()) {
+      if (field.name.toLowerCase() === target) return field;
+    }
+    return null;
+  }
+
   /**
    * Get commonly used fields for an issue type (for UI display)
    */
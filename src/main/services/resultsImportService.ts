@@ -0,0 +1,255 @@
+/**
+ * Results Import Service - Pushes automated test results into Xray
+ *
+ * Features:
+ * - Reads local report files (size-checked)
+ * - Maps JUnit testcases to Test keys by tag, by summary, or by creating
+ *   missing Automated tests
+ * - Imports into an existing execution or creates one from the same fields
+ *   the Test Execution tab uses
+ * - Previews Cucumber/Karate JSON scenarios against tagged Tests before
+ *   publishing them through the Xray Cucumber endpoint
+ */
+
+import { promises as fs } from 'fs';
+import { JiraService } from './jiraService.js';
+import { JUnitParser } from './junitParser.js';
+import { CucumberParser, type CucumberReport } from './cucumberParser.js';
+import type {
+  AppError,
+  CreateIssueResponse,
+  CucumberImportInput,
+  CucumberScenario,
+  ImportedTestMapping,
+  JUnitImportInput,
+  JUnitTestCase,
+  ResultsImportResult,
+} from '../../shared/types.js';
+import { ErrorCode, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+export class ResultsImportService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  /**
+   * Read a report file from disk, refusing anything unreasonably large
+   */
+  static async readReport(filePath: string): Promise<string> {
+    const stat = await fs.stat(filePath);
+    if (stat.size > VALIDATION_LIMITS.MAX_IMPORT_FILE_BYTES) {
+      throw ResultsImportService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Report is too large (max ${VALIDATION_LIMITS.MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB)`
+      );
+    }
+    return fs.readFile(filePath, 'utf-8');
+  }
+
+  /**
+   * Parse a JUnit file without sending anything
+   */
+  static async parseJUnitFile(filePath: string): Promise<JUnitTestCase[]> {
+    const xml = await ResultsImportService.readReport(filePath);
+    try {
+      return JUnitParser.parse(xml);
+    } catch (error) {
+      throw ResultsImportService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'File is not a valid JUnit XML report',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Resolve testcases to Test keys and import them as one execution
+   */
+  async importJUnit(input: JUnitImportInput): Promise<ResultsImportResult> {
+    if (!input.testExecKey && !input.execution?.summary) {
+      throw ResultsImportService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'Choose an existing Test Execution or provide a summary for a new one'
+      );
+    }
+
+    const testCases = await ResultsImportService.parseJUnitFile(input.filePath);
+    if (testCases.length === 0) {
+      throw ResultsImportService.createError(ErrorCode.VALIDATION_ERROR, 'The report contains no testcases');
+    }
+
+    const mappings = await this.resolveJUnitTestCases(testCases, input);
+    const mapped = testCases
+      .map((testCase, i) => ({ ...testCase, testKey: mappings[i].testKey }))
+      .filter(testCase => testCase.testKey);
+
+    if (mapped.length === 0) {
+      const createError = mappings.find(m => m.error)?.error;
+      throw ResultsImportService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        createError
+          ? `No testcase could be mapped to a Test - creating the missing Tests failed: ${createError}`
+          : 'No testcase could be mapped to a Test - enable another mapping strategy'
+      );
+    }
+
+    let execution: CreateIssueResponse;
+    try {
+      execution = await this.jiraService.importJUnitResults(JUnitParser.build(mapped), {
+        testExecKey: input.testExecKey,
+        execution: input.execution,
+      });
+    } catch (error: unknown) {
+      // Tests created above exist either way; name them so a rerun can map them by summary
+      const created = mappings.filter(m => m.source === 'created').map(m => m.testKey);
+      if (created.length === 0) throw error;
+      const appError = error as AppError;
+      throw { ...appError, message: `${appError.message} (Tests already created: ${created.join(', ')})` } as AppError;
+    }
+
+    return {
+      executionKey: execution.key,
+      mappings,
+      importedCount: mapped.length,
+    };
+  }
+
+  /**
+   * Parse a Cucumber/Karate JSON report and resolve each scenario's tags
+   * to an existing Test, without sending any results
+   */
+  async previewCucumber(filePath: string): Promise<CucumberScenario[]> {
+    const { scenarios } = await ResultsImportService.parseCucumberFile(filePath);
+    return this.resolveCucumberScenarios(scenarios);
+  }
+
+  /**
+   * Publish a Cucumber report as a new Test Execution
+   */
+  async importCucumber(input: CucumberImportInput): Promise<ResultsImportResult> {
+    if (!input.execution?.summary) {
+      throw ResultsImportService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'Provide a summary for the new Test Execution'
+      );
+    }
+
+    const { features, scenarios: parsed } = await ResultsImportService.parseCucumberFile(input.filePath);
+    const scenarios = await this.resolveCucumberScenarios(parsed);
+    const included = scenarios.filter(s => s.testKey || input.includeUnmatched);
+
+    if (included.length === 0) {
+      throw ResultsImportService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'No scenario is tagged with an existing Test - include unmatched scenarios to create them'
+      );
+    }
+
+    const report = CucumberParser.filter(features, new Set(included.map(s => s.id)));
+    const execution = await this.jiraService.importCucumberResults(report, input.execution);
+
+    return {
+      executionKey: execution.key,
+      mappings: scenarios.map(s => ({
+        name: s.name,
+        status: s.status,
+        testKey: s.testKey,
+        source: s.testKey ? 'tag' : input.includeUnmatched ? 'created' : 'unmatched',
+      })),
+      importedCount: included.length,
+    };
+  }
+
+  /**
+   * A scenario maps to the first of its tags that is an existing Test
+   */
+  private async resolveCucumberScenarios(scenarios: CucumberScenario[]): Promise<CucumberScenario[]> {
+    const candidateKeys = [...new Set(scenarios.flatMap(s => CucumberParser.tagKeys(s)))];
+    const validations = await Promise.all(candidateKeys.map(key => this.jiraService.validateIssue(key)));
+    const testKeys = new Set(
+      validations.filter(v => v.exists && v.issueType === 'Test').map(v => v.key)
+    );
+
+    return scenarios.map(scenario => ({
+      ...scenario,
+      testKey: CucumberParser.tagKeys(scenario).find(key => testKeys.has(key)),
+    }));
+  }
+
+  private static async parseCucumberFile(filePath: string): Promise<CucumberReport> {
+    const json = await ResultsImportService.readReport(filePath);
+    try {
+      return CucumberParser.parse(json);
+    } catch (error) {
+      throw ResultsImportService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        'File is not a valid Cucumber JSON report',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Strategies run in order: tag, then summary, then create
+   */
+  private async resolveJUnitTestCases(
+    testCases: JUnitTestCase[],
+    input: JUnitImportInput
+  ): Promise<ImportedTestMapping[]> {
+    const { strategy } = input;
+    const mappings: ImportedTestMapping[] = [];
+    // Same testcase name appearing twice (e.g. parameterized runs) maps to one Test
+    const resolvedByName = new Map<string, string>();
+
+    for (const testCase of testCases) {
+      const mapping: ImportedTestMapping = {
+        name: testCase.name,
+        status: testCase.status,
+        source: 'unmatched',
+      };
+      const summary = JUnitParser.stripTag(testCase.name) || testCase.classname;
+
+      if (strategy.byTag && testCase.testKey) {
+        mapping.testKey = testCase.testKey;
+        mapping.source = 'tag';
+      } else if (resolvedByName.has(summary)) {
+        mapping.testKey = resolvedByName.get(summary);
+        mapping.source = 'name';
+      } else if (strategy.byName) {
+        const key = await this.jiraService.findTestKeyBySummary(summary);
+        if (key) {
+          mapping.testKey = key;
+          mapping.source = 'name';
+        }
+      }
+
+      // One failed create leaves that testcase unmatched; the others still import
+      if (!mapping.testKey && strategy.createMissing) {
+        try {
+          const created = await this.jiraService.createTest({
+            summary,
+            description: `Created from JUnit testcase ${testCase.classname}.${testCase.name}`,
+            testType: 'Automated',
+            priority: '',
+            steps: [],
+          });
+          mapping.testKey = created.key;
+          mapping.source = 'created';
+        } catch (error: unknown) {
+          mapping.error = (error as AppError).message || 'Test could not be created';
+        }
+      }
+
+      if (mapping.testKey && mapping.source !== 'tag') resolvedByName.set(summary, mapping.testKey);
+      mappings.push(mapping);
+    }
+
+    return mappings;
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Saved Search Service - Named JQL filters kept in the app's user data directory
+ *
+ * Features:
+ * - Stored as one JSON file through JsonFileStore; changes run in its queue
+ *   so parallel calls never overwrite each other
+ * - A missing file is an empty list; an unreadable one is reported, not overwritten
+ * - Jira favourite filters are imported by filter id, so re-importing updates
+ *   them instead of adding duplicates
+ */
+
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from './jsonFileStore.js';
+import type { AppError, JiraFilter, SavedSearch } from '../../shared/types.js';
+import { ErrorCode, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+interface SavedSearchFile {
+  version: 1;
+  searches: SavedSearch[];
+}
+
+export class SavedSearchService {
+  private file: JsonFileStore;
+
+  constructor(filePath: string) {
+    this.file = new JsonFileStore(filePath);
+  }
+
+  async getAll(): Promise<SavedSearch[]> {
+    return this.file.exclusive(() => this.read());
+  }
+
+  /**
+   * Create (no id) or update a saved search; names are unique, ignoring case
+   */
+  async save(search: Pick<SavedSearch, 'name' | 'jql'> & Partial<SavedSearch>): Promise<SavedSearch> {
+    const name = search.name.trim();
+    const jql = search.jql.trim();
+    if (!name) throw SavedSearchService.createError(ErrorCode.VALIDATION_ERROR, 'Saved search name is required');
+    if (!jql) throw SavedSearchService.createError(ErrorCode.VALIDATION_ERROR, 'Saved search JQL is required');
+
+    return this.file.exclusive(async () => {
+      const searches = await this.read();
+      const clash = searches.find(s => s.name.toLowerCase() === name.toLowerCase() && s.id !== search.id);
+      if (clash) {
+        throw SavedSearchService.createError(ErrorCode.VALIDATION_ERROR, `A saved search named "${name}" already exists`);
+      }
+
+      const now = new Date().toISOString();
+      const existing = searches.find(s => s.id === search.id);
+      const saved: SavedSearch = existing
+        ? { ...existing, name, jql, updatedAt: now }
+        : { id: randomUUID(), name, jql, jiraFilterId: search.jiraFilterId, createdAt: now, updatedAt: now };
+
+      if (!existing && searches.length >= VALIDATION_LIMITS.MAX_SAVED_SEARCHES) {
+        throw SavedSearchService.createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Maximum ${VALIDATION_LIMITS.MAX_SAVED_SEARCHES} saved searches allowed`
+        );
+      }
+
+      await this.write(existing ? searches.map(s => (s.id === saved.id ? saved : s)) : [...searches, saved]);
+      return saved;
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.file.exclusive(async () => {
+      const searches = await this.read();
+      await this.write(searches.filter(s => s.id !== id));
+    });
+  }
+
+  /**
+   * Add or refresh favourite filters; a name already used locally gets the
+   * filter id appended
+   */
+  async importFilters(filters: JiraFilter[]): Promise<SavedSearch[]> {
+    return this.file.exclusive(async () => {
+      const searches = await this.read();
+      const now = new Date().toISOString();
+
+      for (const filter of filters) {
+        const existing = searches.find(s => s.jiraFilterId === filter.id);
+        if (existing) {
+          Object.assign(existing, { name: filter.name, jql: filter.jql, updatedAt: now });
+          continue;
+        }
+        if (searches.length >= VALIDATION_LIMITS.MAX_SAVED_SEARCHES) break;
+
+        const taken = searches.some(s => s.name.toLowerCase() === filter.name.toLowerCase());
+        searches.push({
+          id: randomUUID(),
+          name: taken ? `${filter.name} (#${filter.id})` : filter.name,
+          jql: filter.jql,
+          jiraFilterId: filter.id,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+
+      await this.write(searches);
+      return searches;
+    });
+  }
+
+  private async read(): Promise<SavedSearch[]> {
+    let text: string | undefined;
+    try {
+      text = await this.file.readText();
+    } catch (error: unknown) {
+      throw SavedSearchService.createError(ErrorCode.UNKNOWN, 'Could not read saved searches', error);
+    }
+    if (text === undefined) return [];
+
+    try {
+      const data = JSON.parse(text) as SavedSearchFile;
+      return Array.isArray(data.searches) ? data.searches : [];
+    } catch (error: unknown) {
+      throw SavedSearchService.createError(ErrorCode.UNKNOWN, `Saved searches file is corrupt: ${this.file.filePath}`, error);
+    }
+  }
+
+  private async write(searches: SavedSearch[]): Promise<void> {
+    const data: SavedSearchFile = { version: 1, searches };
+    try {
+      await this.file.write(data);
+    } catch (error: unknown) {
+      throw SavedSearchService.createError(ErrorCode.UNKNOWN, 'Could not save searches', error);
+    }
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Search Service - JQL search for Tests, one page at a time
+ *
+ * Features:
+ * - Queries are scoped to the project's Tests (see JiraService.scopedJql)
+ * - Pages through /rest/api/2/search with startAt / maxResults
+ * - Sorting by a whitelisted column replaces any ORDER BY in the query
+ * - All matching keys (up to a limit) for "select all"
+ */
+
+import { JiraService } from './jiraService.js';
+import type { AppError, IssueSearchPage, IssueSearchRequest, JiraIssue } from '../../shared/types.js';
+import { ErrorCode, ISSUE_TYPES, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+const SEARCH_FIELDS = [
+  'summary', 'issuetype', 'project', 'status', 'priority', 'assignee',
+  'labels', 'components', 'fixVersions', 'created', 'updated',
+];
+
+// Columns the browser may sort by
+const SORTABLE_FIELDS = ['key', 'summary', 'status', 'priority', 'assignee', 'created', 'updated'];
+
+export class SearchService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  async searchTests(request: IssueSearchRequest): Promise<IssueSearchPage> {
+    const maxResults = Math.min(Math.max(1, request.maxResults), VALIDATION_LIMITS.MAX_SEARCH_PAGE_SIZE);
+    const startAt = Math.max(0, request.startAt);
+    const page = await this.jiraService.searchIssues(this.buildJql(request), SEARCH_FIELDS, startAt, maxResults);
+
+    return {
+      issues: page.issues as JiraIssue[],
+      startAt,
+      maxResults,
+      total: page.total,
+    };
+  }
+
+  /**
+   * Keys of every match, up to MAX_SEARCH_SELECT_ALL
+   */
+  async searchTestKeys(jql: string): Promise<string[]> {
+    const issues = await this.jiraService.searchIssueFields(
+      this.buildJql({ jql, startAt: 0, maxResults: 0 }),
+      ['key'],
+      VALIDATION_LIMITS.MAX_SEARCH_SELECT_ALL
+    );
+    return issues.map(issue => issue.key);
+  }
+
+  private buildJql(request: IssueSearchRequest): string {
+    let orderBy: string | undefined;
+    if (request.orderBy) {
+      if (!SORTABLE_FIELDS.includes(request.orderBy.field)) {
+        throw SearchService.createError(ErrorCode.VALIDATION_ERROR, `Cannot sort by "${request.orderBy.field}"`);
+      }
+      orderBy = `${request.orderBy.field} ${request.orderBy.direction === 'DESC' ? 'DESC' : 'ASC'}`;
+    }
+
+    // An empty filter still needs a query for scopedJql: list every Test
+    const jql = request.jql.trim() || 'ORDER BY key ASC';
+    return this.jiraService.scopedJql(ISSUE_TYPES.TEST, { jql }, orderBy);
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Spreadsheet Writer - Serializes tabular rows to CSV or XLSX
+ *
+ * Features:
+ * - RFC 4180 CSV with a UTF-8 BOM so Excel detects the encoding; text that
+ *   Excel would read as a formula (=, +, -, @ ...) is prefixed with '
+ * - Dependency-free XLSX: a single worksheet with inline strings, a bold
+ *   frozen header row, packed into a ZIP with zlib deflate
+ */
+
+import { deflateRawSync } from 'zlib';
+
+export type SpreadsheetCell = string | number;
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Leading characters that make spreadsheet apps evaluate a CSV cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Characters XML 1.0 does not allow, even escaped (tab, LF and CR are fine)
+const isValidXmlChar = (code: number) =>
+  (code >= 0x20 && code !== 0xfffe && code !== 0xffff) || code === 0x09 || code === 0x0a || code === 0x0d;
+
+export class SpreadsheetWriter {
+  /**
+   * Rows to CSV text (first row is the header)
+   */
+  static toCsv(rows: SpreadsheetCell[][]): string {
+    const escape = (cell: SpreadsheetCell) => {
+      // Summaries and steps come from Jira: never let them run as formulas
+      const text = typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : String(cell);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return '\uFEFF' + rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Rows to an XLSX workbook with one sheet (first row is the header)
+   */
+  static toXlsx(rows: SpreadsheetCell[][], sheetName: string): Buffer {
+    const entries: ZipEntry[] = [
+      { name: '[Content_Types].xml', data: Buffer.from(this.contentTypesXml()) },
+      { name: '_rels/.rels', data: Buffer.from(this.rootRelsXml()) },
+      { name: 'xl/workbook.xml', data: Buffer.from(this.workbookXml(sheetName)) },
+      { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(this.workbookRelsXml()) },
+      { name: 'xl/styles.xml', data: Buffer.from(this.stylesXml()) },
+      { name: 'xl/worksheets/sheet1.xml', data: Buffer.from(this.sheetXml(rows)) },
+    ];
+    return this.zip(entries);
+  }
+
+  // ==================== Workbook Parts ====================
+
+  private static contentTypesXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + '</Types>';
+  }
+
+  private static rootRelsXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>';
+  }
+
+  private static workbookXml(sheetName: string): string {
+    // Sheet names: max 31 chars, no []:*?/\
+    const name = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+      + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + `<sheets><sheet name="${this.escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>';
+  }
+
+  private static workbookRelsXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+      + '</Relationships>';
+  }
+
+  /**
+   * Style 0 is the default, style 1 is bold (header) and style 2 wraps text
+   */
+  private static stylesXml(): string {
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="3">'
+      + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+      + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+      + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf>'
+      + '</cellXfs>'
+      + '</styleSheet>';
+  }
+
+  private static sheetXml(rows: SpreadsheetCell[][]): string {
+    const body = rows.map((row, r) => {
+      const style = r === 0 ? 1 : 2;
+      const cells = row.map((cell, c) => {
+        const ref = `${this.columnName(c)}${r + 1}`;
+        if (typeof cell === 'number' && Number.isFinite(cell)) {
+          return `<c r="${ref}" s="${style}"><v>${cell}</v></c>`;
+        }
+        // Inline strings are never evaluated, so text starting with = stays text
+        const text = this.escapeXml(String(cell));
+        return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+      });
+      return `<row r="${r + 1}">${cells.join('')}</row>`;
+    });
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      + `<sheetData>${body.join('')}</sheetData>`
+      + '</worksheet>';
+  }
+
+  // ==================== Helpers ====================
+
+  /** 0 → A, 25 → Z, 26 → AA */
+  private static columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  private static escapeXml(text: string): string {
+    return Array.from(text)
+      .filter(ch => isValidXmlChar(ch.codePointAt(0) ?? 0))
+      .join('')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Minimal ZIP archive: deflated entries, no data descriptors, no ZIP64
+   */
+  private static zip(entries: ZipEntry[]): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, 'utf-8');
+      const compressed = deflateRawSync(entry.data);
+      const crc = this.crc32(entry.data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);       // Local file header signature
+      local.writeUInt16LE(20, 4);               // Version needed
+      local.writeUInt16LE(0x0800, 6);           // Flags: UTF-8 names
+      local.writeUInt16LE(8, 8);                // Method: deflate
+      local.writeUInt16LE(0, 10);               // Mod time
+      local.writeUInt16LE(0x21, 12);            // Mod date (1980-01-01)
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(entry.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);               // Extra field length
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);     // Central directory signature
+      central.writeUInt16LE(20, 4);             // Version made by
+      central.writeUInt16LE(20, 6);             // Version needed
+      central.writeUInt16LE(0x0800, 8);
+      central.writeUInt16LE(8, 10);
+      central.writeUInt16LE(0, 12);
+      central.writeUInt16LE(0x21, 14);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(entry.data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);        // Local header offset (other fields stay 0)
+
+      locals.push(local, name, compressed);
+      centrals.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);           // End of central directory signature
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, ...centrals, end]);
+  }
+}
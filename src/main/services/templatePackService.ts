@@ -0,0 +1,228 @@
+/**
+ * Template Pack Service - Share templates between teammates as one JSON file
+ *
+ * Features:
+ * - A pack carries a name, description and author next to its templates, so a
+ *   QA lead can hand the squad's standard set to everyone
+ * - Packs are versioned; a single exported template or a bare array of them is
+ *   read as a version 0 pack and migrated
+ * - Every entry is checked with TemplateService.validateTemplate and TemplateSchema;
+ *   invalid ones are listed in the preview and never imported
+ * - Ids already used by a built-in or saved template are reported as conflicts
+ *   and skipped, overwritten or renamed on import
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TemplateRepository } from './templateRepository.js';
+import { TemplateService } from './templateService.js';
+import { TemplateSchema } from '../../shared/schemas.js';
+import type {
+  AppError,
+  Template,
+  TemplateImportResult,
+  TemplatePack,
+  TemplatePackExport,
+  TemplatePackImport,
+  TemplatePackInfo,
+  TemplatePackPreview,
+} from '../../shared/types.js';
+import { ErrorCode, TEMPLATE_PACK_FORMAT, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+const CURRENT_VERSION = 1;
+
+/**
+ * Upgrades from each older pack version to the next one. Version 0 is one
+ * template or an array of them, without pack details.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: data => ({
+    format: TEMPLATE_PACK_FORMAT,
+    version: 1,
+    name: 'Imported templates',
+    templates: Array.isArray(data) ? data : [data],
+  }),
+};
+
+interface PackEntry {
+  id: string;
+  name: string;
+  template?: Template;
+  error?: string;
+}
+
+interface ParsedPack extends TemplatePackInfo {
+  exportedAt?: string;
+  entries: PackEntry[];
+}
+
+export class TemplatePackService {
+  private repository: TemplateRepository;
+
+  constructor(repository: TemplateRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Pack the chosen templates (built-ins included) with the given details
+   */
+  async buildPack(input: TemplatePackExport): Promise<TemplatePack> {
+    const name = input.name.trim();
+    if (!name) throw TemplatePackService.createError(ErrorCode.VALIDATION_ERROR, 'Pack name is required');
+    if (input.templateIds.length === 0) {
+      throw TemplatePackService.createError(ErrorCode.VALIDATION_ERROR, 'Choose at least one template');
+    }
+
+    const all = await this.repository.getAll();
+    const templates = input.templateIds.map(id => {
+      const template = all.find(t => t.id === id);
+      if (!template) throw TemplatePackService.createError(ErrorCode.NOT_FOUND, `Template ${id} not found`);
+      // Drops the builtIn / overridden flags: they describe this installation only
+      return TemplateSchema.parse(template) as Template;
+    });
+
+    return {
+      format: TEMPLATE_PACK_FORMAT,
+      version: CURRENT_VERSION,
+      name,
+      description: input.description?.trim() || undefined,
+      author: input.author?.trim() || undefined,
+      exportedAt: new Date().toISOString(),
+      templates,
+    };
+  }
+
+  /**
+   * Read a pack and mark each entry as invalid or conflicting, without importing
+   */
+  async preview(filePath: string): Promise<TemplatePackPreview> {
+    const pack = await TemplatePackService.readPack(filePath);
+    const usedIds = new Set((await this.repository.getAll()).map(t => t.id));
+
+    return {
+      filePath,
+      fileName: path.basename(filePath),
+      name: pack.name,
+      description: pack.description,
+      author: pack.author,
+      exportedAt: pack.exportedAt,
+      entries: pack.entries.map(entry => ({
+        id: entry.id,
+        name: entry.name,
+        issueType: entry.template?.issueType,
+        conflict: usedIds.has(entry.id),
+        error: entry.error,
+      })),
+    };
+  }
+
+  async importPack(input: TemplatePackImport): Promise<TemplateImportResult[]> {
+    const pack = await TemplatePackService.readPack(input.filePath);
+    const chosen = input.templateIds
+      ? pack.entries.filter(e => input.templateIds!.includes(e.id))
+      : pack.entries.filter(e => e.template);
+    if (chosen.length === 0) {
+      throw TemplatePackService.createError(ErrorCode.VALIDATION_ERROR, 'No templates to import');
+    }
+
+    const invalid: TemplateImportResult[] = chosen
+      .filter(e => !e.template)
+      .map(e => ({ id: e.id, name: e.name, outcome: 'failed', error: e.error }));
+    const imported = await this.repository.importTemplates(
+      chosen.filter(e => e.template).map(e => e.template!),
+      input.mode
+    );
+    return [...imported, ...invalid];
+  }
+
+  static serialize(pack: TemplatePack): string {
+    return JSON.stringify(pack, null, 2);
+  }
+
+  static async readPack(filePath: string): Promise<ParsedPack> {
+    const stat = await fs.stat(filePath);
+    if (stat.size > VALIDATION_LIMITS.MAX_IMPORT_FILE_BYTES) {
+      throw TemplatePackService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Pack is too large (max ${VALIDATION_LIMITS.MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB)`
+      );
+    }
+    return TemplatePackService.parsePack(await fs.readFile(filePath, 'utf-8'));
+  }
+
+  static parsePack(text: string): ParsedPack {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error: unknown) {
+      throw TemplatePackService.createError(ErrorCode.VALIDATION_ERROR, 'File is not valid JSON', error);
+    }
+
+    const object = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    let version: number;
+    if (object.format === TEMPLATE_PACK_FORMAT) version = Number(object.version);
+    else if (Array.isArray(data) || ('issueType' in object && 'fields' in object)) version = 0;
+    else throw TemplatePackService.createError(ErrorCode.VALIDATION_ERROR, 'File is not a template pack');
+
+    if (!Number.isInteger(version) || version < 0) {
+      throw TemplatePackService.createError(ErrorCode.VALIDATION_ERROR, 'Template pack has no valid version');
+    }
+    if (version > CURRENT_VERSION) {
+      throw TemplatePackService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Template pack was made by a newer version of the app (format ${version})`
+      );
+    }
+    for (let v = version; v < CURRENT_VERSION; v++) data = MIGRATIONS[v](data);
+
+    const pack = data as Record<string, unknown>;
+    const raw: unknown[] = Array.isArray(pack.templates) ? pack.templates : [];
+    if (raw.length > VALIDATION_LIMITS.MAX_TEMPLATES) {
+      throw TemplatePackService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Too many templates in pack (max ${VALIDATION_LIMITS.MAX_TEMPLATES})`
+      );
+    }
+
+    const seen = new Set<string>();
+    const entries = raw.map((item, index): PackEntry => {
+      const entry = TemplatePackService.checkEntry(item, index);
+      if (entry.template && seen.has(entry.id)) {
+        return { id: entry.id, name: entry.name, error: 'Id is used twice in this pack' };
+      }
+      seen.add(entry.id);
+      return entry;
+    });
+
+    return {
+      name: typeof pack.name === 'string' && pack.name.trim() ? pack.name : 'Imported templates',
+      description: typeof pack.description === 'string' ? pack.description : undefined,
+      author: typeof pack.author === 'string' ? pack.author : undefined,
+      exportedAt: typeof pack.exportedAt === 'string' ? pack.exportedAt : undefined,
+      entries,
+    };
+  }
+
+  private static checkEntry(item: unknown, index: number): PackEntry {
+    const object = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const id = typeof object.id === 'string' && object.id ? object.id : `#${index + 1}`;
+    const name = typeof object.name === 'string' && object.name ? object.name : id;
+
+    // Timestamps belong to the exporting installation, so missing ones are fine
+    const now = new Date().toISOString();
+    const parsed = TemplateSchema.safeParse({ createdAt: now, updatedAt: now, ...object });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return { id, name, error: `${issue.path.join('.') || 'template'} - ${issue.message}` };
+    }
+
+    const template = parsed.data as Template;
+    const validationError = TemplateService.validateTemplate(template);
+    if (validationError) return { id, name, error: validationError.message };
+    return { id, name, template };
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Template Repository - User templates kept in the app's user data directory
+ *
+ * Features:
+ * - Stored as one versioned JSON file through JsonFileStore; every read and
+ *   change runs in its queue, including the write-back after a migration
+ * - Every template is checked against TemplateSchema on read and on save;
+ *   invalid entries are skipped and the original file is kept as a .bak copy
+ * - Older file formats are migrated on read and written back in the current one;
+ *   a file from a newer app version is refused rather than overwritten
+ * - Built-in templates are never written; saving one stores an override with
+ *   the same id, and deleting the override brings the built-in back
+ * - Imports (template packs) are applied in one write, with id conflicts
+ *   skipped, overwritten or renamed
+ */
+
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from './jsonFileStore.js';
+import { TemplateSchema } from '../../shared/schemas.js';
+import { TemplateService } from './templateService.js';
+import type { AppError, Template, TemplateConflictMode, TemplateImportResult } from '../../shared/types.js';
+import { ErrorCode, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+const CURRENT_VERSION = 1;
+
+interface TemplateFile {
+  version: typeof CURRENT_VERSION;
+  templates: Template[];
+}
+
+/**
+ * Upgrades from each older version to the next one. Version 0 is the
+ * unversioned bare array of templates.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: templates => ({ version: 1, templates }),
+};
+
+export class TemplateRepository {
+  private file: JsonFileStore;
+  private builtIns: Template[];
+
+  constructor(filePath: string, builtIns: Template[]) {
+    this.file = new JsonFileStore(filePath);
+    this.builtIns = builtIns;
+  }
+
+  /**
+   * Built-ins first (replaced by their override when there is one), then the user's own
+   */
+  async getAll(): Promise<Template[]> {
+    const stored = await this.file.exclusive(() => this.read());
+    const builtInIds = new Set(this.builtIns.map(t => t.id));
+
+    const builtIns = this.builtIns.map(builtIn => {
+      const override = stored.find(t => t.id === builtIn.id);
+      return override ? { ...override, builtIn: true, overridden: true } : { ...builtIn, builtIn: true };
+    });
+    return [...builtIns, ...stored.filter(t => !builtInIds.has(t.id))];
+  }
+
+  async get(id: string): Promise<Template | undefined> {
+    return (await this.getAll()).find(t => t.id === id);
+  }
+
+  /**
+   * Create (new or blank id) or update a template; a built-in id stores an override
+   */
+  async save(template: Template): Promise<Template> {
+    const validationError = TemplateService.validateTemplate(template);
+    if (validationError) throw validationError;
+
+    return this.file.exclusive(async () => {
+      const stored = await this.read();
+      const now = new Date().toISOString();
+      const id = template.id?.trim() || randomUUID();
+      const existing = stored.find(t => t.id === id);
+
+      if (!existing && stored.length >= VALIDATION_LIMITS.MAX_TEMPLATES) {
+        throw TemplateRepository.createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Maximum ${VALIDATION_LIMITS.MAX_TEMPLATES} templates allowed`
+        );
+      }
+
+      const saved = TemplateRepository.toStored({ ...template, id, createdAt: existing?.createdAt || now, updatedAt: now });
+      await this.write(existing ? stored.map(t => (t.id === id ? saved : t)) : [...stored, saved]);
+
+      const builtIn = this.builtIns.some(t => t.id === id);
+      return builtIn ? { ...saved, builtIn: true, overridden: true } : saved;
+    });
+  }
+
+  /**
+   * Add several templates in one write. Ids already used by a built-in or saved
+   * template are skipped, overwritten (a built-in gets an override) or given a
+   * free "-2", "-3", … id depending on mode.
+   */
+  async importTemplates(templates: Template[], mode: TemplateConflictMode): Promise<TemplateImportResult[]> {
+    return this.file.exclusive(() => this.applyImport(templates, mode));
+  }
+
+  /**
+   * Delete a user template or an override; built-ins themselves are read-only
+   */
+  async delete(id: string): Promise<void> {
+    return this.file.exclusive(async () => {
+      const stored = await this.read();
+      if (!stored.some(t => t.id === id)) {
+        if (this.builtIns.some(t => t.id === id)) {
+          throw TemplateRepository.createError(ErrorCode.VALIDATION_ERROR, 'Built-in templates cannot be deleted');
+        }
+        return;
+      }
+      await this.write(stored.filter(t => t.id !== id));
+    });
+  }
+
+  /**
+   * Remove every user template and override
+   */
+  async reset(): Promise<void> {
+    return this.file.exclusive(() => this.write([]));
+  }
+
+  private async applyImport(templates: Template[], mode: TemplateConflictMode): Promise<TemplateImportResult[]> {
+    const stored = await this.read();
+    const usedIds = new Set([...this.builtIns.map(t => t.id), ...stored.map(t => t.id)]);
+    const now = new Date().toISOString();
+    const results: TemplateImportResult[] = [];
+
+    for (const template of templates) {
+      const base = { id: template.id, name: template.name };
+      const conflict = usedIds.has(template.id);
+      if (conflict && mode === 'skip') {
+        results.push({ ...base, outcome: 'skipped' });
+        continue;
+      }
+
+      let id = template.id;
+      let name = template.name;
+      if (conflict && mode === 'rename') {
+        let n = 2;
+        while (usedIds.has(`${template.id}-${n}`)) n++;
+        id = `${template.id}-${n}`;
+        name = `${template.name} (${n})`;
+      }
+
+      const existingIndex = stored.findIndex(t => t.id === id);
+      if (existingIndex === -1 && stored.length >= VALIDATION_LIMITS.MAX_TEMPLATES) {
+        results.push({ ...base, outcome: 'failed', error: `Maximum ${VALIDATION_LIMITS.MAX_TEMPLATES} templates allowed` });
+        continue;
+      }
+
+      try {
+        const validationError = TemplateService.validateTemplate(template);
+        if (validationError) throw validationError;
+        const saved = TemplateRepository.toStored({
+          ...template,
+          id,
+          name,
+          createdAt: existingIndex === -1 ? now : stored[existingIndex].createdAt,
+          updatedAt: now,
+        });
+        if (existingIndex === -1) stored.push(saved);
+        else stored[existingIndex] = saved;
+      } catch (error: unknown) {
+        results.push({ ...base, outcome: 'failed', error: (error as AppError).message || 'Invalid template' });
+        continue;
+      }
+
+      usedIds.add(id);
+      if (!conflict) results.push({ ...base, outcome: 'created' });
+      else if (mode === 'overwrite') results.push({ ...base, outcome: 'overwritten' });
+      else results.push({ ...base, outcome: 'renamed', newId: id });
+    }
+
+    if (results.some(r => r.outcome !== 'skipped' && r.outcome !== 'failed')) await this.write(stored);
+    return results;
+  }
+
+  /**
+   * Only called from inside file.exclusive(), since it writes back migrated files
+   */
+  private async read(): Promise<Template[]> {
+    let text: string | undefined;
+    try {
+      text = await this.file.readText();
+    } catch (error: unknown) {
+      throw TemplateRepository.createError(ErrorCode.UNKNOWN, 'Could not read templates', error);
+    }
+    if (text === undefined) return [];
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error: unknown) {
+      throw TemplateRepository.createError(ErrorCode.UNKNOWN, `Templates file is corrupt: ${this.file.filePath}`, error);
+    }
+
+    const version = Array.isArray(data) ? 0 : Number((data as { version?: unknown } | null)?.version);
+    if (!Number.isInteger(version) || version < 0) {
+      throw TemplateRepository.createError(ErrorCode.UNKNOWN, `Templates file has no valid version: ${this.file.filePath}`);
+    }
+    if (version > CURRENT_VERSION) {
+      throw TemplateRepository.createError(
+        ErrorCode.UNKNOWN,
+        `Templates file was written by a newer version of the app (format ${version})`
+      );
+    }
+    for (let v = version; v < CURRENT_VERSION; v++) data = MIGRATIONS[v](data);
+
+    const stored = (data as { templates?: unknown }).templates;
+    const entries: unknown[] = Array.isArray(stored) ? stored : [];
+    const templates: Template[] = [];
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      const parsed = TemplateSchema.safeParse(entry);
+      if (parsed.success && !seen.has(parsed.data.id)) {
+        seen.add(parsed.data.id);
+        templates.push(parsed.data as Template);
+      }
+    }
+
+    const skipped = entries.length - templates.length;
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} invalid template(s) in ${this.file.filePath}`);
+      await fs.copyFile(this.file.filePath, `${this.file.filePath}.bak`).catch(() => undefined);
+    }
+    if (version < CURRENT_VERSION || skipped > 0) await this.write(templates);
+    return templates;
+  }
+
+  /**
+   * Check a template against TemplateSchema; unknown keys such as the builtIn flags are dropped
+   */
+  private static toStored(template: Template): Template {
+    const parsed = TemplateSchema.safeParse(template);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw TemplateRepository.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid template: ${issue.path.join('.') || 'template'} - ${issue.message}`,
+        parsed.error.issues
+      );
+    }
+    return parsed.data as Template;
+  }
+
+  private async write(templates: Template[]): Promise<void> {
+    const data: TemplateFile = { version: CURRENT_VERSION, templates };
+    try {
+      await this.file.write(data);
+    } catch (error: unknown) {
+      throw TemplateRepository.createError(ErrorCode.UNKNOWN, 'Could not save templates', error);
+    }
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Traceability Service - Story → test → execution matrix for release audits
+ *
+ * Features:
+ * - Stories selected by epic, sprint, fix version or raw JQL, always within
+ *   the project (see JiraService.projectJql)
+ * - Covering tests and their runs come from CoverageService; a test covering
+ *   several stories is only looked up once
+ * - Test Set membership is read from the project's Test Sets in one search
+ * - Serializes the report as a self-contained HTML page or as CSV rows
+ */
+
+import { JiraService } from './jiraService.js';
+import { CoverageService } from './coverageService.js';
+import { SpreadsheetWriter, type SpreadsheetCell } from './spreadsheetWriter.js';
+import type {
+  AppError,
+  CoverageRun,
+  TraceabilityFormat,
+  TraceabilityReport,
+  TraceabilityRequest,
+  TraceabilityStory,
+} from '../../shared/types.js';
+import { CUSTOM_FIELDS, ErrorCode, ISSUE_TYPES, TEST_RUN_STATUSES, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*-\d+$/;
+
+// Xray's own issue types are never requirements
+const NON_REQUIREMENT_TYPES = [
+  ISSUE_TYPES.TEST,
+  ISSUE_TYPES.TEST_SET,
+  ISSUE_TYPES.TEST_EXECUTION,
+  ISSUE_TYPES.TEST_PLAN,
+  ISSUE_TYPES.PRECONDITION,
+];
+
+const SCOPE_LABELS: Record<TraceabilityRequest['scope'], string> = {
+  epic: 'Epic',
+  sprint: 'Sprint',
+  fixVersion: 'Fix Version',
+  jql: 'JQL',
+};
+
+const STATE_LABELS: Record<TraceabilityStory['state'], string> = {
+  UNCOVERED: 'No tests',
+  FAILING: 'Only failing tests',
+  COVERED: 'Covered',
+};
+
+// Fixed class names, so a custom Xray status never ends up in the markup unescaped
+const STATUS_CLASSES: Record<string, string> = {
+  [TEST_RUN_STATUSES.PASS]: 'pass',
+  [TEST_RUN_STATUSES.FAIL]: 'fail',
+  [TEST_RUN_STATUSES.EXECUTING]: 'executing',
+  [TEST_RUN_STATUSES.ABORTED]: 'aborted',
+  [TEST_RUN_STATUSES.TODO]: 'todo',
+};
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export class TraceabilityService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  async buildReport(request: TraceabilityRequest): Promise<TraceabilityReport> {
+    const jql = this.buildJql(request);
+    const [stories, testSetsByTest] = await Promise.all([
+      this.jiraService.searchIssueFields(jql, ['summary', 'status'], VALIDATION_LIMITS.MAX_TRACEABILITY_STORIES),
+      this.testSetsByTest(),
+    ]);
+
+    const coverageService = new CoverageService(this.jiraService);
+    const runCache = new Map<string, Promise<CoverageRun[]>>();
+
+    const rows: TraceabilityStory[] = await Promise.all(
+      stories.map(async (story): Promise<TraceabilityStory> => {
+        const tests = await coverageService.coveringTests(story.key, runCache);
+        return {
+          key: story.key,
+          summary: story.fields?.summary || '',
+          status: story.fields?.status?.name || '',
+          tests: tests.map(test => ({ ...test, testSets: testSetsByTest.get(test.key) || [] })),
+          state: CoverageService.coverageState(tests),
+        };
+      })
+    );
+
+    const executions = [...new Set(rows.flatMap(s => s.tests.flatMap(t => t.runs.map(r => r.executionKey))))]
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    return {
+      title: `${SCOPE_LABELS[request.scope]}: ${request.value.trim()}`,
+      jql,
+      generatedAt: new Date().toISOString(),
+      stories: rows,
+      executions,
+    };
+  }
+
+  /**
+   * Serialize the report for the chosen format
+   */
+  static serialize(report: TraceabilityReport, format: TraceabilityFormat): Buffer {
+    return format === 'html'
+      ? Buffer.from(this.toHtml(report), 'utf-8')
+      : Buffer.from(SpreadsheetWriter.toCsv(this.toRows(report)), 'utf-8');
+  }
+
+  /**
+   * One row per story and covering test (header first); uncovered stories get one row
+   */
+  static toRows(report: TraceabilityReport): SpreadsheetCell[][] {
+    const header = [
+      'Story', 'Story Summary', 'Story Status', 'Coverage',
+      'Test', 'Test Summary', 'Test Sets', 'Latest Status',
+      ...report.executions,
+    ];
+
+    const rows = report.stories.flatMap(story => {
+      const storyCells = [story.key, story.summary, story.status, STATE_LABELS[story.state]];
+      if (story.tests.length === 0) {
+        return [[...storyCells, '', '', '', '', ...report.executions.map(() => '')]];
+      }
+      return story.tests.map(test => [
+        ...storyCells,
+        test.key,
+        test.summary,
+        test.testSets.join(', '),
+        test.latestStatus,
+        ...report.executions.map(exec => test.runs.find(r => r.executionKey === exec)?.status || ''),
+      ]);
+    });
+
+    return [header, ...rows];
+  }
+
+  static toHtml(report: TraceabilityReport): string {
+    const cell = (value: string, className = '') =>
+      `<td${className ? ` class="${className}"` : ''}>${escapeHtml(value)}</td>`;
+    const status = (value: string) =>
+      (value ? cell(value, ['status', STATUS_CLASSES[value.toUpperCase()]].filter(Boolean).join(' ')) : '<td></td>');
+
+    const body = report.stories.map(story => {
+      const span = Math.max(1, story.tests.length);
+      const storyCells =
+        `<td rowspan="${span}"><strong>${escapeHtml(story.key)}</strong><br>${escapeHtml(story.summary)}</td>` +
+        `<td rowspan="${span}">${escapeHtml(story.status)}</td>` +
+        `<td rowspan="${span}" class="state ${story.state.toLowerCase()}">${STATE_LABELS[story.state]}</td>`;
+
+      if (story.tests.length === 0) {
+        return `<tr>${storyCells}<td colspan="${3 + report.executions.length}"></td></tr>`;
+      }
+      return story.tests.map((test, i) =>
+        '<tr>' + (i === 0 ? storyCells : '') +
+        `<td><strong>${escapeHtml(test.key)}</strong><br>${escapeHtml(test.summary)}</td>` +
+        cell(test.testSets.join(', ')) +
+        status(test.latestStatus) +
+        report.executions.map(exec => status(test.runs.find(r => r.executionKey === exec)?.status || '')).join('') +
+        '</tr>'
+      ).join('\n');
+    }).join('\n');
+
+    const counts = (['COVERED', 'FAILING', 'UNCOVERED'] as const)
+      .map(state => `${STATE_LABELS[state]}: ${report.stories.filter(s => s.state === state).length}`)
+      .join(' · ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Traceability - ${escapeHtml(report.title)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 13px; color: #0f172a; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #475569; margin-bottom: 16px; }
+  code { background: #f1f5f9; padding: 1px 4px; border-radius: 3px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .status { font-weight: 600; text-align: center; }
+  .pass { background: #dcfce7; color: #166534; }
+  .fail { background: #fee2e2; color: #991b1b; }
+  .executing { background: #dbeafe; color: #1e40af; }
+  .aborted { background: #334155; color: #fff; }
+  .todo { background: #f8fafc; color: #475569; }
+  .state.uncovered { background: #fee2e2; color: #991b1b; font-weight: 600; }
+  .state.failing { background: #ffedd5; color: #9a3412; font-weight: 600; }
+  .state.covered { background: #dcfce7; color: #166534; }
+</style>
+</head>
+<body>
+<h1>Traceability - ${escapeHtml(report.title)}</h1>
+<div class="meta">Generated ${escapeHtml(report.generatedAt)} · ${report.stories.length} stories · ${counts}<br><code>${escapeHtml(report.jql)}</code></div>
+<table>
+<thead><tr><th>Story</th><th>Status</th><th>Coverage</th><th>Test</th><th>Test Sets</th><th>Latest</th>${
+      report.executions.map(exec => `<th>${escapeHtml(exec)}</th>`).join('')
+    }</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+</body>
+</html>
+`;
+  }
+
+  private buildJql(request: TraceabilityRequest): string {
+    const value = request.value.trim();
+    if (!value) {
+      throw TraceabilityService.createError(ErrorCode.VALIDATION_ERROR, `${SCOPE_LABELS[request.scope]} is required`);
+    }
+
+    let filter: string;
+    if (request.scope === 'jql') {
+      filter = value;
+    } else if (request.scope === 'epic') {
+      const key = value.toUpperCase();
+      if (!ISSUE_KEY_PATTERN.test(key)) {
+        throw TraceabilityService.createError(ErrorCode.VALIDATION_ERROR, `"${value}" is not an issue key`);
+      }
+      filter = `"Epic Link" = ${key}`;
+    } else if (request.scope === 'sprint') {
+      filter = `sprint = ${/^\d+$/.test(value) ? value : quote(value)}`;
+    } else {
+      filter = `fixVersion = ${quote(value)}`;
+    }
+
+    return this.jiraService.projectJql(`issuetype not in (${NON_REQUIREMENT_TYPES.map(quote).join(', ')})`, filter);
+  }
+
+  /**
+   * Test key → keys of the project's Test Sets containing it
+   */
+  private async testSetsByTest(): Promise<Map<string, string[]>> {
+    const jql = this.jiraService.scopedJql(ISSUE_TYPES.TEST_SET, { jql: 'ORDER BY key ASC' });
+    const sets = await this.jiraService.searchIssueFields(jql, [CUSTOM_FIELDS.TESTS_IN_SET], VALIDATION_LIMITS.MAX_EXPORT_ISSUES);
+
+    const byTest = new Map<string, string[]>();
+    for (const set of sets) {
+      for (const testKey of (set.fields?.[CUSTOM_FIELDS.TESTS_IN_SET] || []) as string[]) {
+        byTest.set(testKey, [...(byTest.get(testKey) || []), set.key]);
+      }
+    }
+    return byTest;
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
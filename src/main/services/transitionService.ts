@@ -0,0 +1,128 @@
+/**
+ * Transition Service - Move issues through their workflow
+ *
+ * Features:
+ * - Transitions are matched by name: ids differ between workflows, so the same
+ *   "Start Progress" can have a different id on a Test and a Test Execution
+ * - Only transitions every selected issue offers are listed for bulk use
+ * - Screen field values are converted from their text / id form per schema type
+ * - Issues are transitioned one by one; one failure does not stop the others
+ */
+
+import { JiraService } from './jiraService.js';
+import type {
+  AppError,
+  BulkTransitionRequest,
+  IssueTransition,
+  TransitionField,
+  TransitionResult,
+} from '../../shared/types.js';
+import { ErrorCode, VALIDATION_LIMITS } from '../../shared/constants.js';
+
+export class TransitionService {
+  private jiraService: JiraService;
+
+  constructor(jiraService: JiraService) {
+    this.jiraService = jiraService;
+  }
+
+  /**
+   * Transitions offered by every one of the issues, with the first issue's fields
+   */
+  async getCommonTransitions(issueKeys: string[]): Promise<IssueTransition[]> {
+    TransitionService.checkKeys(issueKeys);
+    const perIssue = await Promise.all(issueKeys.map(key => this.jiraService.getTransitions(key)));
+    const [first, ...rest] = perIssue;
+    return first.filter(t => rest.every(other => other.some(o => TransitionService.sameName(o.name, t.name))));
+  }
+
+  async transitionIssues(request: BulkTransitionRequest): Promise<TransitionResult[]> {
+    TransitionService.checkKeys(request.issueKeys);
+    if (!request.transitionName.trim()) {
+      throw TransitionService.createError(ErrorCode.VALIDATION_ERROR, 'Choose a transition');
+    }
+
+    const results: TransitionResult[] = [];
+    for (const key of request.issueKeys) {
+      try {
+        const status = await this.transitionByName(key, request.transitionName, request.fields);
+        results.push({ key, success: true, status });
+      } catch (error: unknown) {
+        results.push({ key, success: false, error: (error as AppError).message || 'Transition failed' });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Run the named transition on one issue and return the status it moved to.
+   * Used after create too, where no screen values can be given.
+   */
+  async transitionByName(issueKey: string, transitionName: string, values: Record<string, string> = {}): Promise<string> {
+    const transitions = await this.jiraService.getTransitions(issueKey);
+    const transition = transitions.find(t => TransitionService.sameName(t.name, transitionName));
+    if (!transition) {
+      throw TransitionService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `"${transitionName}" is not available on ${issueKey}` +
+          (transitions.length > 0 ? ` (available: ${transitions.map(t => t.name).join(', ')})` : '')
+      );
+    }
+
+    const missing = transition.fields.filter(f => f.required && !values[f.key]?.trim());
+    if (missing.length > 0) {
+      throw TransitionService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `"${transition.name}" requires ${missing.map(f => f.name).join(', ')}`
+      );
+    }
+
+    const fields: Record<string, unknown> = {};
+    const update: Record<string, unknown> = {};
+    for (const field of transition.fields) {
+      const value = values[field.key]?.trim();
+      if (!value) continue;
+      // Comments are added through "update", never set as a field
+      if (field.key === 'comment') update.comment = [{ add: { body: value } }];
+      else fields[field.key] = TransitionService.toFieldValue(field, value);
+    }
+
+    await this.jiraService.transitionIssue(issueKey, transition.id, {
+      ...(Object.keys(fields).length > 0 ? { fields } : {}),
+      ...(Object.keys(update).length > 0 ? { update } : {}),
+    });
+    return transition.toStatus;
+  }
+
+  private static toFieldValue(field: TransitionField, value: string): unknown {
+    if (field.type === 'array') {
+      const items = value.split(',').map(v => v.trim()).filter(Boolean);
+      if (field.allowedValues) return items.map(id => ({ id }));
+      return field.items === 'string' ? items : items.map(name => ({ name }));
+    }
+    if (field.allowedValues) return { id: value };
+    if (field.type === 'user') return { name: value };
+    if (field.type === 'number') return Number(value);
+    return value;
+  }
+
+  private static checkKeys(issueKeys: string[]): void {
+    if (issueKeys.length === 0) {
+      throw TransitionService.createError(ErrorCode.VALIDATION_ERROR, 'No issues to transition');
+    }
+    if (issueKeys.length > VALIDATION_LIMITS.MAX_TRANSITION_ISSUES) {
+      throw TransitionService.createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Too many issues (max ${VALIDATION_LIMITS.MAX_TRANSITION_ISSUES} per transition)`
+      );
+    }
+  }
+
+  private static sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  private static createError(code: ErrorCode, message: string, details?: unknown): AppError {
+    return { code, message, details };
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Window Factory
+ * The main window and the guided runner windows share security settings and
+ * the way the renderer is loaded; the runner is picked by the URL hash
+ */
+
+import { app, BrowserWindow, type BrowserWindowConstructorOptions } from 'electron';
+import * as path from 'path';
+
+// One runner window per test run; opening the same run again focuses it
+const runnerWindows = new Map<number, BrowserWindow>();
+
+export function createAppWindow(options: BrowserWindowConstructorOptions, hash = ''): BrowserWindow {
+  const window = new BrowserWindow({
+    ...options,
+    webPreferences: {
+      // Security settings
+      nodeIntegration: false, // Do not expose Node.js to renderer
+      contextIsolation: true, // Isolate context between main and renderer
+      sandbox: true, // Enable sandboxing
+      webSecurity: true, // Enable web security
+      allowRunningInsecureContent: false,
+
+      // Preload script - use path.join for proper path resolution
+      preload: path.join(__dirname, '../preload.js'),
+    },
+    // Window styling
+    backgroundColor: '#ffffff',
+    show: false, // Don't show until ready
+  });
+
+  // Load the app
+  if (process.env.NODE_ENV === 'development' || !app.isPackaged) {
+    window.loadURL(`http://localhost:5173${hash ? `/#${hash}` : ''}`);
+  } else {
+    window.loadFile(path.join(__dirname, '../../dist/index.html'), { hash });
+  }
+
+  // Show window when ready
+  window.once('ready-to-show', () => {
+    window.show();
+  });
+
+  // Prevent navigation to external URLs (security)
+  window.webContents.on('will-navigate', (event, url) => {
+    if (!url.startsWith('http://localhost') && !url.startsWith('file://')) {
+      event.preventDefault();
+    }
+  });
+
+  // Prevent opening new windows (security)
+  window.webContents.setWindowOpenHandler(() => {
+    return { action: 'deny' };
+  });
+
+  return window;
+}
+
+/**
+ * Open the step-by-step runner for a test run in its own window
+ */
+export function openRunnerWindow(testRunId: number, testKey: string): void {
+  const existing = runnerWindows.get(testRunId);
+  if (existing && !existing.isDestroyed()) {
+    if (existing.isMinimized()) existing.restore();
+    existing.focus();
+    return;
+  }
+
+  const window = createAppWindow(
+    { width: 900, height: 760, minWidth: 640, minHeight: 560, title: `Run ${testKey}` },
+    `runner/${testRunId}`
+  );
+  runnerWindows.set(testRunId, window);
+  window.on('closed', () => runnerWindows.delete(testRunId));
+}
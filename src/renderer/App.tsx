@@ -8,17 +8,75 @@ import { useAppStore } from './store/appStore';
 import api from './api/electron';
 import { TestCasesTab } from './tabs/TestCasesTab';
 import { TestSetsTab } from './tabs/TestSetsTab';
+import { TestPlansTab } from './tabs/TestPlansTab';
 import { TestExecutionTab } from './tabs/TestExecutionTab';
+import { TestRunTab } from './tabs/TestRunTab';
+import { PreconditionsTab } from './tabs/PreconditionsTab';
+import { CoverageTab } from './tabs/CoverageTab';
+import { TraceabilityTab } from './tabs/TraceabilityTab';
+import { BulkEditTab } from './tabs/BulkEditTab';
+import { ExportTab } from './tabs/ExportTab';
 import { 
   CheckCircle2, 
   XCircle, 
   FileText, 
   Package, 
+  Map as MapIcon,
   Play,
+  ClipboardCheck,
+  ShieldCheck,
+  Target,
+  Network,
+  SquarePen,
+  Download,
   Server,
   User
 } from 'lucide-react';
 
+// Active tab gradient + underline colours (Tailwind can't see dynamic class names)
+const TAB_COLORS: Record<string, { gradient: string; accent: string }> = {
+  blue: {
+    gradient: 'linear-gradient(to bottom right, rgb(37, 99, 235), rgb(29, 78, 216))',
+    accent: 'rgb(96, 165, 250)',
+  },
+  purple: {
+    gradient: 'linear-gradient(to bottom right, rgb(147, 51, 234), rgb(126, 34, 206))',
+    accent: 'rgb(192, 132, 252)',
+  },
+  green: {
+    gradient: 'linear-gradient(to bottom right, rgb(22, 163, 74), rgb(21, 128, 61))',
+    accent: 'rgb(134, 239, 172)',
+  },
+  teal: {
+    gradient: 'linear-gradient(to bottom right, rgb(13, 148, 136), rgb(15, 118, 110))',
+    accent: 'rgb(94, 234, 212)',
+  },
+  indigo: {
+    gradient: 'linear-gradient(to bottom right, rgb(79, 70, 229), rgb(67, 56, 202))',
+    accent: 'rgb(165, 180, 252)',
+  },
+  amber: {
+    gradient: 'linear-gradient(to bottom right, rgb(217, 119, 6), rgb(180, 83, 9))',
+    accent: 'rgb(252, 211, 77)',
+  },
+  emerald: {
+    gradient: 'linear-gradient(to bottom right, rgb(5, 150, 105), rgb(4, 120, 87))',
+    accent: 'rgb(110, 231, 183)',
+  },
+  cyan: {
+    gradient: 'linear-gradient(to bottom right, rgb(8, 145, 178), rgb(14, 116, 144))',
+    accent: 'rgb(103, 232, 249)',
+  },
+  rose: {
+    gradient: 'linear-gradient(to bottom right, rgb(225, 29, 72), rgb(190, 18, 60))',
+    accent: 'rgb(253, 164, 175)',
+  },
+  slate: {
+    gradient: 'linear-gradient(to bottom right, rgb(71, 85, 105), rgb(51, 65, 85))',
+    accent: 'rgb(203, 213, 225)',
+  },
+};
+
 export default function App() {
   const { auth, setAuth, activeTab, setActiveTab, setTemplates } = useAppStore();
 
@@ -46,7 +104,14 @@ export default function App() {
   const tabs = [
     { id: 'testcases' as const, label: 'Test Cases', icon: FileText, color: 'blue' },
     { id: 'testsets' as const, label: 'Test Sets', icon: Package, color: 'purple' },
+    { id: 'testplans' as const, label: 'Test Plans', icon: MapIcon, color: 'indigo' },
     { id: 'execution' as const, label: 'Execution', icon: Play, color: 'green' },
+    { id: 'run' as const, label: 'Run', icon: ClipboardCheck, color: 'teal' },
+    { id: 'preconditions' as const, label: 'Pre-Conditions', icon: ShieldCheck, color: 'amber' },
+    { id: 'coverage' as const, label: 'Coverage', icon: Target, color: 'emerald' },
+    { id: 'traceability' as const, label: 'Traceability', icon: Network, color: 'cyan' },
+    { id: 'bulkedit' as const, label: 'Bulk Edit', icon: SquarePen, color: 'rose' },
+    { id: 'export' as const, label: 'Export', icon: Download, color: 'slate' },
   ];
 
   return (
@@ -127,26 +192,14 @@ export default function App() {
                       : 'bg-white text-slate-700 hover:bg-slate-50 border-b-2 border-transparent hover:border-slate-300'
                     }
                   `}
-                  style={isActive ? {
-                    background: tab.color === 'blue' 
-                      ? 'linear-gradient(to bottom right, rgb(37, 99, 235), rgb(29, 78, 216))'
-                      : tab.color === 'purple'
-                      ? 'linear-gradient(to bottom right, rgb(147, 51, 234), rgb(126, 34, 206))'
-                      : 'linear-gradient(to bottom right, rgb(22, 163, 74), rgb(21, 128, 61))'
-                  } : {}}
+                  style={isActive ? { background: TAB_COLORS[tab.color].gradient } : {}}
                 >
                   <Icon className={`w-5 h-5 ${isActive ? 'text-white' : 'text-slate-500'}`} />
                   <span>{tab.label}</span>
                   {isActive && (
                     <div 
                       className="absolute bottom-0 left-0 right-0 h-1 rounded-t-full"
-                      style={{
-                        background: tab.color === 'blue' 
-                          ? 'rgb(96, 165, 250)'
-                          : tab.color === 'purple'
-                          ? 'rgb(192, 132, 252)'
-                          : 'rgb(134, 239, 172)'
-                      }}
+                      style={{ background: TAB_COLORS[tab.color].accent }}
                     />
                   )}
                 </button>
@@ -161,7 +214,14 @@ export default function App() {
         <div className="animate-fadeIn">
           {activeTab === 'testcases' && <TestCasesTab />}
           {activeTab === 'testsets' && <TestSetsTab />}
+          {activeTab === 'testplans' && <TestPlansTab />}
           {activeTab === 'execution' && <TestExecutionTab />}
+          {activeTab === 'run' && <TestRunTab />}
+          {activeTab === 'preconditions' && <PreconditionsTab />}
+          {activeTab === 'coverage' && <CoverageTab />}
+          {activeTab === 'traceability' && <TraceabilityTab />}
+          {activeTab === 'bulkedit' && <BulkEditTab />}
+          {activeTab === 'export' && <ExportTab />}
         </div>
       </div>
 
@@ -0,0 +1,388 @@
+/**
+ * Guided Runner - one test run, one step at a time, in its own window
+ * ✅ Step, data and expected result in front of the tester
+ * ✅ Keyboard driven: P / F / A / T / E set the status, ← → move between steps
+ * ✅ Every step is saved to Xray as soon as it changes (text after a short pause)
+ * ✅ Screenshots and logs attach as step or run evidence
+ * ✅ A failed step raises a linked Bug without leaving the runner (D)
+ * ✅ Finish screen sets the overall run status and comment
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import api from './api/electron';
+import { Alert } from './components/common/Alert';
+import { TestRunStatusBadge } from './components/TestRunStatusBadge';
+import { AttachmentPanel } from './components/AttachmentPanel';
+import { CreateDefectPanel } from './components/CreateDefectPanel';
+import { TEST_RUN_STATUSES } from '../shared/constants';
+import type { CreatedDefect, TestRun, TestRunStatus, UpdateTestRunStepInput } from '../shared/types';
+import { ChevronLeft, ChevronRight, ClipboardCheck, Flag, Keyboard, CheckCircle2, AlertCircle, Loader2, Bug } from 'lucide-react';
+
+const STATUS_OPTIONS = Object.values(TEST_RUN_STATUSES) as TestRunStatus[];
+
+// Status keys, when focus is not in a text field
+const STATUS_KEYS: Record<string, TestRunStatus> = {
+  p: 'PASS',
+  f: 'FAIL',
+  a: 'ABORTED',
+  t: 'TODO',
+  e: 'EXECUTING',
+};
+
+const TEXT_SAVE_DELAY_MS = 1200;
+
+type StepDraft = Required<UpdateTestRunStepInput>;
+type SaveState = 'dirty' | 'saving' | 'saved' | 'error';
+
+/**
+ * Overall status implied by the step results
+ */
+function suggestedRunStatus(statuses: TestRunStatus[]): TestRunStatus {
+  if (statuses.includes('FAIL')) return 'FAIL';
+  if (statuses.includes('ABORTED')) return 'ABORTED';
+  if (statuses.length > 0 && statuses.every(s => s === 'PASS')) return 'PASS';
+  return statuses.some(s => s !== 'TODO') ? 'EXECUTING' : 'TODO';
+}
+
+export default function RunnerApp({ testRunId }: { testRunId: number }) {
+  const [run, setRun] = useState<TestRun | null>(null);
+  const [error, setError] = useState('');
+  const [index, setIndex] = useState(0);   // steps.length = finish screen
+  const [drafts, setDrafts] = useState<Record<number, StepDraft>>({});
+  const [saveStates, setSaveStates] = useState<Record<number, SaveState>>({});
+  const [runStatus, setRunStatus] = useState<TestRunStatus>('TODO');
+  const [runComment, setRunComment] = useState('');
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [finished, setFinished] = useState(false);
+  const [showKeys, setShowKeys] = useState(false);
+  const [defectStepId, setDefectStepId] = useState<number | null>(null);
+
+  const draftsRef = useRef(drafts);
+  draftsRef.current = drafts;
+  const timers = useRef<Record<number, ReturnType<typeof setTimeout>>>({});
+  const actualRef = useRef<HTMLTextAreaElement>(null);
+  const commentRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    api.getTestRun(testRunId)
+      .then(res => {
+        if (!res.success) { setError(res.error?.message || 'Failed to load test run'); return; }
+        setRun(res.data);
+        setDrafts(Object.fromEntries(res.data.steps.map(s => [s.id, {
+          status: s.status, comment: s.comment, actualResult: s.actualResult,
+        }])));
+        setRunStatus(res.data.status);
+        setRunComment(res.data.comment);
+        // Resume at the first step without a result
+        const next = res.data.steps.findIndex(s => s.status === 'TODO');
+        setIndex(next === -1 ? res.data.steps.length : next);
+        document.title = `Run ${res.data.testKey}`;
+      })
+      .catch((err: any) => setError(err.message || 'Failed to load test run'));
+  }, [testRunId]);
+
+  // Resolves to true once the step's latest draft is in Xray
+  const saveStep = useCallback(async (stepId: number): Promise<boolean> => {
+    clearTimeout(timers.current[stepId]);
+    delete timers.current[stepId];
+    const draft = draftsRef.current[stepId];
+    if (!draft) return true;
+
+    setSaveStates(prev => ({ ...prev, [stepId]: 'saving' }));
+    try {
+      const res = await api.updateTestRunStep(testRunId, stepId, draft);
+      if (!res.success) throw new Error(res.error?.message || 'Save failed');
+      // A newer edit may have arrived while saving; leave it dirty then
+      const current = draftsRef.current[stepId] === draft;
+      setSaveStates(prev => ({ ...prev, [stepId]: current ? 'saved' : 'dirty' }));
+      return current;
+    } catch (err: any) {
+      setSaveStates(prev => ({ ...prev, [stepId]: 'error' }));
+      setError(`Step not saved: ${err.message || 'Save failed'}`);
+      return false;
+    }
+  }, [testRunId]);
+
+  const editStep = useCallback((stepId: number, updates: Partial<StepDraft>, saveNow: boolean) => {
+    const next = { ...draftsRef.current, [stepId]: { ...draftsRef.current[stepId], ...updates } };
+    draftsRef.current = next;
+    setDrafts(next);
+    setSaveStates(prev => ({ ...prev, [stepId]: 'dirty' }));
+
+    clearTimeout(timers.current[stepId]);
+    if (saveNow) saveStep(stepId);
+    else timers.current[stepId] = setTimeout(() => saveStep(stepId), TEXT_SAVE_DELAY_MS);
+  }, [saveStep]);
+
+  const steps = run?.steps || [];
+  const step = steps[index];
+
+  // Pending text goes to Xray first so the draft includes the actual result
+  const openDefect = useCallback(async () => {
+    if (!step) return;
+    if (timers.current[step.id]) await saveStep(step.id);
+    setDefectStepId(step.id);
+  }, [step, saveStep]);
+
+  const closeDefect = useCallback(() => setDefectStepId(null), []);
+
+  const handleDefectCreated = (created: CreatedDefect) => {
+    setRun(prev => prev && {
+      ...prev,
+      steps: prev.steps.map(s => (s.id === defectStepId ? { ...s, defects: [...s.defects, created.key] } : s)),
+    });
+    setDefectStepId(null);
+    if (created.warnings.length > 0) setError(`${created.key} created, but: ${created.warnings.join('; ')}`);
+  };
+
+  const goTo = useCallback((target: number) => {
+    if (!run) return;
+    // Flush pending text edits of the step being left
+    const current = run.steps[index];
+    if (current && timers.current[current.id]) saveStep(current.id);
+
+    const clamped = Math.max(0, Math.min(target, run.steps.length));
+    if (clamped === run.steps.length) {
+      setRunStatus(suggestedRunStatus(run.steps.map(s => draftsRef.current[s.id]?.status || s.status)));
+    }
+    setIndex(clamped);
+  }, [run, index, saveStep]);
+
+  const setStatus = useCallback((status: TestRunStatus) => {
+    if (!step) return;
+    editStep(step.id, { status }, true);
+    if (status === 'PASS') goTo(index + 1);
+  }, [step, index, goTo, editStep]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const inField = target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.tagName === 'SELECT';
+
+      if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') { e.preventDefault(); goTo(index + 1); return; }
+      if (e.key === 'Escape' && inField) { target.blur(); return; }
+      if (inField || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      if (STATUS_KEYS[key] && step) { e.preventDefault(); setStatus(STATUS_KEYS[key]); }
+      else if (e.key === 'ArrowRight' || key === 'n') goTo(index + 1);
+      else if (e.key === 'ArrowLeft' || key === 'b') goTo(index - 1);
+      else if (key === 'r' && step) { e.preventDefault(); actualRef.current?.focus(); }
+      else if (key === 'c' && step) { e.preventDefault(); commentRef.current?.focus(); }
+      else if (key === 'd' && step) { e.preventDefault(); openDefect(); }
+      else if (key === '?') setShowKeys(prev => !prev);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [index, step, goTo, setStatus, openDefect]);
+
+  const handleFinish = async () => {
+    if (!run) return;
+    setIsFinishing(true); setError('');
+    try {
+      // Every step not known to be saved goes (again) first: pending timers,
+      // failed saves, and edits that arrived while a save was in flight
+      const pending = new Set(Object.keys(timers.current).map(Number));
+      Object.entries(saveStates).forEach(([id, state]) => { if (state !== 'saved') pending.add(Number(id)); });
+      const saved = await Promise.all([...pending].map(id => saveStep(id)));
+      const failed = saved.filter(ok => !ok).length;
+      if (failed > 0) {
+        setError(`${failed} step${failed > 1 ? 's are' : ' is'} not saved - the run was not finished. Try Finish again.`);
+        return;
+      }
+
+      const res = await api.updateTestRun(run.id, { status: runStatus, comment: runComment });
+      if (!res.success) { setError(res.error?.message || 'Failed to finish run'); return; }
+      setFinished(true);
+    } catch (err: any) { setError(err.message || 'Failed to finish run'); }
+    finally { setIsFinishing(false); }
+  };
+
+  const unsaved = Object.values(saveStates).filter(s => s === 'dirty' || s === 'error').length;
+  const recorded = steps.filter(s => (drafts[s.id]?.status || s.status) !== 'TODO').length;
+
+  if (!run) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-6">
+        {error
+          ? <Alert type="error" message={error} />
+          : <div className="flex items-center gap-3 text-slate-600"><Loader2 className="w-5 h-5 animate-spin" /> Loading test run…</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-teal-600 to-cyan-600 text-white px-6 py-4 shadow">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="w-6 h-6" />
+          <div className="flex-1 min-w-0">
+            <div className="font-bold text-lg">{run.testKey} <span className="font-normal text-teal-100 text-sm">in {run.testExecKey}</span></div>
+            <div className="text-xs text-teal-100">{recorded} of {steps.length} steps recorded</div>
+          </div>
+          <div className="text-xs text-teal-100 flex items-center gap-1.5">
+            {unsaved > 0
+              ? <><AlertCircle className="w-4 h-4" /> {unsaved} unsaved</>
+              : <><CheckCircle2 className="w-4 h-4" /> All changes saved</>}
+          </div>
+          <button type="button" onClick={() => setShowKeys(prev => !prev)} title="Keyboard shortcuts (?)"
+            className="p-2 rounded-lg bg-white/10 hover:bg-white/20"><Keyboard className="w-4 h-4" /></button>
+        </div>
+        <div className="flex gap-1 mt-3">
+          {steps.map((s, i) => (
+            <button key={s.id} type="button" onClick={() => goTo(i)} title={`Step ${s.index}`}
+              className={`h-2 flex-1 rounded-full ${
+                { PASS: 'bg-green-300', FAIL: 'bg-red-300', ABORTED: 'bg-slate-800', EXECUTING: 'bg-blue-300', TODO: 'bg-white/30' }[drafts[s.id]?.status || s.status]
+              } ${i === index ? 'ring-2 ring-white' : ''}`} />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 p-6 space-y-4 max-w-4xl w-full mx-auto">
+        {error && <Alert type="error" message={error} onDismiss={() => setError('')} />}
+
+        {showKeys && (
+          <div className="bg-white border border-slate-200 rounded-lg p-4 text-sm text-slate-700 grid grid-cols-2 gap-x-6 gap-y-1">
+            <span><kbd className="font-mono font-bold">P</kbd> Pass and go to the next step</span>
+            <span><kbd className="font-mono font-bold">F</kbd> / <kbd className="font-mono font-bold">A</kbd> Fail / Aborted</span>
+            <span><kbd className="font-mono font-bold">T</kbd> / <kbd className="font-mono font-bold">E</kbd> To do / Executing</span>
+            <span><kbd className="font-mono font-bold">← →</kbd> or <kbd className="font-mono font-bold">B N</kbd> Previous / next step</span>
+            <span><kbd className="font-mono font-bold">R</kbd> / <kbd className="font-mono font-bold">C</kbd> Actual result / comment</span>
+            <span><kbd className="font-mono font-bold">D</kbd> Create a defect for this step</span>
+            <span><kbd className="font-mono font-bold">Ctrl+Enter</kbd> Next step, even while typing</span>
+            <span><kbd className="font-mono font-bold">Esc</kbd> Leave the text field</span>
+          </div>
+        )}
+
+        {step ? (
+          <div className="bg-white rounded-xl border-2 border-slate-200 p-6 shadow-sm space-y-5">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-bold text-slate-500 uppercase tracking-wide">Step {step.index} of {steps.length}</span>
+              <span className="text-xs text-slate-500">
+                {{ dirty: 'Unsaved', saving: 'Saving…', saved: 'Saved', error: 'Save failed' }[saveStates[step.id] as SaveState] || ''}
+              </span>
+            </div>
+            <div className="space-y-3">
+              <div><div className="text-xs font-semibold text-slate-500 uppercase">Action</div>
+                <div className="text-lg text-slate-900 whitespace-pre-wrap">{step.step}</div></div>
+              {step.data && <div><div className="text-xs font-semibold text-slate-500 uppercase">Data</div>
+                <div className="font-mono text-sm text-slate-800 whitespace-pre-wrap bg-slate-50 rounded p-2">{step.data}</div></div>}
+              <div><div className="text-xs font-semibold text-slate-500 uppercase">Expected Result</div>
+                <div className="text-slate-800 whitespace-pre-wrap">{step.result}</div></div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {STATUS_OPTIONS.map(s => (
+                <button key={s} type="button" onClick={() => setStatus(s)}
+                  className={`px-4 py-2 rounded-lg text-sm font-bold border-2 transition-colors ${
+                    drafts[step.id]?.status === s
+                      ? 'bg-teal-600 text-white border-teal-700'
+                      : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-100'
+                  }`}>
+                  {s} <span className="opacity-60 font-mono text-xs">{Object.keys(STATUS_KEYS).find(k => STATUS_KEYS[k] === s)?.toUpperCase()}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <textarea ref={actualRef} value={drafts[step.id]?.actualResult || ''} rows={4}
+                onChange={e => editStep(step.id, { actualResult: e.target.value }, false)}
+                onBlur={() => timers.current[step.id] && saveStep(step.id)}
+                placeholder="Actual result (R)"
+                className="w-full px-3 py-2 border-2 border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-400 resize-none" />
+              <textarea ref={commentRef} value={drafts[step.id]?.comment || ''} rows={4}
+                onChange={e => editStep(step.id, { comment: e.target.value }, false)}
+                onBlur={() => timers.current[step.id] && saveStep(step.id)}
+                placeholder="Comment (C)"
+                className="w-full px-3 py-2 border-2 border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-400 resize-none" />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {step.defects.map(key => (
+                <span key={key} className="flex items-center gap-1 px-2 py-0.5 bg-red-50 border border-red-200 rounded text-xs font-mono text-red-800">
+                  <Bug className="w-3 h-3" />{key}
+                </span>
+              ))}
+              {defectStepId !== step.id && (
+                <button type="button" onClick={openDefect}
+                  className="flex items-center gap-1 text-xs font-semibold text-red-700 hover:text-red-900">
+                  <Bug className="w-3 h-3" /> Create defect (D)
+                </button>
+              )}
+            </div>
+            {defectStepId === step.id && (
+              <CreateDefectPanel testRunId={run.id} stepId={step.id} onCreated={handleDefectCreated}
+                onCancel={closeDefect} onError={setError} />
+            )}
+
+            <AttachmentPanel target={{ kind: 'testRun', testRunId: run.id, stepId: step.id }}
+              title="Step evidence" compact onError={setError} />
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border-2 border-slate-200 p-6 shadow-sm space-y-4">
+            <div className="flex items-center gap-2">
+              <Flag className="w-5 h-5 text-teal-600" />
+              <h3 className="font-bold text-slate-900 text-lg">Finish Run</h3>
+            </div>
+            {steps.length > 0 && (
+              <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {steps.map((s, i) => (
+                  <button key={s.id} type="button" onClick={() => goTo(i)}
+                    className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-slate-50">
+                    <span className="w-12 text-slate-500">#{s.index}</span>
+                    <span className="flex-1 truncate text-slate-800">{s.step}</span>
+                    <TestRunStatusBadge status={drafts[s.id]?.status || s.status} />
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-[200px,1fr] gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-1.5">Run Status</label>
+                <select value={runStatus} onChange={e => setRunStatus(e.target.value as TestRunStatus)} disabled={finished}
+                  className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500">
+                  {STATUS_OPTIONS.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-1.5">Comment</label>
+                <textarea value={runComment} onChange={e => setRunComment(e.target.value)} rows={2} disabled={finished}
+                  placeholder="Overall notes for this run…"
+                  className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 resize-none" />
+              </div>
+            </div>
+            <AttachmentPanel target={{ kind: 'testRun', testRunId: run.id }} title="Run evidence" onError={setError} />
+            {finished ? (
+              <div className="flex items-center justify-between gap-3 p-3 bg-green-50 border border-green-200 rounded-lg">
+                <span className="flex items-center gap-2 text-green-800 font-semibold">
+                  <CheckCircle2 className="w-5 h-5" /> {run.testKey} recorded as {runStatus}
+                </span>
+                <button type="button" onClick={() => window.close()}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-semibold hover:bg-green-700">Close window</button>
+              </div>
+            ) : (
+              <button type="button" onClick={handleFinish} disabled={isFinishing}
+                className="w-full bg-gradient-to-r from-teal-600 to-cyan-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 hover:from-teal-700 hover:to-cyan-700 disabled:opacity-50">
+                <Flag className="w-5 h-5" /> {isFinishing ? 'Saving…' : `Finish as ${runStatus}`}
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <button type="button" onClick={() => goTo(index - 1)} disabled={index === 0}
+            className="flex items-center gap-1 px-4 py-2 border-2 border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 disabled:opacity-30 font-semibold text-sm">
+            <ChevronLeft className="w-4 h-4" /> Previous
+          </button>
+          {step && (
+            <button type="button" onClick={() => goTo(index + 1)}
+              className="flex items-center gap-1 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 font-semibold text-sm">
+              {index === steps.length - 1 ? 'Review & finish' : 'Next'} <ChevronRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
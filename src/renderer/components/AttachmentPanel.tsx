@@ -0,0 +1,185 @@
+/**
+ * AttachmentPanel Component
+ * Attachments of an issue, or evidence of a test run / run step
+ *
+ * - Files are picked or dropped, checked for size and type, then uploaded as bytes
+ * - Rejected files are listed with the reason and never sent
+ * - Existing files can be downloaded through a save dialog
+ * - compact renders a single-line drop zone for use inside step cards
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import api from '../api/electron';
+import { ATTACHMENT_EXTENSIONS, VALIDATION_LIMITS } from '../../shared/constants';
+import type { Attachment, AttachmentTarget, AttachmentUpload, AttachmentUploadResult } from '../../shared/types';
+import { Paperclip, Upload, Download, CheckCircle2, XCircle } from 'lucide-react';
+
+interface AttachmentPanelProps {
+  target: AttachmentTarget;
+  title?: string;
+  compact?: boolean;
+  onError: (error: string) => void;
+}
+
+const ACCEPT = ATTACHMENT_EXTENSIONS.map(ext => `.${ext}`).join(',');
+
+function fileProblem(file: File): string | null {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  if (!(ATTACHMENT_EXTENSIONS as readonly string[]).includes(extension)) return `.${extension || '?'} files are not accepted`;
+  if (file.size === 0) return 'File is empty';
+  if (file.size > VALIDATION_LIMITS.MAX_ATTACHMENT_BYTES) {
+    return `File is too large (max ${VALIDATION_LIMITS.MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB)`;
+  }
+  return null;
+}
+
+function formatSize(bytes: number): string {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const AttachmentPanel: React.FC<AttachmentPanelProps> = ({ target, title = 'Attachments', compact = false, onError }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [results, setResults] = useState<AttachmentUploadResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Callers pass target as a literal, so the loader depends on its fields instead
+  const { kind } = target;
+  const issueKey = target.kind === 'issue' ? target.issueKey : undefined;
+  const testRunId = target.kind === 'testRun' ? target.testRunId : undefined;
+  const stepId = target.kind === 'testRun' ? target.stepId : undefined;
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await api.getAttachments(
+        kind === 'issue' ? { kind, issueKey: issueKey! } : { kind, testRunId: testRunId!, stepId }
+      );
+      if (res.success) setAttachments(res.data);
+      else onError(res.error?.message || 'Failed to load attachments');
+    } catch (err: any) {
+      onError(err.message || 'Failed to load attachments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [kind, issueKey, testRunId, stepId, onError]);
+
+  useEffect(() => {
+    setResults([]);
+    load();
+  }, [load]);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+    if (files.length > VALIDATION_LIMITS.MAX_ATTACHMENTS_PER_UPLOAD) {
+      onError(`Too many files (max ${VALIDATION_LIMITS.MAX_ATTACHMENTS_PER_UPLOAD} per upload)`);
+      return;
+    }
+
+    const rejected: AttachmentUploadResult[] = [];
+    const accepted: File[] = [];
+    for (const file of files) {
+      const problem = fileProblem(file);
+      if (problem) rejected.push({ fileName: file.name, success: false, error: problem });
+      else accepted.push(file);
+    }
+    setResults(rejected);
+    if (accepted.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      const uploads: AttachmentUpload[] = await Promise.all(accepted.map(async file => ({
+        fileName: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        data: new Uint8Array(await file.arrayBuffer()),
+      })));
+      const res = await api.uploadAttachments(target, uploads);
+      if (!res.success) { onError(res.error?.message || 'Upload failed'); return; }
+      setResults([...rejected, ...res.data]);
+      await load();
+    } catch (err: any) {
+      onError(err.message || 'Upload failed');
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const res = await api.downloadAttachment(attachment);
+      if (!res.success) onError(res.error?.message || 'Download failed');
+    } catch (err: any) {
+      onError(err.message || 'Download failed');
+    }
+  };
+
+  const dropZone = (
+    <div
+      onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={e => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+      onClick={() => !isUploading && inputRef.current?.click()}
+      className={`flex items-center justify-center gap-2 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+        compact ? 'px-3 py-2 text-xs' : 'px-4 py-5 text-sm'
+      } ${isDragging ? 'border-teal-500 bg-teal-50 text-teal-800' : 'border-slate-300 text-slate-500 hover:bg-slate-50'}`}>
+      <Upload className={compact ? 'w-3.5 h-3.5' : 'w-4 h-4'} />
+      {isUploading ? 'Uploading…' : 'Drop files here or click to choose'}
+      <input ref={inputRef} type="file" multiple accept={ACCEPT} className="hidden"
+        onChange={e => handleFiles(e.target.files)} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Paperclip className="w-4 h-4 text-slate-500" />
+        <span className={`font-semibold text-slate-700 ${compact ? 'text-xs' : 'text-sm'}`}>{title}</span>
+        <span className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs font-bold">
+          {isLoading ? '…' : attachments.length}
+        </span>
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+              <span className="flex-1 min-w-0 truncate text-slate-800" title={attachment.fileName}>{attachment.fileName}</span>
+              <span className="text-xs text-slate-400 whitespace-nowrap">
+                {[formatSize(attachment.size), attachment.author].filter(Boolean).join(' · ')}
+              </span>
+              <button type="button" onClick={() => handleDownload(attachment)} title="Download"
+                className="text-slate-500 hover:text-teal-700"><Download className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {dropZone}
+      {!compact && (
+        <p className="text-xs text-slate-400">
+          Up to {VALIDATION_LIMITS.MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB per file · {ATTACHMENT_EXTENSIONS.join(', ')}
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <div className="space-y-1">
+          {results.map((r, i) => (
+            <div key={i} className="flex items-center gap-2 text-xs">
+              {r.success
+                ? <CheckCircle2 className="w-3.5 h-3.5 text-green-600 flex-shrink-0" />
+                : <XCircle className="w-3.5 h-3.5 text-red-600 flex-shrink-0" />}
+              <span className="font-medium text-slate-700 truncate">{r.fileName}</span>
+              {r.error && <span className="text-red-700 truncate">{r.error}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+/**
+ * CloneTestPanel Component
+ * Copies an existing Jira Test (fields + steps) into new drafts
+ *
+ * - Find/replace rules with one replacement per copy, e.g. iOS → Android, Web
+ * - Optionally links each created test back with "Clones"
+ */
+
+import React, { useMemo, useState } from 'react';
+import api from '../api/electron';
+import { cloneToDrafts, type ReplaceRule } from '../utils/cloneDrafts';
+import type { CreateTestInput, ExistingTest } from '../../shared/types';
+import { CopyPlus, ChevronDown, Plus, Trash2 } from 'lucide-react';
+
+interface CloneTestPanelProps {
+  onLoad: (tests: CreateTestInput[], sourceKey: string) => void;
+  onError: (error: string) => void;
+}
+
+const MAX_COPIES = 10;
+
+const emptyRule = (copies: number): ReplaceRule => ({ find: '', replacements: Array(copies).fill('') });
+
+export const CloneTestPanel: React.FC<CloneTestPanelProps> = ({ onLoad, onError }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [testKey, setTestKey] = useState('');
+  const [source, setSource] = useState<ExistingTest | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [copies, setCopies] = useState(1);
+  const [rules, setRules] = useState<ReplaceRule[]>([emptyRule(1)]);
+  const [matchCase, setMatchCase] = useState(false);
+  const [linkBack, setLinkBack] = useState(true);
+
+  const drafts = useMemo(
+    () => (source ? cloneToDrafts(source, rules, { copies, matchCase, linkBack }) : []),
+    [source, rules, copies, matchCase, linkBack]
+  );
+
+  const handleFetch = async () => {
+    if (!testKey.trim()) return;
+    setIsLoading(true);
+    try {
+      const res = await api.getTestForEdit(testKey);
+      if (!res.success) { onError(res.error.message); return; }
+      setSource(res.data);
+    } catch (err: any) {
+      onError(err.message || 'Failed to load test');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeCopies = (value: number) => {
+    const next = Math.min(MAX_COPIES, Math.max(1, value || 1));
+    setCopies(next);
+    setRules(prev => prev.map(r => ({
+      ...r,
+      replacements: Array.from({ length: next }, (_, i) => r.replacements[i] ?? ''),
+    })));
+  };
+
+  const updateRule = (index: number, updates: Partial<ReplaceRule>) =>
+    setRules(prev => prev.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+
+  const updateReplacement = (index: number, copy: number, value: string) =>
+    updateRule(index, { replacements: rules[index].replacements.map((v, i) => (i === copy ? value : v)) });
+
+  const handleLoad = () => {
+    if (!source) return;
+    onLoad(drafts, source.key);
+    setSource(null);
+    setTestKey('');
+    setIsExpanded(false);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-violet-50 to-fuchsia-50 rounded-xl border-2 border-violet-200 shadow-sm overflow-hidden">
+      <button type="button" onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center justify-between hover:bg-violet-100/50 transition-colors">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-violet-500 to-fuchsia-600 flex items-center justify-center shadow-md">
+            <CopyPlus className="w-4 h-4 text-white" />
+          </div>
+          <div className="text-left">
+            <h3 className="text-sm font-bold text-slate-900">Clone Existing Test</h3>
+            <p className="text-xs text-slate-600">Copy a Jira test into new drafts with find/replace</p>
+          </div>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-slate-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="p-4 pt-0 space-y-3">
+          <div className="flex gap-2">
+            <input type="text" value={testKey} onChange={e => setTestKey(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleFetch()}
+              placeholder="MTD-1234"
+              className="flex-1 px-4 py-2.5 border-2 border-slate-300 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-violet-400" />
+            <button type="button" onClick={handleFetch} disabled={isLoading || !testKey.trim()}
+              className="px-5 py-2.5 bg-violet-600 text-white rounded-lg hover:bg-violet-700 disabled:opacity-50 font-semibold">
+              {isLoading ? 'Loading…' : 'Fetch'}
+            </button>
+          </div>
+
+          {source && (
+            <>
+              <div className="text-sm">
+                <span className="font-mono font-bold text-violet-800">{source.key}</span>
+                <span className="ml-2 text-slate-800">{source.test.summary}</span>
+                <span className="ml-2 text-xs text-slate-500">{source.test.testType} · {source.test.steps.length} step(s)</span>
+              </div>
+
+              <div className="flex items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <span className="font-medium text-slate-700">Copies</span>
+                  <input type="number" min={1} max={MAX_COPIES} value={copies}
+                    onChange={e => changeCopies(parseInt(e.target.value, 10))}
+                    className="w-16 px-2 py-1 border-2 border-slate-300 rounded-lg" />
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={matchCase} onChange={e => setMatchCase(e.target.checked)} className="w-4 h-4" />
+                  Match case
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={linkBack} onChange={e => setLinkBack(e.target.checked)} className="w-4 h-4" />
+                  Link back ("Clones")
+                </label>
+              </div>
+
+              <div className="bg-white rounded-lg border border-slate-200 p-3 space-y-2">
+                <div className="text-xs font-semibold text-slate-600">Find / replace in summary and steps</div>
+                {rules.map((rule, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input type="text" value={rule.find} onChange={e => updateRule(i, { find: e.target.value })}
+                      placeholder="Find"
+                      className="w-32 px-2 py-1.5 border border-slate-300 rounded text-sm" />
+                    <span className="text-slate-400">→</span>
+                    {rule.replacements.map((value, copy) => (
+                      <input key={copy} type="text" value={value} onChange={e => updateReplacement(i, copy, e.target.value)}
+                        placeholder={copies > 1 ? `Copy ${copy + 1}` : 'Replace'}
+                        className="flex-1 min-w-0 px-2 py-1.5 border border-slate-300 rounded text-sm" />
+                    ))}
+                    <button type="button" onClick={() => setRules(prev => prev.filter((_, idx) => idx !== i))}
+                      disabled={rules.length === 1} className="text-red-500 hover:text-red-700 disabled:opacity-30">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => setRules(prev => [...prev, emptyRule(copies)])}
+                  className="flex items-center gap-1 text-xs font-semibold text-violet-700 hover:text-violet-900">
+                  <Plus className="w-3.5 h-3.5" /> Add rule
+                </button>
+              </div>
+
+              <div className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+                {drafts.map((draft, i) => (
+                  <div key={i} className="px-3 py-1.5 text-sm text-slate-800 truncate">{draft.summary}</div>
+                ))}
+              </div>
+
+              <button type="button" onClick={handleLoad}
+                className="w-full py-2.5 bg-violet-600 text-white rounded-lg font-semibold text-sm hover:bg-violet-700">
+                Open {drafts.length} Draft{drafts.length !== 1 ? 's' : ''} in Editor
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
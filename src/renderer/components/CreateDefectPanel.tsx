@@ -0,0 +1,111 @@
+/**
+ * CreateDefectPanel Component
+ * Inline form for raising a Bug from a failed run or step
+ *
+ * - Pre-filled by main from the test, the steps up to the failing one,
+ *   and the execution's environments and fix versions
+ * - Warns when the Bug create screen needs fields the app cannot fill
+ * - The created Bug is linked to the Test and added to the run / step defects
+ */
+
+import React, { useEffect, useState } from 'react';
+import api from '../api/electron';
+import type { CreatedDefect, DefectDraft, Priority } from '../../shared/types';
+import { Bug, X, AlertTriangle } from 'lucide-react';
+
+// onCancel and onError should be stable (e.g. useCallback): the draft is reloaded when they change
+interface CreateDefectPanelProps {
+  testRunId: number;
+  stepId?: number;
+  onCreated: (created: CreatedDefect) => void;
+  onCancel: () => void;
+  onError: (error: string) => void;
+}
+
+export const CreateDefectPanel: React.FC<CreateDefectPanelProps> = ({ testRunId, stepId, onCreated, onCancel, onError }) => {
+  const [draft, setDraft] = useState<DefectDraft | null>(null);
+  const [fixVersionsText, setFixVersionsText] = useState('');
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    setDraft(null);
+    api.getDefectDraft(testRunId, stepId)
+      .then(res => {
+        if (!res.success) { onError(res.error?.message || 'Failed to prepare defect'); onCancel(); return; }
+        setDraft(res.data);
+        setFixVersionsText(res.data.fixVersions.join(', '));
+      })
+      .catch((err: any) => { onError(err.message || 'Failed to prepare defect'); onCancel(); });
+    api.getPriorities().then(res => { if (res.success) setPriorities(res.data); });
+  }, [testRunId, stepId, onError, onCancel]);
+
+  const update = (updates: Partial<DefectDraft>) => setDraft(prev => (prev ? { ...prev, ...updates } : prev));
+
+  const handleCreate = async () => {
+    if (!draft) return;
+    setIsCreating(true);
+    try {
+      const fixVersions = fixVersionsText.split(',').map(v => v.trim()).filter(Boolean);
+      const res = await api.createDefect({ ...draft, fixVersions });
+      if (!res.success) { onError(res.error?.message || 'Failed to create defect'); return; }
+      onCreated(res.data);
+    } catch (err: any) {
+      onError(err.message || 'Failed to create defect');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-400';
+
+  return (
+    <div className="bg-red-50/60 border-2 border-red-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Bug className="w-4 h-4 text-red-600" />
+        <h4 className="flex-1 text-sm font-bold text-slate-900">
+          New Bug{draft ? ` for ${draft.testKey}` : ''}
+        </h4>
+        <button type="button" onClick={onCancel} className="text-slate-400 hover:text-slate-700"><X className="w-4 h-4" /></button>
+      </div>
+
+      {!draft ? (
+        <p className="text-sm text-slate-500">Preparing defect…</p>
+      ) : (
+        <>
+          {draft.missingRequired.length > 0 && (
+            <div className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-300 rounded text-xs text-amber-800">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              The Bug create screen requires {draft.missingRequired.join(', ')}, which cannot be filled here — create it in Jira instead.
+            </div>
+          )}
+          <input type="text" value={draft.summary} onChange={e => update({ summary: e.target.value })}
+            placeholder="Summary" className={inputClass} />
+          <textarea value={draft.description} onChange={e => update({ description: e.target.value })} rows={8}
+            className={`${inputClass} font-mono text-xs resize-y`} />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <input type="text" value={draft.environment} onChange={e => update({ environment: e.target.value })}
+              placeholder="Environment" className={inputClass} />
+            <input type="text" value={fixVersionsText} onChange={e => setFixVersionsText(e.target.value)}
+              placeholder="Fix versions (comma separated)" className={inputClass} />
+            <select value={draft.priority || ''} onChange={e => update({ priority: e.target.value || undefined })} className={inputClass}>
+              <option value="">Default priority</option>
+              {priorities.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onCancel} disabled={isCreating}
+              className="px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 disabled:opacity-50 text-sm font-semibold">
+              Cancel
+            </button>
+            <button type="button" onClick={handleCreate}
+              disabled={isCreating || !draft.summary.trim() || draft.missingRequired.length > 0}
+              className="flex items-center gap-1.5 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-semibold">
+              <Bug className="w-4 h-4" /> {isCreating ? 'Creating…' : 'Create Bug'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+/**
+ * CsvImportWizard Component
+ * Loads test cases from a spreadsheet export into the multi-form editor
+ *
+ * 1. Upload - pick a .csv file or paste its contents
+ * 2. Map    - assign each column to a test field (guessed from the header)
+ * 3. Review - every test is validated with TestCaseSchema; only valid ones load
+ *
+ * Rows with an empty summary add another step to the test above them.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CSV_FIELD_LABELS, guessMapping, parseCsv, rowsToTests, type CsvField, type CsvMapping } from '../utils/csv';
+import { TestCaseSchema } from '../utils/validators';
+import type { CreateTestInput } from '../../shared/types';
+import { FileSpreadsheet, ChevronDown, Upload, CheckCircle2, XCircle, ArrowLeft } from 'lucide-react';
+
+interface CsvImportWizardProps {
+  priorities: { id: string; name: string }[];
+  onLoad: (tests: CreateTestInput[]) => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'review';
+
+const FIELD_OPTIONS = Object.keys(CSV_FIELD_LABELS) as CsvField[];
+
+/**
+ * Schema check on the fields TestCaseSchema knows; empty optionals are dropped
+ */
+const schemaErrors = (test: CreateTestInput): string[] => {
+  const candidate = Object.fromEntries(
+    Object.entries(test).filter(([, v]) => v !== '' && v !== undefined)
+  );
+  const parsed = TestCaseSchema.safeParse(candidate);
+  if (parsed.success) return [];
+  return parsed.error.errors.map(e => `${e.path.join('.') || 'test'}: ${e.message}`);
+};
+
+export const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ priorities, onLoad }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvMapping>([]);
+  const [parseError, setParseError] = useState('');
+
+  const headers = rows[0] || [];
+  const dataRows = useMemo(() => rows.slice(1), [rows]);
+
+  const reviewed = useMemo(() => {
+    if (step !== 'review') return [];
+    return rowsToTests(dataRows, mapping, priorities).map(row => ({
+      ...row,
+      errors: [...row.errors, ...schemaErrors(row.test)],
+    }));
+  }, [step, dataRows, mapping, priorities]);
+
+  const validTests = reviewed.filter(r => r.errors.length === 0).map(r => r.test);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setText(await file.text());
+    e.target.value = '';
+  };
+
+  const handleParse = () => {
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      setParseError('Need a header row and at least one data row');
+      return;
+    }
+    setParseError('');
+    setRows(parsed);
+    setMapping(guessMapping(parsed[0]));
+    setStep('map');
+  };
+
+  const setColumnField = (col: number, field: CsvField) =>
+    setMapping(prev => prev.map((f, i) => {
+      if (i === col) return field;
+      // A field maps from one column only
+      return field !== 'ignore' && f === field ? 'ignore' : f;
+    }));
+
+  const handleLoad = () => {
+    onLoad(validTests);
+    setStep('upload');
+    setText('');
+    setFileName('');
+    setRows([]);
+    setIsExpanded(false);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-emerald-50 to-teal-50 rounded-xl border-2 border-emerald-200 shadow-sm overflow-hidden">
+      <button type="button" onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center justify-between hover:bg-emerald-100/50 transition-colors">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center shadow-md">
+            <FileSpreadsheet className="w-4 h-4 text-white" />
+          </div>
+          <div className="text-left">
+            <h3 className="text-sm font-bold text-slate-900">Import from CSV</h3>
+            <p className="text-xs text-slate-600">Map spreadsheet columns to test fields</p>
+          </div>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-slate-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="p-4 pt-0 space-y-3">
+          {step === 'upload' && (
+            <>
+              <label className="flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-emerald-300 rounded-lg bg-white cursor-pointer hover:bg-emerald-50 text-sm font-medium text-emerald-800">
+                <Upload className="w-4 h-4" /> {fileName || 'Choose a .csv file'}
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+              <textarea value={text} onChange={e => setText(e.target.value)} rows={6}
+                placeholder={'…or paste CSV here\nSummary,Priority,Step,Data,Expected Result\nLogin works,High,Open login page,,Form shown\n,,Submit valid credentials,user/pass,Dashboard shown'}
+                className="w-full px-3 py-2 font-mono text-xs border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-400" />
+              {parseError && <p className="text-xs text-red-700">{parseError}</p>}
+              <button type="button" onClick={handleParse} disabled={!text.trim()}
+                className="w-full py-2.5 bg-emerald-600 text-white rounded-lg font-semibold text-sm hover:bg-emerald-700 disabled:opacity-50">
+                Next: Map Columns
+              </button>
+            </>
+          )}
+
+          {step === 'map' && (
+            <>
+              <p className="text-xs text-slate-600">
+                {dataRows.length} data row{dataRows.length !== 1 ? 's' : ''}. Rows without a summary add a step to the test above.
+              </p>
+              <div className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
+                {headers.map((header, col) => (
+                  <div key={col} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-slate-800 truncate">{header || `Column ${col + 1}`}</div>
+                      <div className="text-xs text-slate-500 truncate">{dataRows[0]?.[col] || '—'}</div>
+                    </div>
+                    <select value={mapping[col]} onChange={e => setColumnField(col, e.target.value as CsvField)}
+                      className="px-2 py-1.5 border-2 border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-400">
+                      {FIELD_OPTIONS.map(f => <option key={f} value={f}>{CSV_FIELD_LABELS[f]}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setStep('upload')}
+                  className="px-4 py-2.5 border-2 border-slate-300 rounded-lg text-sm font-semibold text-slate-700 hover:bg-slate-100 flex items-center gap-1">
+                  <ArrowLeft className="w-4 h-4" /> Back
+                </button>
+                <button type="button" onClick={() => setStep('review')} disabled={!mapping.includes('summary')}
+                  className="flex-1 py-2.5 bg-emerald-600 text-white rounded-lg font-semibold text-sm hover:bg-emerald-700 disabled:opacity-50">
+                  {mapping.includes('summary') ? 'Next: Review' : 'Map a Summary column to continue'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100 max-h-80 overflow-y-auto">
+                {reviewed.map(row => (
+                  <div key={row.rowNumber} className="px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      {row.errors.length === 0
+                        ? <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                        : <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />}
+                      <span className="text-xs font-mono text-slate-500">Row {row.rowNumber}</span>
+                      <span className="flex-1 truncate font-medium text-slate-800">{row.test.summary || '(no summary)'}</span>
+                      <span className="text-xs text-slate-500">{row.test.testType} · {row.test.steps.length} step{row.test.steps.length !== 1 ? 's' : ''}</span>
+                    </div>
+                    {row.errors.length > 0 && (
+                      <ul className="mt-1 ml-6 space-y-0.5">
+                        {row.errors.map((err, i) => <li key={i} className="text-xs text-red-700">{err}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setStep('map')}
+                  className="px-4 py-2.5 border-2 border-slate-300 rounded-lg text-sm font-semibold text-slate-700 hover:bg-slate-100 flex items-center gap-1">
+                  <ArrowLeft className="w-4 h-4" /> Back
+                </button>
+                <button type="button" onClick={handleLoad} disabled={validTests.length === 0}
+                  className="flex-1 py-2.5 bg-emerald-600 text-white rounded-lg font-semibold text-sm hover:bg-emerald-700 disabled:opacity-50">
+                  Load {validTests.length} of {reviewed.length} Test{reviewed.length !== 1 ? 's' : ''} into Editor
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
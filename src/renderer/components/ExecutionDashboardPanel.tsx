@@ -0,0 +1,235 @@
+/**
+ * ExecutionDashboardPanel Component
+ * Progress of one or more Test Executions, refreshed on demand
+ *
+ * - Progress bar and counts per status for each execution and in total
+ * - Breakdown per assignee and per component across the loaded executions
+ * - Failing tests with their defects
+ * - pinnedKey (e.g. a just-created execution) is added and loaded automatically
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import api from '../api/electron';
+import { TestRunStatusBadge } from './TestRunStatusBadge';
+import type { DashboardRun, ExecutionDashboard, TestRunStatus } from '../../shared/types';
+import { BarChart3, ChevronDown, RefreshCw, X, Bug } from 'lucide-react';
+
+interface ExecutionDashboardPanelProps {
+  pinnedKey?: string;
+  onError: (error: string) => void;
+  onOpenIssue: (key: string) => void;
+}
+
+const STATUSES: TestRunStatus[] = ['PASS', 'FAIL', 'EXECUTING', 'ABORTED', 'TODO'];
+
+const BAR_CLASSES: Record<TestRunStatus, string> = {
+  PASS: 'bg-green-500',
+  FAIL: 'bg-red-500',
+  EXECUTING: 'bg-blue-500',
+  ABORTED: 'bg-slate-700',
+  TODO: 'bg-slate-200',
+};
+
+type StatusCounts = Record<TestRunStatus, number>;
+
+const countStatuses = (runs: DashboardRun[]): StatusCounts =>
+  STATUSES.reduce((counts, status) => ({ ...counts, [status]: runs.filter(r => r.status === status).length }), {} as StatusCounts);
+
+/**
+ * Status counts per group; a run in several groups (components) counts in each
+ */
+function breakdown(runs: DashboardRun[], groupsOf: (run: DashboardRun) => string[]): [string, StatusCounts][] {
+  const groups = new Map<string, DashboardRun[]>();
+  for (const run of runs) {
+    for (const group of groupsOf(run)) groups.set(group, [...(groups.get(group) || []), run]);
+  }
+  return [...groups.entries()]
+    .map(([group, groupRuns]): [string, StatusCounts] => [group, countStatuses(groupRuns)])
+    .sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+const ProgressBar: React.FC<{ counts: StatusCounts }> = ({ counts }) => {
+  const total = STATUSES.reduce((sum, s) => sum + counts[s], 0);
+  return (
+    <div className="flex h-3 w-full rounded-full overflow-hidden bg-slate-100">
+      {total > 0 && STATUSES.map(status => counts[status] > 0 && (
+        <div key={status} className={BAR_CLASSES[status]} style={{ width: `${(counts[status] / total) * 100}%` }}
+          title={`${status}: ${counts[status]}`} />
+      ))}
+    </div>
+  );
+};
+
+const BreakdownTable: React.FC<{ title: string; rows: [string, StatusCounts][] }> = ({ title, rows }) => (
+  <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+    <h4 className="text-xs font-bold text-slate-600 uppercase tracking-wide">{title}</h4>
+    {rows.length === 0 && <p className="text-xs text-slate-400">No runs</p>}
+    {rows.map(([group, counts]) => (
+      <div key={group} className="grid grid-cols-[8rem_1fr_auto] items-center gap-2 text-xs">
+        <span className="truncate text-slate-700" title={group}>{group}</span>
+        <ProgressBar counts={counts} />
+        <span className="text-slate-500 whitespace-nowrap">
+          {counts.PASS}/{STATUSES.reduce((sum, s) => sum + counts[s], 0)} passed
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export const ExecutionDashboardPanel: React.FC<ExecutionDashboardPanelProps> = ({ pinnedKey, onError, onOpenIssue }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [keyInput, setKeyInput] = useState('');
+  const [dashboards, setDashboards] = useState<ExecutionDashboard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async (keys: string[]) => {
+    setIsLoading(true);
+    try {
+      const results = await Promise.all(keys.map(key => api.getExecutionDashboard(key)));
+      const loaded: ExecutionDashboard[] = [];
+      results.forEach((res, i) => {
+        if (res.success) loaded.push(res.data);
+        else onError(`${keys[i]}: ${res.error?.message || 'Failed to load execution'}`);
+      });
+      // Reloaded executions keep their place; new ones are appended
+      setDashboards(prev => [
+        ...prev.map(d => loaded.find(l => l.key === d.key) || d),
+        ...loaded.filter(l => !prev.some(d => d.key === l.key)),
+      ]);
+    } catch (err: any) {
+      onError(err.message || 'Failed to load execution');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    if (!pinnedKey) return;
+    setIsExpanded(true);
+    load([pinnedKey]);
+  }, [pinnedKey, load]);
+
+  const handleAdd = () => {
+    const keys = [...new Set(keyInput.split(/[\s,]+/).map(k => k.trim().toUpperCase()).filter(Boolean))];
+    if (keys.length === 0) return;
+    setKeyInput('');
+    load(keys);
+  };
+
+  const allRuns = dashboards.flatMap(d => d.runs);
+  const totals = countStatuses(allRuns);
+  const failing = dashboards.flatMap(d => d.runs.filter(r => r.status === 'FAIL').map(run => ({ execution: d.key, run })));
+  const lastLoaded = dashboards.map(d => d.loadedAt).sort().pop();
+
+  return (
+    <div className="bg-gradient-to-br from-slate-50 to-green-50 rounded-xl border-2 border-green-200 shadow-sm overflow-hidden">
+      <button type="button" onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center justify-between hover:bg-green-100/40 transition-colors">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-green-500 to-emerald-600 flex items-center justify-center shadow-md">
+            <BarChart3 className="w-4 h-4 text-white" />
+          </div>
+          <div className="text-left">
+            <h3 className="text-sm font-bold text-slate-900">Execution Dashboard</h3>
+            <p className="text-xs text-slate-600">Progress, breakdowns and failing tests for one or more executions</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {dashboards.length > 0 && (
+            <div className="px-2 py-1 bg-green-100 border border-green-300 rounded text-xs font-medium text-green-700">
+              {totals.PASS}/{allRuns.length} passed
+            </div>
+          )}
+          <ChevronDown className={`w-5 h-5 text-slate-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="p-4 pt-0 space-y-4 animate-fadeIn">
+          <div className="flex gap-2">
+            <input type="text" value={keyInput} onChange={e => setKeyInput(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAdd()}
+              placeholder="MTD-300, MTD-301"
+              className="flex-1 px-3 py-2 font-mono text-sm border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-400" />
+            <button type="button" onClick={handleAdd} disabled={isLoading || !keyInput.trim()}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-semibold text-sm">
+              Add
+            </button>
+            <button type="button" onClick={() => load(dashboards.map(d => d.key))} disabled={isLoading || dashboards.length === 0}
+              className="flex items-center gap-1.5 px-3 py-2 border-2 border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 disabled:opacity-50 font-semibold text-sm">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+            </button>
+          </div>
+          {lastLoaded && <p className="text-xs text-slate-500">Last refreshed {new Date(lastLoaded).toLocaleTimeString()}</p>}
+
+          {dashboards.length > 0 && (
+            <>
+              {/* Per execution and total */}
+              <div className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {[...dashboards.map(d => ({ key: d.key, label: d.summary, counts: countStatuses(d.runs) })),
+                  ...(dashboards.length > 1 ? [{ key: '', label: 'All executions', counts: totals }] : [])
+                ].map(row => {
+                  const total = STATUSES.reduce((sum, s) => sum + row.counts[s], 0);
+                  const done = total - row.counts.TODO - row.counts.EXECUTING;
+                  return (
+                    <div key={row.key || 'total'} className="p-3 space-y-1.5">
+                      <div className="flex items-center gap-2 text-sm">
+                        {row.key && (
+                          <button type="button" onClick={() => onOpenIssue(row.key)}
+                            className="font-mono font-semibold text-green-800 hover:underline">{row.key}</button>
+                        )}
+                        <span className={`flex-1 truncate ${row.key ? 'text-slate-600' : 'font-bold text-slate-900'}`}>{row.label}</span>
+                        <span className="text-xs text-slate-500">{total > 0 ? Math.round((done / total) * 100) : 0}% done</span>
+                        {row.key && (
+                          <button type="button" onClick={() => setDashboards(prev => prev.filter(d => d.key !== row.key))}
+                            className="text-slate-400 hover:text-slate-700"><X className="w-4 h-4" /></button>
+                        )}
+                      </div>
+                      <ProgressBar counts={row.counts} />
+                      <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+                        {STATUSES.map(status => (
+                          <span key={status} className="flex items-center gap-1">
+                            <span className={`w-2 h-2 rounded-full ${BAR_CLASSES[status]}`} />{status} {row.counts[status]}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                <BreakdownTable title="By assignee" rows={breakdown(allRuns, run => [run.assignee || 'Unassigned'])} />
+                <BreakdownTable title="By component"
+                  rows={breakdown(allRuns, run => (run.components.length > 0 ? run.components : ['No component']))} />
+              </div>
+
+              {/* Failing tests */}
+              <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+                <h4 className="text-xs font-bold text-slate-600 uppercase tracking-wide">Failing tests ({failing.length})</h4>
+                {failing.length === 0 && <p className="text-xs text-slate-400">No failed runs</p>}
+                {failing.map(({ execution, run }) => (
+                  <div key={`${execution}-${run.id}`} className="flex flex-wrap items-center gap-2 text-sm">
+                    <TestRunStatusBadge status={run.status} />
+                    <button type="button" onClick={() => onOpenIssue(run.testKey)}
+                      className="font-mono font-semibold text-slate-800 hover:underline">{run.testKey}</button>
+                    <span className="flex-1 min-w-0 truncate text-slate-600">{run.summary}</span>
+                    {dashboards.length > 1 && <span className="text-xs font-mono text-slate-400">{execution}</span>}
+                    {run.defects.length === 0 ? (
+                      <span className="text-xs text-amber-700">No defect</span>
+                    ) : run.defects.map(defect => (
+                      <button key={defect} type="button" onClick={() => onOpenIssue(defect)}
+                        className="flex items-center gap-1 px-2 py-0.5 bg-red-50 border border-red-200 rounded text-xs font-mono text-red-800 hover:bg-red-100">
+                        <Bug className="w-3 h-3" />{defect}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+/**
+ * FeatureImportPanel Component
+ * Drafts manual tests from a Gherkin .feature file for review in the editor
+ *
+ * - File is picked and parsed in the main process
+ * - Scenarios can be deselected before loading
+ * - Scenario Outlines become one test per Examples row, or one test with
+ *   the Examples as a dataset table in the description
+ */
+
+import React, { useMemo, useState } from 'react';
+import api from '../api/electron';
+import { featureToTests, type OutlineMode } from '../utils/featureDrafts';
+import type { CreateTestInput, FeatureFileResult } from '../../shared/types';
+import { FileCode, ChevronDown, Upload, Table } from 'lucide-react';
+
+interface FeatureImportPanelProps {
+  onLoad: (tests: CreateTestInput[]) => void;
+  onError: (error: string) => void;
+}
+
+export const FeatureImportPanel: React.FC<FeatureImportPanelProps> = ({ onLoad, onError }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [file, setFile] = useState<FeatureFileResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [outlineMode, setOutlineMode] = useState<OutlineMode>('perRow');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const scenarios = useMemo(() => file?.feature.scenarios || [], [file]);
+  const hasOutlines = scenarios.some(s => s.outline && s.examples.length > 0);
+
+  const drafts = useMemo(() => {
+    if (!file) return [];
+    return featureToTests(file.feature, scenarios.filter((_, i) => selected.has(i)), outlineMode);
+  }, [file, scenarios, selected, outlineMode]);
+
+  const handleSelectFile = async () => {
+    setIsLoading(true);
+    try {
+      const res = await api.selectFeatureFile();
+      if (!res.success) { onError(res.error.message); return; }
+      if (!res.data) return; // Dialog cancelled
+      setFile(res.data);
+      setSelected(new Set(res.data.feature.scenarios.map((_, i) => i)));
+    } catch (err: any) {
+      onError(err.message || 'Failed to read feature file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (index: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    return next;
+  });
+
+  const handleLoad = () => {
+    onLoad(drafts);
+    setFile(null);
+    setIsExpanded(false);
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-cyan-50 to-sky-50 rounded-xl border-2 border-cyan-200 shadow-sm overflow-hidden">
+      <button type="button" onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center justify-between hover:bg-cyan-100/50 transition-colors">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-cyan-500 to-sky-600 flex items-center justify-center shadow-md">
+            <FileCode className="w-4 h-4 text-white" />
+          </div>
+          <div className="text-left">
+            <h3 className="text-sm font-bold text-slate-900">Import from .feature</h3>
+            <p className="text-xs text-slate-600">Given → data, When → action, Then → expected result</p>
+          </div>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-slate-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="p-4 pt-0 space-y-3">
+          <button type="button" onClick={handleSelectFile} disabled={isLoading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-cyan-300 rounded-lg bg-white hover:bg-cyan-50 text-sm font-medium text-cyan-800 disabled:opacity-50">
+            <Upload className="w-4 h-4" /> {isLoading ? 'Reading…' : file ? file.fileName : 'Choose a .feature file'}
+          </button>
+
+          {file && (
+            <>
+              <div className="text-sm">
+                <span className="font-semibold text-slate-800">Feature: {file.feature.name || '(unnamed)'}</span>
+                {file.feature.background.length > 0 && (
+                  <span className="ml-2 text-xs text-slate-500">Background: {file.feature.background.length} step(s)</span>
+                )}
+              </div>
+
+              <div className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                {scenarios.length === 0 ? (
+                  <div className="px-3 py-2 text-sm text-slate-500">No scenarios in this feature</div>
+                ) : scenarios.map((scenario, i) => (
+                  <label key={scenario.line} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                    <input type="checkbox" checked={selected.has(i)} onChange={() => toggle(i)} className="w-4 h-4" />
+                    <span className="text-xs font-mono text-slate-400">L{scenario.line}</span>
+                    <span className="flex-1 truncate text-slate-800">{scenario.name}</span>
+                    {scenario.outline && (
+                      <span className="flex items-center gap-1 px-1.5 py-0.5 bg-cyan-100 text-cyan-800 rounded text-xs">
+                        <Table className="w-3 h-3" />
+                        {scenario.examples.reduce((n, e) => n + e.rows.length, 0)} rows
+                      </span>
+                    )}
+                    <span className="text-xs text-slate-500">{scenario.steps.length} steps</span>
+                  </label>
+                ))}
+              </div>
+
+              {hasOutlines && (
+                <div className="flex gap-4 text-sm">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={outlineMode === 'perRow'} onChange={() => setOutlineMode('perRow')} className="w-4 h-4" />
+                    One test per Examples row
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={outlineMode === 'dataset'} onChange={() => setOutlineMode('dataset')} className="w-4 h-4" />
+                    One test with dataset
+                  </label>
+                </div>
+              )}
+
+              <button type="button" onClick={handleLoad} disabled={drafts.length === 0}
+                className="w-full py-2.5 bg-cyan-600 text-white rounded-lg font-semibold text-sm hover:bg-cyan-700 disabled:opacity-50">
+                Open {drafts.length} Draft{drafts.length !== 1 ? 's' : ''} in Editor
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
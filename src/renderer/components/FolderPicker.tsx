@@ -0,0 +1,167 @@
+/**
+ * FolderPicker Component
+ * Choose a folder of the project's Xray Test Repository
+ *
+ * - Lazily loads the folder tree the first time it is opened
+ * - Folders are identified by path; the root is the empty string
+ * - New subfolders can be created under the highlighted folder
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import api from '../api/electron';
+import type { TestRepositoryFolder } from '../../shared/types';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, FolderPlus, RefreshCw, X } from 'lucide-react';
+
+interface FolderPickerProps {
+  value: string;
+  onChange: (path: string) => void;
+  label?: string;
+}
+
+export const FolderPicker: React.FC<FolderPickerProps> = ({
+  value,
+  onChange,
+  label = 'Repository Folder',
+}) => {
+  const [root, setRoot] = useState<TestRepositoryFolder | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set(['/']));
+  const [newName, setNewName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await api.getTestRepositoryFolders();
+      if (res.success) setRoot(res.data);
+      else setError(res.error.message);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load folders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Loads on open; after a failure, closing and reopening tries again
+  useEffect(() => {
+    if (isOpen && !root) load();
+  }, [isOpen, root, load]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, []);
+
+  const toggle = (path: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(path)) next.delete(path); else next.add(path);
+    return next;
+  });
+
+  const select = (folder: TestRepositoryFolder) => {
+    onChange(folder.id === -1 ? '' : folder.path);
+    setIsOpen(false);
+  };
+
+  const createFolder = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    const parentPath = value || '/';
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await api.createTestRepositoryFolder(parentPath, name);
+      if (!res.success) { setError(res.error.message); return; }
+      setNewName('');
+      setExpanded(prev => new Set(prev).add(parentPath));
+      onChange(res.data.path);
+      const tree = await api.getTestRepositoryFolders();
+      if (tree.success) setRoot(tree.data);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to create folder');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderFolder = (folder: TestRepositoryFolder, depth: number): React.ReactNode => {
+    const isExpanded = expanded.has(folder.path);
+    const isSelected = (folder.id === -1 ? '' : folder.path) === value;
+    return (
+      <div key={folder.path}>
+        <div className={`flex items-center gap-1 pr-3 py-1.5 text-sm cursor-pointer ${isSelected ? 'bg-blue-100 text-blue-900' : 'hover:bg-slate-50'}`}
+          style={{ paddingLeft: `${8 + depth * 16}px` }}>
+          {folder.folders.length > 0 ? (
+            <button type="button" onClick={() => toggle(folder.path)} className="text-slate-500 hover:text-slate-800">
+              {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            </button>
+          ) : <span className="w-4" />}
+          <button type="button" onClick={() => select(folder)} className="flex-1 flex items-center gap-1.5 text-left">
+            {isSelected ? <FolderOpen className="w-4 h-4 text-blue-600" /> : <Folder className="w-4 h-4 text-slate-500" />}
+            <span className="truncate">{folder.id === -1 ? 'Test Repository (root)' : folder.name}</span>
+            <span className="ml-auto text-xs text-slate-400">{folder.testsCount}</span>
+          </button>
+        </div>
+        {isExpanded && folder.folders.map(child => renderFolder(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div ref={containerRef}>
+      <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+        <Folder className="w-4 h-4 inline mr-1 text-slate-500" />{label}
+      </label>
+
+      <div className="relative">
+        <div className="flex gap-2">
+          <button type="button" onClick={() => setIsOpen(o => !o)}
+            className="flex-1 flex items-center justify-between px-4 py-2.5 border-2 border-slate-300 rounded-lg bg-white text-left focus:outline-none focus:ring-2 focus:ring-blue-400">
+            <span className={value ? 'font-mono text-slate-900' : 'text-slate-500'}>{value || 'Root (no folder)'}</span>
+            <ChevronDown className="w-4 h-4 text-slate-400" />
+          </button>
+          {value && (
+            <button type="button" onClick={() => onChange('')} title="Clear folder"
+              className="px-3 border-2 border-slate-300 rounded-lg text-slate-500 hover:text-red-600 hover:border-red-300">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        {isOpen && (
+          <div className="absolute z-10 mt-1 w-full bg-white border-2 border-slate-200 rounded-lg shadow-lg">
+            <div className="max-h-64 overflow-y-auto py-1">
+              {isLoading && !root ? (
+                <div className="px-3 py-2 text-sm text-slate-500">Loading folders…</div>
+              ) : root ? renderFolder(root, 0) : null}
+            </div>
+
+            {error && <div className="px-3 py-2 text-xs text-red-700 border-t border-slate-200">{error}</div>}
+
+            <div className="flex items-center gap-2 p-2 border-t border-slate-200 bg-slate-50">
+              <input type="text" value={newName} onChange={e => setNewName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); createFolder(); } }}
+                placeholder={`New folder in ${value || '/'}`}
+                className="flex-1 px-2 py-1.5 text-sm border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400" />
+              <button type="button" onClick={createFolder} disabled={isLoading || !newName.trim()} title="Create folder"
+                className="p-1.5 text-blue-700 hover:bg-blue-100 rounded disabled:opacity-40">
+                <FolderPlus className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={load} disabled={isLoading} title="Reload folders"
+                className="p-1.5 text-slate-600 hover:bg-slate-200 rounded disabled:opacity-40">
+                <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+/**
+ * GherkinEditor Component
+ * Editor for Cucumber scenario bodies
+ *
+ * Features:
+ * - Keyword, tag, table, doc string and comment highlighting
+ * - Basic syntax validation with line numbers (see utils/gherkin)
+ * - Plain textarea underneath, so copy/paste and undo behave normally
+ */
+
+import React, { useMemo, useRef } from 'react';
+import { parseGherkinLines, validateGherkin, type GherkinLine } from '../utils/gherkin';
+import type { CucumberScenarioType } from '../../shared/types';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface GherkinEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  scenarioType: CucumberScenarioType;
+  placeholder?: string;
+  rows?: number;
+}
+
+const LINE_CLASSES: Record<GherkinLine['kind'], string> = {
+  step: 'text-slate-800',
+  examples: 'text-slate-800',
+  table: 'text-teal-700',
+  docstring: 'text-amber-700',
+  tag: 'text-cyan-700',
+  comment: 'text-slate-400 italic',
+  blank: '',
+  text: 'text-red-600',
+};
+
+const renderLine = (line: GherkinLine) => {
+  if ((line.kind === 'step' || line.kind === 'examples') && line.keyword) {
+    const start = line.text.indexOf(line.keyword);
+    return (
+      <>
+        {line.text.slice(0, start)}
+        <span className="font-bold text-purple-700">{line.keyword}</span>
+        {line.text.slice(start + line.keyword.length)}
+      </>
+    );
+  }
+  return line.text;
+};
+
+export const GherkinEditor: React.FC<GherkinEditorProps> = ({
+  value,
+  onChange,
+  scenarioType,
+  placeholder = 'Given …\nWhen …\nThen …',
+  rows = 8,
+}) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const lines = useMemo(() => parseGherkinLines(value), [value]);
+  const issues = useMemo(() => (value.trim() ? validateGherkin(value, scenarioType) : []), [value, scenarioType]);
+
+  // Keep the highlight layer aligned with the textarea
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  const sharedClasses = 'w-full px-4 py-2.5 font-mono text-sm leading-6 whitespace-pre';
+
+  return (
+    <div className="space-y-2">
+      <div className="relative border-2 border-slate-300 rounded-lg focus-within:ring-2 focus-within:ring-purple-400 bg-white">
+        <pre ref={highlightRef} aria-hidden
+          className={`${sharedClasses} absolute inset-0 m-0 overflow-hidden pointer-events-none`}>
+          {lines.map((line, i) => (
+            <React.Fragment key={i}>
+              <span className={LINE_CLASSES[line.kind]}>{renderLine(line)}</span>{'\n'}
+            </React.Fragment>
+          ))}
+        </pre>
+        <textarea value={value} onChange={e => onChange(e.target.value)} onScroll={syncScroll}
+          placeholder={placeholder} rows={rows} spellCheck={false}
+          className={`${sharedClasses} relative block bg-transparent text-transparent caret-slate-900 resize-y focus:outline-none overflow-auto`} />
+      </div>
+
+      {value.trim() && (
+        issues.length === 0 ? (
+          <p className="flex items-center gap-1.5 text-xs text-green-700">
+            <CheckCircle2 className="w-3.5 h-3.5" /> Gherkin looks valid
+          </p>
+        ) : (
+          <ul className="space-y-0.5">
+            {issues.map((issue, i) => (
+              <li key={i} className="flex items-center gap-1.5 text-xs text-red-700">
+                <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="font-mono">L{issue.line}</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
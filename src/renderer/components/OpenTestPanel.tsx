@@ -0,0 +1,68 @@
+/**
+ * OpenTestPanel Component
+ * Loads an existing Xray Test (fields + steps) into the editor
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import type { ExistingTest } from '../../shared/types';
+import { FolderOpen, ChevronDown } from 'lucide-react';
+
+interface OpenTestPanelProps {
+  onOpen: (existing: ExistingTest) => void;
+  onError: (error: string) => void;
+  disabled?: boolean;
+}
+
+export const OpenTestPanel: React.FC<OpenTestPanelProps> = ({ onOpen, onError, disabled }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [testKey, setTestKey] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleOpen = async () => {
+    if (!testKey.trim()) return;
+    setIsLoading(true);
+    try {
+      const res = await api.getTestForEdit(testKey);
+      if (!res.success) { onError(res.error.message); return; }
+      onOpen(res.data);
+      setTestKey('');
+      setIsExpanded(false);
+    } catch (err: any) {
+      onError(err.message || 'Failed to load test');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-xl border-2 border-amber-200 shadow-sm overflow-hidden">
+      <button type="button" onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center justify-between hover:bg-amber-100/50 transition-colors">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-md">
+            <FolderOpen className="w-4 h-4 text-white" />
+          </div>
+          <div className="text-left">
+            <h3 className="text-sm font-bold text-slate-900">Open Existing Test</h3>
+            <p className="text-xs text-slate-600">Edit fields and steps of a Test already in Jira</p>
+          </div>
+        </div>
+        <ChevronDown className={`w-5 h-5 text-slate-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="p-4 pt-0 flex gap-2">
+          <input type="text" value={testKey} onChange={e => setTestKey(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleOpen()}
+            placeholder="MTD-123"
+            className="flex-1 px-4 py-2.5 border-2 border-slate-300 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-amber-400" />
+          <button type="button" onClick={handleOpen} disabled={disabled || isLoading || !testKey.trim()}
+            className="px-5 py-2.5 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 font-semibold">
+            {isLoading ? 'Loading…' : 'Open'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
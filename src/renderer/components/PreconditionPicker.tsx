@@ -0,0 +1,116 @@
+/**
+ * PreconditionPicker Component
+ * Search and select reusable Pre-Conditions from the project
+ *
+ * - Searches by key or summary as the user types (debounced)
+ * - Selected Pre-Conditions show as removable chips
+ * - Already-selected keys are hidden from the results
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import api from '../api/electron';
+import type { Precondition } from '../../shared/types';
+import { Search, ShieldCheck, X } from 'lucide-react';
+
+interface PreconditionPickerProps {
+  selected: Precondition[];
+  onChange: (selected: Precondition[]) => void;
+  onError: (error: string) => void;
+  label?: string;
+}
+
+export const PreconditionPicker: React.FC<PreconditionPickerProps> = ({
+  selected,
+  onChange,
+  onError,
+  label = 'Pre-Conditions',
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Precondition[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const id = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const res = await api.searchPreconditions(query);
+        if (res.success) setResults(res.data);
+        else { setResults([]); onError(res.error?.message || 'Failed to search Pre-Conditions'); }
+      } catch (err: any) {
+        setResults([]);
+        onError(err.message || 'Failed to search Pre-Conditions');
+      }
+      finally { setIsSearching(false); }
+    }, 300);
+    return () => clearTimeout(id);
+  }, [query, isOpen, onError]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, []);
+
+  const add = (precondition: Precondition) => {
+    onChange([...selected, precondition]);
+    setQuery('');
+  };
+
+  const remove = (key: string) => onChange(selected.filter(p => p.key !== key));
+
+  const visible = results.filter(r => !selected.some(s => s.key === r.key));
+
+  return (
+    <div ref={containerRef}>
+      <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+        <ShieldCheck className="w-4 h-4 inline mr-1 text-slate-500" />{label}
+      </label>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {selected.map(p => (
+            <span key={p.key} className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-amber-100 text-amber-900 border border-amber-300 rounded-full text-sm">
+              <span className="font-mono font-semibold">{p.key}</span>
+              <span className="max-w-[200px] truncate">{p.summary}</span>
+              <button type="button" onClick={() => remove(p.key)} className="hover:text-red-600">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input type="text" value={query} onChange={e => setQuery(e.target.value)} onFocus={() => setIsOpen(true)}
+          placeholder="Search by key or summary…"
+          className="w-full pl-9 pr-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-400" />
+
+        {isOpen && (
+          <div className="absolute z-10 mt-1 w-full bg-white border-2 border-slate-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+            {isSearching && visible.length === 0 ? (
+              <div className="px-3 py-2 text-sm text-slate-500">Searching…</div>
+            ) : visible.length === 0 ? (
+              <div className="px-3 py-2 text-sm text-slate-500">No Pre-Conditions found</div>
+            ) : visible.map(p => (
+              <button key={p.key} type="button" onClick={() => add(p)}
+                className="w-full text-left px-3 py-2 hover:bg-amber-50 flex items-center gap-2 text-sm">
+                <span className="font-mono font-semibold text-amber-800">{p.key}</span>
+                <span className="flex-1 truncate text-slate-800">{p.summary}</span>
+                {p.preconditionType && (
+                  <span className="px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded text-xs">{p.preconditionType}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -184,8 +184,25 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ title, currentTest,
           />
         )}
 
-        {/* Steps count - for test cases */}
-        {'steps' in currentTest && currentTest.steps && currentTest.steps.length > 0 && (
+        {/* Cucumber scenario type / Generic definition */}
+        {'testType' in currentTest && currentTest.testType === 'Cucumber' && (
+          <InfoRow 
+            label="Scenario" 
+            value={`${currentTest.scenarioType || 'Scenario'} · ${(currentTest.gherkin || '').split('\n').filter(l => l.trim()).length} line(s)`}
+            icon={<ListChecks className="w-3.5 h-3.5" />}
+          />
+        )}
+        {'testType' in currentTest && currentTest.testType === 'Generic' && (
+          <InfoRow 
+            label="Definition" 
+            value={currentTest.definition}
+            icon={<ListChecks className="w-3.5 h-3.5" />}
+          />
+        )}
+
+        {/* Steps count - for test cases with manual steps */}
+        {'steps' in currentTest && currentTest.steps && currentTest.steps.length > 0
+          && currentTest.testType !== 'Cucumber' && currentTest.testType !== 'Generic' && (
           <div className="p-3 bg-gradient-to-br from-purple-50 to-pink-50 border-2 border-purple-200 rounded-lg">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -0,0 +1,309 @@
+/**
+ * ResultsImportPanel Component
+ * Imports automated results (JUnit XML, Cucumber/Karate JSON) into Xray
+ *
+ * - New executions reuse the Test Execution form fields (summary, versions, labels)
+ * - Testcases map to Tests by @KEY tag, by summary, or by creating Automated tests
+ * - Cucumber scenarios map by @KEY tag and are previewed before anything is sent
+ * - Shows how every testcase was mapped after the import
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import { IssueValidator } from './IssueValidator';
+import type {
+  CreateTestExecutionInput,
+  CucumberPreviewResult,
+  ImportedTestMapping,
+  JUnitMappingStrategy,
+  JUnitParseResult,
+  StoryValidationResult,
+} from '../../shared/types';
+import { Upload, ChevronDown, FileCode, CheckCircle2, XCircle, MinusCircle } from 'lucide-react';
+
+interface ResultsImportPanelProps {
+  execution: CreateTestExecutionInput;
+  onImported: (executionKey: string, summary: string) => void;
+  onError: (error: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const SOURCE_LABELS: Record<ImportedTestMapping['source'], string> = {
+  tag: 'Tag',
+  name: 'Summary',
+  created: 'Created',
+  unmatched: 'Skipped',
+};
+
+export const ResultsImportPanel: React.FC<ResultsImportPanelProps> = ({
+  execution,
+  onImported,
+  onError,
+  onSuccess,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [format, setFormat] = useState<'junit' | 'cucumber'>('junit');
+  const [cucumberReport, setCucumberReport] = useState<CucumberPreviewResult | null>(null);
+  const [includeUnmatched, setIncludeUnmatched] = useState(false);
+  const [report, setReport] = useState<JUnitParseResult | null>(null);
+  const [target, setTarget] = useState<'new' | 'existing'>('new');
+  const [existingKey, setExistingKey] = useState('');
+  const [validatedExecution, setValidatedExecution] = useState<StoryValidationResult | null>(null);
+  const [strategy, setStrategy] = useState<JUnitMappingStrategy>({ byTag: true, byName: true, createMissing: false });
+  const [isImporting, setIsImporting] = useState(false);
+  const [mappings, setMappings] = useState<ImportedTestMapping[]>([]);
+
+  const handleSelectFile = async () => {
+    const res = await api.selectJUnitFile();
+    if (!res.success) { onError(res.error?.message || 'Failed to read report'); return; }
+    if (!res.data) return;
+    setReport(res.data);
+    setMappings([]);
+    onSuccess(`📄 Loaded ${res.data.testCases.length} testcase(s) from ${res.data.fileName}`);
+  };
+
+  const handleSelectCucumberFile = async () => {
+    const res = await api.selectCucumberFile();
+    if (!res.success) { onError(res.error?.message || 'Failed to read report'); return; }
+    if (!res.data) return;
+    setCucumberReport(res.data);
+    setMappings([]);
+    onSuccess(`📄 Loaded ${res.data.scenarios.length} scenario(s) from ${res.data.fileName}`);
+  };
+
+  const handleFormatChange = (next: 'junit' | 'cucumber') => {
+    setFormat(next);
+    setMappings([]);
+    // Xray's Cucumber import always creates a new execution
+    if (next === 'cucumber') setTarget('new');
+  };
+
+  const canImport = format === 'cucumber'
+    ? !!cucumberReport && !!execution.summary.trim()
+    : !!report && (target === 'new' ? !!execution.summary.trim() : !!validatedExecution);
+
+  const handleCucumberImport = async () => {
+    if (!cucumberReport) return;
+    setIsImporting(true);
+    try {
+      const res = await api.importCucumberResults({ filePath: cucumberReport.filePath, execution, includeUnmatched });
+      if (!res.success) { onError(res.error?.message || 'Import failed'); return; }
+
+      setMappings(res.data.mappings);
+      const skipped = res.data.mappings.length - res.data.importedCount;
+      onImported(res.data.executionKey, execution.summary);
+      onSuccess(
+        `✅ Imported ${res.data.importedCount} scenario(s) into ${res.data.executionKey}` +
+        (skipped > 0 ? ` (${skipped} unmatched scenario${skipped > 1 ? 's' : ''} skipped)` : '')
+      );
+    } catch (err: any) { onError(err.message || 'Import failed'); }
+    finally { setIsImporting(false); }
+  };
+
+  const handleImport = async () => {
+    if (format === 'cucumber') { await handleCucumberImport(); return; }
+    if (!report) return;
+    setIsImporting(true);
+    try {
+      const res = await api.importJUnitResults({
+        filePath: report.filePath,
+        strategy,
+        ...(target === 'existing'
+          ? { testExecKey: validatedExecution?.key }
+          : { execution }),
+      });
+      if (!res.success) { onError(res.error?.message || 'Import failed'); return; }
+
+      setMappings(res.data.mappings);
+      const skipped = res.data.mappings.length - res.data.importedCount;
+      const failed = res.data.mappings.filter(m => m.error).length;
+      onImported(res.data.executionKey, target === 'new' ? execution.summary : validatedExecution?.summary || '');
+      onSuccess(
+        `✅ Imported ${res.data.importedCount} result(s) into ${res.data.executionKey}` +
+        (skipped > 0 ? ` (${skipped} unmatched testcase${skipped > 1 ? 's' : ''} skipped)` : '') +
+        (failed > 0 ? ` ⚠️ ${failed} Test${failed > 1 ? 's' : ''} could not be created` : '')
+      );
+    } catch (err: any) { onError(err.message || 'Import failed'); }
+    finally { setIsImporting(false); }
+  };
+
+  const counts = report
+    ? {
+        passed: report.testCases.filter(t => t.status === 'passed').length,
+        failed: report.testCases.filter(t => t.status === 'failed' || t.status === 'error').length,
+        skipped: report.testCases.filter(t => t.status === 'skipped').length,
+        tagged: report.testCases.filter(t => t.testKey).length,
+      }
+    : null;
+
+  const matchedScenarios = cucumberReport?.scenarios.filter(s => s.testKey).length ?? 0;
+
+  return (
+    <div className="bg-gradient-to-br from-slate-50 to-green-50 rounded-xl border-2 border-green-200 shadow-sm overflow-hidden">
+      <button type="button" onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full p-4 flex items-center justify-between hover:bg-green-100/40 transition-colors">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-green-500 to-teal-600 flex items-center justify-center shadow-md">
+            <Upload className="w-4 h-4 text-white" />
+          </div>
+          <div className="text-left">
+            <h3 className="text-sm font-bold text-slate-900">Import Automated Results</h3>
+            <p className="text-xs text-slate-600">Push a CI JUnit or Cucumber/Karate report into Xray</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="px-2 py-1 bg-green-100 border border-green-300 rounded text-xs font-medium text-green-700">Optional</div>
+          <ChevronDown className={`w-5 h-5 text-slate-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="p-4 pt-0 space-y-4 animate-fadeIn">
+          {/* Format */}
+          <div className="flex gap-2">
+            {(['junit', 'cucumber'] as const).map(f => (
+              <button key={f} type="button" onClick={() => handleFormatChange(f)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-semibold border ${
+                  format === f ? 'bg-green-600 text-white border-green-600' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50'
+                }`}>
+                {f === 'junit' ? 'JUnit XML' : 'Cucumber / Karate JSON'}
+              </button>
+            ))}
+          </div>
+
+          {/* File */}
+          {format === 'cucumber' ? (
+            <div className="flex items-center gap-3">
+              <button type="button" onClick={handleSelectCucumberFile}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-semibold text-sm">
+                <FileCode className="w-4 h-4" /> Choose Cucumber JSON…
+              </button>
+              {cucumberReport && (
+                <div className="text-sm text-slate-700">
+                  <span className="font-semibold">{cucumberReport.fileName}</span>
+                  <span className="ml-2 text-blue-700">{matchedScenarios} matched</span>
+                  <span className="ml-2 text-amber-700">{cucumberReport.scenarios.length - matchedScenarios} unmatched</span>
+                </div>
+              )}
+            </div>
+          ) : (
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={handleSelectFile}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-semibold text-sm">
+              <FileCode className="w-4 h-4" /> Choose JUnit XML…
+            </button>
+            {report && counts && (
+              <div className="text-sm text-slate-700">
+                <span className="font-semibold">{report.fileName}</span>
+                <span className="ml-2 text-green-700">{counts.passed} passed</span>
+                <span className="ml-2 text-red-700">{counts.failed} failed</span>
+                <span className="ml-2 text-slate-500">{counts.skipped} skipped</span>
+                <span className="ml-2 text-blue-700">{counts.tagged} tagged</span>
+              </div>
+            )}
+          </div>
+          )}
+
+          {/* Scenario preview */}
+          {format === 'cucumber' && cucumberReport && mappings.length === 0 && (
+            <div className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-64 overflow-y-auto">
+              {cucumberReport.scenarios.map(s => (
+                <div key={s.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  {s.status === 'passed'
+                    ? <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                    : s.status === 'skipped'
+                    ? <MinusCircle className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    : <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />}
+                  <span className="flex-1 truncate text-slate-800" title={s.feature}>{s.name || s.keyword}</span>
+                  <span className="font-mono text-xs text-slate-700">{s.testKey || '—'}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-semibold ${
+                    s.testKey ? 'bg-slate-100 text-slate-700' : 'bg-amber-100 text-amber-800'
+                  }`}>{s.testKey ? 'Tag' : includeUnmatched ? 'New test' : 'Skipped'}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Target */}
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 uppercase tracking-wide mb-2">Target Execution</label>
+            {format === 'cucumber' ? (
+              <p className="text-sm text-slate-700 mb-2">New — uses the summary, fix versions and labels below</p>
+            ) : (
+            <div className="flex gap-4 mb-2">
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input type="radio" checked={target === 'new'} onChange={() => setTarget('new')} className="w-4 h-4 text-green-600" />
+                New — uses the summary, fix versions and labels below
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer text-sm">
+                <input type="radio" checked={target === 'existing'} onChange={() => setTarget('existing')} className="w-4 h-4 text-green-600" />
+                Existing execution
+              </label>
+            </div>
+            )}
+            {target === 'existing' && (
+              <IssueValidator value={existingKey} onChange={setExistingKey}
+                onValidation={setValidatedExecution} placeholder="MTD-400" allowedTypes={['Test Execution']} />
+            )}
+            {target === 'new' && !execution.summary.trim() && (
+              <p className="text-xs text-amber-700">Fill in the execution summary below first.</p>
+            )}
+          </div>
+
+          {/* Strategy */}
+          {format === 'cucumber' ? (
+            <label className="flex items-center gap-2 cursor-pointer text-sm">
+              <input type="checkbox" checked={includeUnmatched} onChange={e => setIncludeUnmatched(e.target.checked)} className="w-4 h-4" />
+              Include unmatched scenarios (Xray creates new Cucumber tests for them)
+            </label>
+          ) : (
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 uppercase tracking-wide mb-2">Map testcases to Tests</label>
+            <div className="space-y-1.5 text-sm">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={strategy.byTag} onChange={e => setStrategy({ ...strategy, byTag: e.target.checked })} className="w-4 h-4" />
+                By <code className="px-1 bg-slate-100 rounded">@MTD-123</code> tag in the testcase name
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={strategy.byName} onChange={e => setStrategy({ ...strategy, byName: e.target.checked })} className="w-4 h-4" />
+                By testcase name matching an existing Test summary
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={strategy.createMissing} onChange={e => setStrategy({ ...strategy, createMissing: e.target.checked })} className="w-4 h-4" />
+                Create Automated tests for anything still unmatched
+              </label>
+            </div>
+          </div>
+          )}
+
+          <button type="button" onClick={handleImport} disabled={!canImport || isImporting}
+            className="w-full bg-gradient-to-r from-green-600 to-teal-600 text-white py-3 px-4 rounded-lg hover:from-green-700 hover:to-teal-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold flex items-center justify-center gap-2 shadow-md">
+            {isImporting
+              ? <><div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />Importing…</>
+              : <><Upload className="w-5 h-5" />Import Results</>}
+          </button>
+
+          {mappings.length > 0 && (
+            <div className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-64 overflow-y-auto">
+              {mappings.map((m, i) => (
+                <div key={i} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  {m.status === 'passed'
+                    ? <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                    : m.status === 'skipped'
+                    ? <MinusCircle className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    : <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />}
+                  <span className="flex-1 truncate text-slate-800">{m.name}</span>
+                  {m.error && <span className="text-xs text-red-700 truncate max-w-xs" title={m.error}>{m.error}</span>}
+                  <span className="font-mono text-xs text-slate-700">{m.testKey || '—'}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs font-semibold ${
+                    m.source === 'unmatched' ? 'bg-amber-100 text-amber-800' : 'bg-slate-100 text-slate-700'
+                  }`}>{SOURCE_LABELS[m.source]}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+/**
+ * SavedSearchPicker Component
+ * Chooses a saved JQL search and adds every matching Test in one click
+ *
+ * - Searches are stored locally; Jira favourite filters can be imported into them
+ * - "Add all" resolves the search to keys (up to the select-all limit)
+ * - With currentJql the query being browsed can be saved under a name
+ */
+
+import React, { useEffect, useState } from 'react';
+import api from '../api/electron';
+import type { SavedSearch } from '../../shared/types';
+import { Bookmark, BookmarkPlus, Star, Play, Plus, Trash2, X } from 'lucide-react';
+
+interface SavedSearchPickerProps {
+  selectedKeys: string[];               // Already chosen by the parent
+  onAdd: (keys: string[]) => void;
+  onError: (error: string) => void;
+  currentJql?: string;                  // Enables "Save current"
+  onRun?: (jql: string) => void;        // Shows the search's results instead of adding them
+}
+
+export const SavedSearchPicker: React.FC<SavedSearchPickerProps> = ({
+  selectedKeys,
+  onAdd,
+  onError,
+  currentJql,
+  onRun,
+}) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [saveName, setSaveName] = useState<string | null>(null);  // null = not saving
+  const [isBusy, setIsBusy] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  useEffect(() => {
+    api.getSavedSearches()
+      .then(res => (res.success ? setSearches(res.data) : onError(res.error.message)))
+      .catch((err: any) => onError(err.message || 'Failed to load saved searches'));
+  }, [onError]);
+
+  const selected = searches.find(s => s.id === selectedId);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsBusy(true);
+    setNotice('');
+    try {
+      await action();
+    } catch (err: any) {
+      onError(err.message || fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAddAll = () => selected && run(async () => {
+    const res = await api.searchTestKeys(selected.jql);
+    if (!res.success) { onError(res.error.message); return; }
+    const keys = res.data.filter(k => !selectedKeys.includes(k));
+    onAdd(keys);
+    setNotice(`Added ${keys.length} test(s) from "${selected.name}"`);
+  }, 'Search failed');
+
+  const handleSave = () => run(async () => {
+    const res = await api.saveSearch({ name: saveName || '', jql: currentJql || '' });
+    if (!res.success) { onError(res.error.message); return; }
+    setSearches(prev => [...prev, res.data]);
+    setSelectedId(res.data.id);
+    setSaveName(null);
+  }, 'Failed to save search');
+
+  const handleDelete = () => selected && run(async () => {
+    const res = await api.deleteSavedSearch(selected.id);
+    if (!res.success) { onError(res.error.message); return; }
+    setSearches(prev => prev.filter(s => s.id !== selected.id));
+    setSelectedId('');
+  }, 'Failed to delete search');
+
+  const handleImportFavourites = () => run(async () => {
+    const filters = await api.getFavouriteFilters();
+    if (!filters.success) { onError(filters.error.message); return; }
+    if (filters.data.length === 0) { setNotice('You have no favourite filters in Jira'); return; }
+    const res = await api.importFavouriteFilters(filters.data);
+    if (!res.success) { onError(res.error.message); return; }
+    setSearches(res.data);
+    setNotice(`Imported ${filters.data.length} favourite filter(s)`);
+  }, 'Failed to import favourite filters');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Bookmark className="w-4 h-4 text-slate-500" />
+        <select value={selectedId} onChange={e => setSelectedId(e.target.value)}
+          className="flex-1 min-w-[12rem] px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400">
+          <option value="">{searches.length === 0 ? 'No saved searches' : 'Saved searches…'}</option>
+          {searches.map(s => (
+            <option key={s.id} value={s.id}>{s.jiraFilterId ? '★ ' : ''}{s.name}</option>
+          ))}
+        </select>
+        {onRun && (
+          <button type="button" onClick={() => selected && onRun(selected.jql)} disabled={!selected || isBusy}
+            title="Show matching tests" className="p-2 text-slate-600 rounded-lg hover:bg-slate-100 disabled:opacity-30">
+            <Play className="w-4 h-4" />
+          </button>
+        )}
+        <button type="button" onClick={handleAddAll} disabled={!selected || isBusy}
+          className="flex items-center gap-1.5 px-3 py-2 bg-slate-700 text-white rounded-lg text-xs font-semibold hover:bg-slate-800 disabled:opacity-50">
+          <Plus className="w-3 h-3" /> Add all
+        </button>
+        <button type="button" onClick={handleDelete} disabled={!selected || isBusy}
+          title="Delete saved search" className="p-2 text-red-500 rounded-lg hover:bg-red-50 disabled:opacity-30">
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={handleImportFavourites} disabled={isBusy}
+          title="Import favourite filters from Jira"
+          className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold text-amber-700 border border-amber-300 rounded-lg hover:bg-amber-50 disabled:opacity-50">
+          <Star className="w-3 h-3" /> Favourites
+        </button>
+        {currentJql !== undefined && saveName === null && (
+          <button type="button" onClick={() => setSaveName('')} disabled={!currentJql.trim() || isBusy}
+            title="Save the current query" className="p-2 text-slate-600 rounded-lg hover:bg-slate-100 disabled:opacity-30">
+            <BookmarkPlus className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {saveName !== null && (
+        <div className="flex items-center gap-2">
+          <input type="text" value={saveName} autoFocus onChange={e => setSaveName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && saveName.trim() && handleSave()}
+            placeholder="Name for this search"
+            className="flex-1 px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400" />
+          <button type="button" onClick={handleSave} disabled={!saveName.trim() || isBusy}
+            className="px-3 py-1.5 bg-slate-700 text-white rounded-lg text-xs font-semibold hover:bg-slate-800 disabled:opacity-50">
+            Save
+          </button>
+          <button type="button" onClick={() => setSaveName(null)} className="p-1.5 text-slate-500 hover:text-slate-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {selected && <p className="text-xs font-mono text-slate-500 truncate" title={selected.jql}>{selected.jql}</p>}
+      {notice && <p className="text-xs text-green-700">{notice}</p>}
+    </div>
+  );
+};
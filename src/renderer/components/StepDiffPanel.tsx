@@ -0,0 +1,109 @@
+/**
+ * StepDiffPanel Component
+ * Before/after review of step changes on an existing Test
+ *
+ * - Unchanged steps are hidden unless asked for
+ * - Deleting or reordering steps must be acknowledged before saving
+ */
+
+import React, { useState } from 'react';
+import { describeStepDiff, needsStepReview, rewritesSteps, type StepDiffLine, type StepDiffStatus } from '../utils/testDiff';
+import type { TestStepInput } from '../../shared/types';
+import { GitCompare, ArrowUpDown, AlertTriangle } from 'lucide-react';
+
+interface StepDiffPanelProps {
+  original: TestStepInput[];
+  current: TestStepInput[];
+  acknowledged: boolean;
+  onAcknowledge: (acknowledged: boolean) => void;
+}
+
+const STATUS_STYLES: Record<StepDiffStatus, { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'bg-slate-100 text-slate-600' },
+  changed:   { label: 'Changed',   className: 'bg-amber-100 text-amber-800' },
+  added:     { label: 'Added',     className: 'bg-green-100 text-green-800' },
+  removed:   { label: 'Deleted',   className: 'bg-red-100 text-red-800' },
+};
+
+const StepText: React.FC<{ step?: TestStepInput; strike?: boolean }> = ({ step, strike }) => {
+  if (!step) return <div className="text-xs text-slate-400 italic">—</div>;
+  return (
+    <div className={`text-xs space-y-0.5 ${strike ? 'line-through text-slate-400' : 'text-slate-700'}`}>
+      <div><span className="font-semibold">Action:</span> {step.step || <em>empty</em>}</div>
+      {step.data && <div><span className="font-semibold">Data:</span> {step.data}</div>}
+      {step.result && <div><span className="font-semibold">Expected:</span> {step.result}</div>}
+    </div>
+  );
+};
+
+const isVisible = (line: StepDiffLine, showUnchanged: boolean) =>
+  showUnchanged || line.status !== 'unchanged' || line.moved;
+
+export const StepDiffPanel: React.FC<StepDiffPanelProps> = ({ original, current, acknowledged, onAcknowledge }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const lines = describeStepDiff(original, current);
+  const removedCount = lines.filter(l => l.status === 'removed').length;
+  const rewrite = rewritesSteps(original, current);
+  const needsAcknowledge = needsStepReview(original, current);
+  const visible = lines.filter(l => isVisible(l, showUnchanged));
+
+  if (!lines.some(l => isVisible(l, false))) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-amber-200 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-4 h-4 text-amber-600" />
+          <span className="text-sm font-bold text-slate-900">Step changes</span>
+          <span className="text-xs text-slate-500">
+            {lines.filter(l => l.status !== 'removed').length} step(s) after save, was {lines.filter(l => l.before).length}
+          </span>
+        </div>
+        <label className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} className="w-3.5 h-3.5" />
+          Show unchanged
+        </label>
+      </div>
+
+      <div className="divide-y divide-slate-100 max-h-80 overflow-y-auto">
+        {visible.map((line, i) => (
+          <div key={i} className="grid grid-cols-[90px,1fr,1fr] gap-3 py-2">
+            <div className="space-y-1">
+              <span className={`inline-block px-1.5 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[line.status].className}`}>
+                {STATUS_STYLES[line.status].label}
+              </span>
+              {line.moved && (
+                <span className="flex items-center gap-1 text-xs text-indigo-700">
+                  <ArrowUpDown className="w-3 h-3" /> {line.before?.index} → {line.after?.index}
+                </span>
+              )}
+            </div>
+            <div>
+              {line.before && <div className="text-xs font-bold text-slate-500 mb-0.5">Before · Step {line.before.index}</div>}
+              <StepText step={line.before} strike={line.status === 'removed'} />
+            </div>
+            <div>
+              {line.after && <div className="text-xs font-bold text-slate-500 mb-0.5">After · Step {line.after.index}</div>}
+              <StepText step={line.status === 'removed' ? undefined : line.after} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {needsAcknowledge && (
+        <div className="flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+          <div className="space-y-1.5 text-xs text-red-800">
+            {removedCount > 0 && <p>{removedCount} step{removedCount > 1 ? 's' : ''} will be deleted from Jira.</p>}
+            {rewrite && <p>Xray cannot move steps, so existing steps are rewritten in the new order. Step attachments stay at their old position.</p>}
+            <label className="flex items-center gap-1.5 font-semibold cursor-pointer">
+              <input type="checkbox" checked={acknowledged} onChange={e => onAcknowledge(e.target.checked)} className="w-3.5 h-3.5" />
+              I have reviewed these step changes
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
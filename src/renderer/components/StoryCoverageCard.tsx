@@ -0,0 +1,161 @@
+/**
+ * StoryCoverageCard Component
+ * One story's covering tests with their runs per execution, plus bulk add / remove
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import { MultiIssueValidator } from './IssueValidator';
+import { SavedSearchPicker } from './SavedSearchPicker';
+import { TestRunStatusBadge } from './TestRunStatusBadge';
+import type { CoverageChangeResult, CoverageState, StoryCoverage } from '../../shared/types';
+import { AlertTriangle, Plus, RefreshCw, Trash2, X, XCircle } from 'lucide-react';
+
+interface StoryCoverageCardProps {
+  coverage: StoryCoverage;
+  onReload: () => Promise<void>;
+  onRemove: () => void;
+  onError: (error: string) => void;
+}
+
+const COVERAGE_STATE: Record<CoverageState, { label: string; className: string }> = {
+  UNCOVERED: { label: 'No tests', className: 'bg-red-100 text-red-800 border-red-300' },
+  FAILING: { label: 'Only failing tests', className: 'bg-orange-100 text-orange-800 border-orange-300' },
+  COVERED: { label: 'Covered', className: 'bg-green-100 text-green-800 border-green-300' },
+};
+
+export const StoryCoverageCard: React.FC<StoryCoverageCardProps> = ({ coverage, onReload, onRemove, onError }) => {
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [testsToAdd, setTestsToAdd] = useState<string[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [results, setResults] = useState<CoverageChangeResult[]>([]);
+
+  const coveredKeys = coverage.tests.map(t => t.key);
+  const state = COVERAGE_STATE[coverage.state];
+
+  const toggle = (key: string) => setChecked(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  const update = async (change: { add?: string[]; remove?: string[] }) => {
+    setIsUpdating(true);
+    setResults([]);
+    try {
+      const res = await api.updateStoryCoverage(coverage.key, change);
+      if (!res.success) { onError(res.error.message); return; }
+      setResults(res.data.filter(r => !r.success));
+      setChecked(new Set());
+      setTestsToAdd([]);
+      await onReload();
+    } catch (err: any) {
+      onError(err.message || 'Coverage update failed');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-mono font-bold text-slate-900">{coverage.key}</span>
+            <span className="text-xs text-slate-500">{coverage.issueType}</span>
+            <span className={`px-2 py-0.5 border rounded text-xs font-bold ${state.className}`}>
+              {coverage.state !== 'COVERED' && <AlertTriangle className="w-3 h-3 inline mr-1 -mt-0.5" />}
+              {state.label}
+            </span>
+          </div>
+          <p className="text-sm text-slate-700 mt-1">{coverage.summary}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => onReload()} disabled={isUpdating} title="Reload"
+            className="p-2 text-slate-500 rounded-lg hover:bg-slate-100 disabled:opacity-30">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={onRemove} title="Close" className="p-2 text-slate-500 rounded-lg hover:bg-slate-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {coverage.tests.length > 0 && (
+        <div className="border border-slate-200 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-left text-xs font-semibold text-slate-600">
+              <tr>
+                <th className="px-3 py-2 w-8">
+                  <input type="checkbox" checked={checked.size === coveredKeys.length}
+                    onChange={e => setChecked(e.target.checked ? new Set(coveredKeys) : new Set())} className="w-4 h-4" />
+                </th>
+                <th className="px-3 py-2">Test</th>
+                <th className="px-3 py-2">Summary</th>
+                <th className="px-3 py-2">Latest</th>
+                <th className="px-3 py-2">Runs by execution / environment</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {coverage.tests.map(test => (
+                <tr key={test.key} className="align-top">
+                  <td className="px-3 py-2">
+                    <input type="checkbox" checked={checked.has(test.key)} onChange={() => toggle(test.key)} className="w-4 h-4" />
+                  </td>
+                  <td className="px-3 py-2 font-mono font-semibold whitespace-nowrap">{test.key}</td>
+                  <td className="px-3 py-2 max-w-xs truncate">{test.summary}</td>
+                  <td className="px-3 py-2"><TestRunStatusBadge status={test.latestStatus} /></td>
+                  <td className="px-3 py-2">
+                    {test.runs.length === 0 ? (
+                      <span className="text-xs text-slate-400">Never executed</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1.5">
+                        {test.runs.map(run => (
+                          <span key={run.executionKey}
+                            className="flex items-center gap-1.5 px-2 py-0.5 bg-slate-50 border border-slate-200 rounded text-xs">
+                            <span className="font-mono">{run.executionKey}</span>
+                            {run.environments.length > 0 && <span className="text-slate-500">{run.environments.join(', ')}</span>}
+                            <TestRunStatusBadge status={run.status} />
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {checked.size > 0 && (
+        <button type="button" onClick={() => update({ remove: [...checked] })} disabled={isUpdating}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50">
+          <Trash2 className="w-4 h-4" /> Remove coverage from {checked.size} test(s)
+        </button>
+      )}
+
+      <div className="space-y-2">
+        <MultiIssueValidator value={testsToAdd} onChange={setTestsToAdd} onValidation={() => {}}
+          label="Add covering tests" placeholder="MTD-101, MTD-102" allowedTypes={['Test']} />
+        <SavedSearchPicker selectedKeys={[...coveredKeys, ...testsToAdd]} onError={onError}
+          onAdd={keys => setTestsToAdd(prev => [...prev, ...keys])} />
+        <button type="button" onClick={() => update({ add: testsToAdd.filter(k => !coveredKeys.includes(k)) })}
+          disabled={isUpdating || testsToAdd.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 font-semibold text-sm">
+          <Plus className="w-4 h-4" /> {isUpdating ? 'Updating…' : `Add ${testsToAdd.length || ''} test(s) to coverage`}
+        </button>
+      </div>
+
+      {results.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {results.map(r => (
+            <li key={`${r.action}-${r.testKey}`} className="flex items-center gap-1.5 text-red-700">
+              <XCircle className="w-3.5 h-3.5" /> Could not {r.action} {r.testKey}: {r.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+/**
+ * TemplatePackPanel Component
+ * Shares templates as a pack file: export a chosen set, import one from a teammate
+ *
+ * - Export takes a pack name, author and description next to the templates
+ * - Import previews the pack first; invalid entries are listed with the reason
+ *   and cannot be picked
+ * - Ids already in use are flagged; they are skipped, overwritten or renamed
+ * - The template list is reloaded after an import
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import { useAppStore } from '../store/appStore';
+import type { Template, TemplateConflictMode, TemplateImportResult, TemplatePackPreview } from '../../shared/types';
+import { Package, Upload, Download, CheckCircle2, XCircle, AlertTriangle, MinusCircle } from 'lucide-react';
+
+interface TemplatePackPanelProps {
+  templates: Template[];
+  onError: (error: string) => void;
+  onSuccess: (message: string) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const CONFLICT_MODES: { value: TemplateConflictMode; label: string }[] = [
+  { value: 'skip', label: 'Skip — keep mine' },
+  { value: 'overwrite', label: 'Overwrite mine' },
+  { value: 'rename', label: 'Import as a copy (new id)' },
+];
+
+const OUTCOME_LABELS: Record<TemplateImportResult['outcome'], string> = {
+  created: 'added',
+  overwritten: 'overwritten',
+  renamed: 'added as',
+  skipped: 'skipped (id in use)',
+  failed: 'failed',
+};
+
+export const TemplatePackPanel: React.FC<TemplatePackPanelProps> = ({ templates, onError, onSuccess }) => {
+  const setTemplates = useAppStore(state => state.setTemplates);
+  const [mode, setMode] = useState<'import' | 'export' | null>(null);
+
+  // Export
+  const [packName, setPackName] = useState('');
+  const [author, setAuthor] = useState('');
+  const [description, setDescription] = useState('');
+  const [exportIds, setExportIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Import
+  const [preview, setPreview] = useState<TemplatePackPreview | null>(null);
+  const [importIds, setImportIds] = useState<string[]>([]);
+  const [conflictMode, setConflictMode] = useState<TemplateConflictMode>('skip');
+  const [results, setResults] = useState<TemplateImportResult[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const res = await api.exportTemplatePack({ name: packName, author, description, templateIds: exportIds });
+      if (!res.success) { onError(res.error?.message || 'Export failed'); return; }
+      if (res.data) onSuccess(`Exported ${exportIds.length} template(s) to ${res.data}`);
+    } catch (err: any) {
+      onError(err.message || 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleChoosePack = async () => {
+    setResults([]);
+    try {
+      const res = await api.selectTemplatePack();
+      if (!res.success) { onError(res.error?.message || 'Could not read template pack'); return; }
+      if (!res.data) return;
+      setPreview(res.data);
+      setImportIds(res.data.entries.filter(e => !e.error).map(e => e.id));
+    } catch (err: any) {
+      onError(err.message || 'Could not read template pack');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsImporting(true);
+    try {
+      const res = await api.importTemplatePack({ filePath: preview.filePath, mode: conflictMode, templateIds: importIds });
+      if (!res.success) { onError(res.error?.message || 'Import failed'); return; }
+      setResults(res.data);
+      setPreview(null);
+
+      const reloaded = await api.getTemplates();
+      if (reloaded.success) setTemplates(reloaded.data);
+      const added = res.data.filter(r => r.outcome !== 'skipped' && r.outcome !== 'failed').length;
+      onSuccess(`Imported ${added} of ${res.data.length} template(s) from "${preview.name}"`);
+    } catch (err: any) {
+      onError(err.message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const selectedConflicts = preview?.entries.filter(e => e.conflict && importIds.includes(e.id)).length || 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Package className="w-4 h-4 text-slate-500" />
+        <span className="flex-1 text-xs font-semibold text-slate-700 uppercase tracking-wide">Template Packs</span>
+        <button type="button" onClick={() => setMode(mode === 'import' ? null : 'import')}
+          className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-semibold border ${
+            mode === 'import' ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-300 text-slate-700 hover:bg-white'}`}>
+          <Upload className="w-3.5 h-3.5" /> Import
+        </button>
+        <button type="button" onClick={() => setMode(mode === 'export' ? null : 'export')}
+          className={`flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-semibold border ${
+            mode === 'export' ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-300 text-slate-700 hover:bg-white'}`}>
+          <Download className="w-3.5 h-3.5" /> Export
+        </button>
+      </div>
+
+      {mode === 'export' && (
+        <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input type="text" value={packName} onChange={e => setPackName(e.target.value)}
+              placeholder="Pack name, e.g. Payments squad standards" className={inputClass} />
+            <input type="text" value={author} onChange={e => setAuthor(e.target.value)}
+              placeholder="Author (optional)" className={inputClass} />
+          </div>
+          <input type="text" value={description} onChange={e => setDescription(e.target.value)}
+            placeholder="Description (optional)" className={inputClass} />
+          <div className="flex items-center justify-between text-xs text-slate-600">
+            <span>{exportIds.length} of {templates.length} selected</span>
+            <button type="button" className="font-semibold text-blue-700 hover:underline"
+              onClick={() => setExportIds(exportIds.length === templates.length ? [] : templates.map(t => t.id))}>
+              {exportIds.length === templates.length ? 'Clear' : 'Select all'}
+            </button>
+          </div>
+          <div className="max-h-48 overflow-y-auto border border-slate-100 rounded divide-y divide-slate-100">
+            {templates.map(t => (
+              <label key={t.id} className="flex items-center gap-2 px-2 py-1.5 text-sm cursor-pointer hover:bg-slate-50">
+                <input type="checkbox" checked={exportIds.includes(t.id)} onChange={() => setExportIds(toggle(exportIds, t.id))} />
+                <span className="flex-1 truncate text-slate-800">{t.name}</span>
+                <span className="text-xs text-slate-400">{t.issueType}{t.builtIn ? (t.overridden ? ' · built-in, edited' : ' · built-in') : ''}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <button type="button" onClick={handleExport} disabled={isExporting || !packName.trim() || exportIds.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-semibold">
+              <Download className="w-4 h-4" /> {isExporting ? 'Exporting…' : 'Export pack'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'import' && (
+        <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-2">
+          {!preview ? (
+            <button type="button" onClick={handleChoosePack}
+              className="flex items-center gap-1.5 px-3 py-1.5 border border-blue-300 text-blue-700 rounded-lg text-sm font-semibold hover:bg-blue-50">
+              <Upload className="w-4 h-4" /> Choose pack file…
+            </button>
+          ) : (
+            <>
+              <div>
+                <div className="text-sm font-bold text-slate-900">{preview.name}</div>
+                <div className="text-xs text-slate-500">
+                  {[preview.fileName, preview.author && `by ${preview.author}`, preview.exportedAt && new Date(preview.exportedAt).toLocaleDateString()]
+                    .filter(Boolean).join(' · ')}
+                </div>
+                {preview.description && <p className="mt-1 text-xs text-slate-600">{preview.description}</p>}
+              </div>
+
+              <div className="max-h-48 overflow-y-auto border border-slate-100 rounded divide-y divide-slate-100">
+                {preview.entries.map((entry, i) => (
+                  <label key={`${entry.id}-${i}`}
+                    className={`flex items-center gap-2 px-2 py-1.5 text-sm ${entry.error ? 'opacity-60' : 'cursor-pointer hover:bg-slate-50'}`}>
+                    <input type="checkbox" disabled={!!entry.error}
+                      checked={!entry.error && importIds.includes(entry.id)} onChange={() => setImportIds(toggle(importIds, entry.id))} />
+                    <span className="flex-1 truncate text-slate-800">{entry.name}</span>
+                    {entry.error ? (
+                      <span className="text-xs text-red-700 truncate" title={entry.error}>{entry.error}</span>
+                    ) : (
+                      <>
+                        {entry.conflict && (
+                          <span className="flex items-center gap-1 text-xs text-amber-700">
+                            <AlertTriangle className="w-3 h-3" /> id in use
+                          </span>
+                        )}
+                        <span className="text-xs text-slate-400">{entry.issueType}</span>
+                      </>
+                    )}
+                  </label>
+                ))}
+              </div>
+
+              {selectedConflicts > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-semibold text-slate-600 whitespace-nowrap">
+                    {selectedConflicts} already exist:
+                  </span>
+                  <select value={conflictMode} onChange={e => setConflictMode(e.target.value as TemplateConflictMode)} className={inputClass}>
+                    {CONFLICT_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                  </select>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={() => setPreview(null)} disabled={isImporting}
+                  className="px-3 py-1.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 text-sm font-semibold">
+                  Cancel
+                </button>
+                <button type="button" onClick={handleImport} disabled={isImporting || importIds.length === 0}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-semibold">
+                  <Upload className="w-4 h-4" /> {isImporting ? 'Importing…' : `Import ${importIds.length}`}
+                </button>
+              </div>
+            </>
+          )}
+
+          {results.length > 0 && (
+            <div className="space-y-1">
+              {results.map((r, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs">
+                  {r.outcome === 'failed'
+                    ? <XCircle className="w-3.5 h-3.5 text-red-600 flex-shrink-0" />
+                    : r.outcome === 'skipped'
+                      ? <MinusCircle className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" />
+                      : <CheckCircle2 className="w-3.5 h-3.5 text-green-600 flex-shrink-0" />}
+                  <span className="font-medium text-slate-700 truncate">{r.name}</span>
+                  <span className={r.outcome === 'failed' ? 'text-red-700 truncate' : 'text-slate-500'}>
+                    {OUTCOME_LABELS[r.outcome]}{r.newId ? ` ${r.newId}` : ''}{r.error ? `: ${r.error}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,17 @@
 /**
  * TemplateSelector Component - MODERNIZED
  * Clean, intuitive template selection with modern icons
+ * - Test templates can carry a Test Repository folder, adjustable before applying
+ * - Any template can name a workflow transition to run right after create
+ * - Template packs can be imported and exported from here
  */
 
 import React, { useState } from 'react';
 import type { Template } from  '../../shared/types';
 import api from '../api/electron';
-import { Sparkles, ChevronDown, Check, FileText, Calendar, Type } from 'lucide-react';
+import { FolderPicker } from './FolderPicker';
+import { TemplatePackPanel } from './TemplatePackPanel';
+import { Sparkles, ChevronDown, Check, FileText, Calendar, Type, GitBranch } from 'lucide-react';
 
 interface TemplateSelectorProps {
   templates: Template[];
@@ -27,6 +32,8 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
   const [templateVars, setTemplateVars] = useState<Record<string, string>>({});
   const [showVars, setShowVars] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [folderPath, setFolderPath] = useState('');
+  const [transitionTo, setTransitionTo] = useState('');
 
   const filteredTemplates = templates.filter((t) => t.issueType === issueType);
 
@@ -40,6 +47,8 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
         vars[v.name] = v.defaultValue || '';
       });
       setTemplateVars(vars);
+      setFolderPath(template.fields.folderPath || '');
+      setTransitionTo(template.fields.transitionTo || '');
       setShowVars(true);
       setIsExpanded(true);
     } else {
@@ -57,8 +66,11 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
     });
 
     if (result.success) {
-      onApply(result.data.fields);
-      onSuccess('✨ Template applied! Fields have been pre-filled.');
+      const fields = { ...result.data.fields, transitionTo: transitionTo.trim() };
+      onApply(issueType === 'Test' ? { ...fields, folderPath } : fields);
+      onSuccess(fields.transitionTo
+        ? `✨ Template applied! "${fields.transitionTo}" will run right after create.`
+        : '✨ Template applied! Fields have been pre-filled.');
       setShowVars(false);
       setIsExpanded(false);
     } else {
@@ -181,6 +193,24 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
                   )}
                 </div>
               ))}
+
+              {issueType === 'Test' && (
+                <FolderPicker value={folderPath} onChange={setFolderPath} />
+              )}
+
+              <div>
+                <label className="text-sm font-medium text-slate-700 mb-1.5 flex items-center gap-2">
+                  <GitBranch className="w-4 h-4 text-slate-400" />
+                  Transition after create
+                </label>
+                <input
+                  type="text"
+                  value={transitionTo}
+                  onChange={(e) => setTransitionTo(e.target.value)}
+                  placeholder="e.g. Start Progress (optional)"
+                  className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+              </div>
               
               {/* Apply Button */}
               <button
@@ -192,6 +222,10 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
               </button>
             </div>
           )}
+
+          <div className="pt-3 border-t border-blue-200">
+            <TemplatePackPanel templates={templates} onError={onError} onSuccess={onSuccess} />
+          </div>
         </div>
       )}
     </div>
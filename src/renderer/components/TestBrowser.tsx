@@ -0,0 +1,218 @@
+/**
+ * TestBrowser Component
+ * Pages through the project's Tests by JQL and adds the chosen ones to a selection
+ *
+ * - Sortable columns (sorting is done by Jira, across all pages)
+ * - Selection is kept across pages; "Select all" fetches every matching key
+ * - Tests already in the selection are marked and cannot be picked again
+ * - Saved searches can be run here, or added wholesale without browsing
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import { SavedSearchPicker } from './SavedSearchPicker';
+import { VALIDATION_LIMITS } from '../../shared/constants';
+import type { IssueSearchPage, SortDirection } from '../../shared/types';
+import { Search, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, Plus, CheckCircle2 } from 'lucide-react';
+
+interface TestBrowserProps {
+  selectedKeys: string[];          // Already chosen by the parent
+  onAdd: (keys: string[]) => void;
+  onError: (error: string) => void;
+}
+
+const PAGE_SIZES = [25, 50, 100];
+
+const COLUMNS: { id: string; label: string; sortable: boolean }[] = [
+  { id: 'key', label: 'Key', sortable: true },
+  { id: 'summary', label: 'Summary', sortable: true },
+  { id: 'status', label: 'Status', sortable: true },
+  { id: 'priority', label: 'Priority', sortable: true },
+  { id: 'labels', label: 'Labels', sortable: false },
+  { id: 'components', label: 'Components', sortable: false },
+];
+
+export const TestBrowser: React.FC<TestBrowserProps> = ({ selectedKeys, onAdd, onError }) => {
+  const [jql, setJql] = useState('');
+  const [query, setQuery] = useState<string | null>(null);  // JQL of the results shown
+  const [page, setPage] = useState<IssueSearchPage | null>(null);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [sort, setSort] = useState<{ field: string; direction: SortDirection }>({ field: 'key', direction: 'ASC' });
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = async (nextQuery: string, startAt: number, size = pageSize, orderBy = sort) => {
+    setIsLoading(true);
+    try {
+      const res = await api.searchTests({ jql: nextQuery, startAt, maxResults: size, orderBy });
+      if (!res.success) { onError(res.error.message); return; }
+      setPage(res.data);
+      setQuery(nextQuery);
+    } catch (err: any) {
+      onError(err.message || 'Search failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = () => {
+    setChecked(new Set());
+    load(jql, 0);
+  };
+
+  const handleRunSaved = (savedJql: string) => {
+    setJql(savedJql);
+    setChecked(new Set());
+    load(savedJql, 0);
+  };
+
+  const handleSort = (field: string) => {
+    const next = { field, direction: (sort.field === field && sort.direction === 'ASC' ? 'DESC' : 'ASC') as SortDirection };
+    setSort(next);
+    if (query !== null) load(query, 0, pageSize, next);
+  };
+
+  const handlePageSize = (size: number) => {
+    setPageSize(size);
+    if (query !== null) load(query, 0, size);
+  };
+
+  const toggle = (key: string) => setChecked(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  const pageKeys = (page?.issues || []).map(i => i.key).filter(k => !selectedKeys.includes(k));
+  const allPageChecked = pageKeys.length > 0 && pageKeys.every(k => checked.has(k));
+
+  const togglePage = () => setChecked(prev => {
+    const next = new Set(prev);
+    pageKeys.forEach(k => (allPageChecked ? next.delete(k) : next.add(k)));
+    return next;
+  });
+
+  const handleSelectAll = async () => {
+    if (query === null) return;
+    setIsLoading(true);
+    try {
+      const res = await api.searchTestKeys(query);
+      if (!res.success) { onError(res.error.message); return; }
+      setChecked(new Set(res.data.filter(k => !selectedKeys.includes(k))));
+    } catch (err: any) {
+      onError(err.message || 'Search failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = () => {
+    onAdd([...checked].filter(k => !selectedKeys.includes(k)));
+    setChecked(new Set());
+  };
+
+  const startAt = page?.startAt ?? 0;
+  const total = page?.total ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <SavedSearchPicker selectedKeys={selectedKeys} onAdd={onAdd} onError={onError}
+        currentJql={jql} onRun={handleRunSaved} />
+
+      <div className="flex gap-2">
+        <input type="text" value={jql} onChange={e => setJql(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSearch()}
+          placeholder='labels = regression AND status = "Ready"  (empty lists all tests)'
+          className="flex-1 px-4 py-2.5 font-mono text-sm border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400" />
+        <button type="button" onClick={handleSearch} disabled={isLoading}
+          className="flex items-center gap-2 px-4 py-2.5 bg-slate-700 text-white rounded-lg hover:bg-slate-800 disabled:opacity-50 font-semibold">
+          <Search className="w-4 h-4" />{isLoading ? 'Searching…' : 'Search'}
+        </button>
+      </div>
+
+      {page && (
+        <>
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 w-8">
+                    <input type="checkbox" checked={allPageChecked} onChange={togglePage} disabled={pageKeys.length === 0} className="w-4 h-4" />
+                  </th>
+                  {COLUMNS.map(col => (
+                    <th key={col.id} className="px-3 py-2">
+                      {col.sortable ? (
+                        <button type="button" onClick={() => handleSort(col.id)} className="flex items-center gap-1 hover:text-slate-900">
+                          {col.label}
+                          {sort.field === col.id && (sort.direction === 'ASC'
+                            ? <ArrowUp className="w-3 h-3" />
+                            : <ArrowDown className="w-3 h-3" />)}
+                        </button>
+                      ) : col.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {page.issues.length === 0 ? (
+                  <tr><td colSpan={COLUMNS.length + 1} className="px-3 py-4 text-center text-slate-500">No tests match this query</td></tr>
+                ) : page.issues.map(issue => {
+                  const added = selectedKeys.includes(issue.key);
+                  return (
+                    <tr key={issue.key} className={added ? 'bg-slate-50 text-slate-400' : 'hover:bg-slate-50 cursor-pointer'}
+                      onClick={() => !added && toggle(issue.key)}>
+                      <td className="px-3 py-2">
+                        {added
+                          ? <CheckCircle2 className="w-4 h-4 text-green-600" />
+                          : <input type="checkbox" checked={checked.has(issue.key)} onChange={() => toggle(issue.key)}
+                              onClick={e => e.stopPropagation()} className="w-4 h-4" />}
+                      </td>
+                      <td className="px-3 py-2 font-mono font-semibold whitespace-nowrap">{issue.key}</td>
+                      <td className="px-3 py-2 max-w-sm truncate">{issue.fields.summary}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{issue.fields.status?.name}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{issue.fields.priority?.name}</td>
+                      <td className="px-3 py-2 text-xs">{(issue.fields.labels || []).join(', ')}</td>
+                      <td className="px-3 py-2 text-xs">{(issue.fields.components || []).map(c => c.name).join(', ')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+            <div className="flex items-center gap-2 text-slate-600">
+              <button type="button" onClick={() => query !== null && load(query, Math.max(0, startAt - pageSize))}
+                disabled={isLoading || startAt === 0} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>{total === 0 ? 0 : startAt + 1}–{Math.min(startAt + page.issues.length, total)} of {total}</span>
+              <button type="button" onClick={() => query !== null && load(query, startAt + pageSize)}
+                disabled={isLoading || startAt + pageSize >= total} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <select value={pageSize} onChange={e => handlePageSize(Number(e.target.value))}
+                className="ml-2 px-2 py-1 border border-slate-300 rounded text-xs">
+                {PAGE_SIZES.map(size => <option key={size} value={size}>{size} / page</option>)}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <button type="button" onClick={handleSelectAll} disabled={isLoading || total === 0}
+                className="text-xs font-semibold text-slate-600 hover:text-slate-900 disabled:opacity-50">
+                Select all {Math.min(total, VALIDATION_LIMITS.MAX_SEARCH_SELECT_ALL)} matching
+              </button>
+              {checked.size > 0 && (
+                <button type="button" onClick={() => setChecked(new Set())}
+                  className="text-xs font-semibold text-slate-500 hover:text-slate-800">Clear</button>
+              )}
+              <button type="button" onClick={handleAdd} disabled={checked.size === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-700 text-white rounded text-xs font-semibold hover:bg-slate-800 disabled:opacity-50">
+                <Plus className="w-3 h-3" /> Add {checked.size} Selected
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+/**
+ * TestRunStatusBadge Component
+ * Colour-coded pill for Xray run / step statuses
+ */
+
+import React from 'react';
+
+const STATUS_CLASSES: Record<string, string> = {
+  PASS: 'bg-green-100 text-green-800 border-green-300',
+  FAIL: 'bg-red-100 text-red-800 border-red-300',
+  EXECUTING: 'bg-blue-100 text-blue-800 border-blue-300',
+  ABORTED: 'bg-slate-700 text-white border-slate-800',
+  TODO: 'bg-slate-100 text-slate-700 border-slate-300',
+};
+
+interface TestRunStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+export const TestRunStatusBadge: React.FC<TestRunStatusBadgeProps> = ({ status, className = '' }) => (
+  <span
+    className={`px-2 py-0.5 border rounded text-xs font-bold uppercase tracking-wide ${
+      STATUS_CLASSES[status] || STATUS_CLASSES.TODO
+    } ${className}`}
+  >
+    {status || 'TODO'}
+  </span>
+);
@@ -0,0 +1,156 @@
+/**
+ * TransitionPanel Component
+ * Moves a list of just-created issues through their workflow in one go
+ *
+ * - Offers the transitions every listed issue has (matched by name)
+ * - Screen fields of the chosen transition are rendered from its metadata;
+ *   required ones must be filled before applying
+ * - One result per issue, with the status it moved to
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import type { IssueTransition, TransitionField, TransitionResult } from '../../shared/types';
+import { GitBranch, CheckCircle2, XCircle, ArrowRight } from 'lucide-react';
+
+interface TransitionPanelProps {
+  issueKeys: string[];
+  onError: (error: string) => void;
+  onDone?: (results: TransitionResult[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-400';
+
+const FieldInput: React.FC<{ field: TransitionField; value: string; onChange: (value: string) => void }> = ({ field, value, onChange }) => {
+  if (field.allowedValues && field.type === 'array') {
+    return (
+      <select multiple value={value ? value.split(',') : []} className={inputClass}
+        onChange={e => onChange(Array.from(e.target.selectedOptions).map(o => o.value).join(','))}>
+        {field.allowedValues.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+      </select>
+    );
+  }
+  if (field.allowedValues) {
+    return (
+      <select value={value} onChange={e => onChange(e.target.value)} className={inputClass}>
+        <option value="">-- Select --</option>
+        {field.allowedValues.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+      </select>
+    );
+  }
+  if (field.key === 'comment') {
+    return <textarea value={value} onChange={e => onChange(e.target.value)} rows={2} className={`${inputClass} resize-none`} />;
+  }
+  return (
+    <input type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'} value={value}
+      onChange={e => onChange(e.target.value)}
+      placeholder={field.type === 'array' ? 'Comma separated' : field.type === 'user' ? 'Username' : ''}
+      className={inputClass} />
+  );
+};
+
+export const TransitionPanel: React.FC<TransitionPanelProps> = ({ issueKeys, onError, onDone }) => {
+  const [transitions, setTransitions] = useState<IssueTransition[] | null>(null);
+  const [selectedName, setSelectedName] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [results, setResults] = useState<TransitionResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const selected = transitions?.find(t => t.name === selectedName);
+  const missing = (selected?.fields || []).filter(f => f.required && !values[f.key]?.trim());
+
+  const handleLoad = async () => {
+    setIsLoading(true); setResults([]);
+    try {
+      const res = await api.getTransitions(issueKeys);
+      if (!res.success) { onError(res.error?.message || 'Failed to load transitions'); return; }
+      setTransitions(res.data);
+      setSelectedName('');
+      setValues({});
+    } catch (err: any) {
+      onError(err.message || 'Failed to load transitions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!selected) return;
+    setIsApplying(true);
+    try {
+      const res = await api.transitionIssues({ issueKeys, transitionName: selected.name, fields: values });
+      if (!res.success) { onError(res.error?.message || 'Transition failed'); return; }
+      setResults(res.data);
+      setTransitions(null);
+      onDone?.(res.data);
+    } catch (err: any) {
+      onError(err.message || 'Transition failed');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {!transitions ? (
+        <button type="button" onClick={handleLoad} disabled={isLoading || issueKeys.length === 0}
+          className="flex items-center gap-1.5 px-3 py-2 border border-indigo-300 text-indigo-700 rounded-lg text-sm font-semibold hover:bg-indigo-50 disabled:opacity-50">
+          <GitBranch className="w-4 h-4" />
+          {isLoading ? 'Loading transitions…' : `Transition ${issueKeys.length > 1 ? `all ${issueKeys.length}` : issueKeys[0] || ''}`}
+        </button>
+      ) : (
+        <div className="bg-white border border-indigo-200 rounded-lg p-3 space-y-3">
+          {transitions.length === 0 ? (
+            <p className="text-sm text-slate-500">No transition is available on all of these issues.</p>
+          ) : (
+            <select value={selectedName} onChange={e => { setSelectedName(e.target.value); setValues({}); }} className={inputClass}>
+              <option value="">-- Choose a transition --</option>
+              {transitions.map(t => <option key={t.id} value={t.name}>{t.name} → {t.toStatus}</option>)}
+            </select>
+          )}
+
+          {selected && selected.fields.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {selected.fields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-semibold text-slate-600 mb-1">
+                    {field.name}{field.required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <FieldInput field={field} value={values[field.key] || ''}
+                    onChange={value => setValues(prev => ({ ...prev, [field.key]: value }))} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setTransitions(null)} disabled={isApplying}
+              className="px-3 py-1.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-100 text-sm font-semibold">
+              Cancel
+            </button>
+            <button type="button" onClick={handleApply} disabled={isApplying || !selected || missing.length > 0}
+              title={missing.length > 0 ? `Required: ${missing.map(f => f.name).join(', ')}` : undefined}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 text-sm font-semibold">
+              <ArrowRight className="w-4 h-4" /> {isApplying ? 'Applying…' : 'Apply'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="space-y-1">
+          {results.map(r => (
+            <div key={r.key} className="flex items-center gap-2 text-xs">
+              {r.success
+                ? <CheckCircle2 className="w-3.5 h-3.5 text-green-600 flex-shrink-0" />
+                : <XCircle className="w-3.5 h-3.5 text-red-600 flex-shrink-0" />}
+              <span className="font-mono font-semibold text-slate-700">{r.key}</span>
+              {r.success ? <span className="text-slate-600">→ {r.status}</span> : <span className="text-red-700 truncate">{r.error}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,14 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import RunnerApp from './RunnerApp';
 import './index.css';
 
+// Runner windows are opened at #runner/<testRunId>
+const runnerMatch = window.location.hash.match(/^#runner\/(\d+)$/);
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {runnerMatch ? <RunnerApp testRunId={Number(runnerMatch[1])} /> : <App />}
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -13,7 +13,7 @@ import type {
   Template,
 } from '../../shared/types';
 
-type TabType = 'testcases' | 'testsets' | 'execution';
+type TabType = 'testcases' | 'testsets' | 'testplans' | 'execution' | 'run' | 'preconditions' | 'coverage' | 'traceability' | 'bulkedit' | 'export';
 
 interface AppState {
   // Auth
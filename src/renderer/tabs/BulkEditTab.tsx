@@ -0,0 +1,299 @@
+/**
+ * BulkEditTab — change labels, components, fix versions, priority and assignee
+ * across many tests without leaving the app
+ * ✅ Select tests by JQL or key list and preview their current values
+ * ✅ Add / remove keep other values; replace overwrites the field
+ * ✅ Per-issue result table; values are reloaded after applying
+ */
+
+import React, { useEffect, useState } from 'react';
+import api from '../api/electron';
+import { Alert } from '../components/common/Alert';
+import type {
+  BulkEditField,
+  BulkEditIssue,
+  BulkEditMode,
+  BulkEditOperation,
+  BulkEditResult,
+  Priority,
+} from '../../shared/types';
+import { SquarePen, Search, ListFilter, Plus, Trash2, CheckCircle2, XCircle, Play } from 'lucide-react';
+
+type SelectSource = 'jql' | 'keys';
+
+const FIELDS: { id: BulkEditField; label: string }[] = [
+  { id: 'labels', label: 'Labels' },
+  { id: 'components', label: 'Components' },
+  { id: 'fixVersions', label: 'Fix Versions' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'assignee', label: 'Assignee' },
+];
+
+const LIST_FIELDS: BulkEditField[] = ['labels', 'components', 'fixVersions'];
+
+const MODES: { id: BulkEditMode; label: string }[] = [
+  { id: 'add', label: 'Add' },
+  { id: 'remove', label: 'Remove' },
+  { id: 'replace', label: 'Replace with' },
+];
+
+interface OperationDraft {
+  field: BulkEditField;
+  mode: BulkEditMode;
+  value: string;          // Comma separated for list fields
+}
+
+const splitValues = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const toOperation = (draft: OperationDraft): BulkEditOperation => ({
+  field: draft.field,
+  mode: draft.mode,
+  values: LIST_FIELDS.includes(draft.field) ? splitValues(draft.value) : [draft.value.trim()],
+});
+
+/**
+ * Value an issue field will have after the operations (for the preview)
+ */
+function projectValue(issue: BulkEditIssue, field: BulkEditField, ops: BulkEditOperation[], priorities: Priority[]): string {
+  if (LIST_FIELDS.includes(field)) {
+    let values = issue[field as 'labels' | 'components' | 'fixVersions'];
+    for (const op of ops.filter(o => o.field === field)) {
+      if (op.mode === 'replace') values = op.values;
+      else if (op.mode === 'add') values = [...values, ...op.values.filter(v => !values.includes(v))];
+      else values = values.filter(v => !op.values.includes(v));
+    }
+    return values.join(', ');
+  }
+
+  const replace = ops.find(o => o.field === field && o.mode === 'replace');
+  if (!replace) return issue[field as 'priority' | 'assignee'];
+  const value = replace.values[0] || '';
+  return field === 'priority' ? priorities.find(p => p.id === value)?.name || value : value;
+}
+
+const currentValue = (issue: BulkEditIssue, field: BulkEditField) => {
+  const value = issue[field];
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+export const BulkEditTab: React.FC = () => {
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [source, setSource] = useState<SelectSource>('jql');
+  const [jql, setJql] = useState('');
+  const [keyList, setKeyList] = useState('');
+  const [issues, setIssues] = useState<BulkEditIssue[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [drafts, setDrafts] = useState<OperationDraft[]>([{ field: 'labels', mode: 'add', value: '' }]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [results, setResults] = useState<Record<string, BulkEditResult>>({});
+
+  useEffect(() => {
+    api.getPriorities().then(res => { if (res.success) setPriorities(res.data); });
+  }, []);
+
+  const operations = drafts.map(toOperation);
+  const changedFields = [...new Set(operations.map(o => o.field))];
+  const canPreview = source === 'jql' ? jql.trim() !== '' : splitValues(keyList.replace(/\s+/g, ',')).length > 0;
+
+  const loadPreview = async (keepResults = false) => {
+    setIsLoading(true); setError('');
+    if (!keepResults) setResults({});
+    try {
+      const res = await api.previewBulkEdit(source === 'jql' ? { jql } : { keys: splitValues(keyList.replace(/\s+/g, ',')) });
+      if (!res.success) { setError(res.error?.message || 'Failed to load tests'); return; }
+      setIssues(res.data);
+      if (!keepResults) setSelected(new Set(res.data.map(i => i.key)));
+    } catch (err: any) { setError(err.message || 'Failed to load tests'); }
+    finally { setIsLoading(false); }
+  };
+
+  const toggle = (key: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  const updateDraft = (index: number, updates: Partial<OperationDraft>) =>
+    setDrafts(prev => prev.map((d, i) => {
+      if (i !== index) return d;
+      const next = { ...d, ...updates };
+      // Priority and assignee hold one value, so they can only be replaced
+      if (!LIST_FIELDS.includes(next.field)) next.mode = 'replace';
+      if (updates.field && updates.field !== d.field) next.value = '';
+      return next;
+    }));
+
+  const handleApply = async () => {
+    setIsApplying(true); setError(''); setSuccess('');
+    try {
+      const keys = issues.map(i => i.key).filter(k => selected.has(k));
+      const res = await api.applyBulkEdit({ keys, operations });
+      if (!res.success) { setError(res.error?.message || 'Bulk edit failed'); return; }
+
+      setResults(Object.fromEntries(res.data.map(r => [r.key, r])));
+      const failed = res.data.filter(r => !r.success).length;
+      if (failed > 0) setError(`⚠️ ${failed} of ${res.data.length} tests could not be updated`);
+      else setSuccess(`✅ Updated ${res.data.length} test${res.data.length !== 1 ? 's' : ''}`);
+      await loadPreview(true);
+    } catch (err: any) { setError(err.message || 'Bulk edit failed'); }
+    finally { setIsApplying(false); }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-rose-600 to-pink-600 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+            <SquarePen className="w-6 h-6" />
+          </div>
+          <div><h2 className="text-2xl font-bold">Bulk Edit</h2>
+            <p className="text-rose-100 text-sm">Labels, components, fix versions, priority and assignee across many tests</p></div>
+        </div>
+      </div>
+
+      {error   && <Alert type="error"   message={error}   onDismiss={() => setError('')} />}
+      {success && <Alert type="success" message={success} onDismiss={() => setSuccess('')} />}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Selection */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <ListFilter className="w-5 h-5 text-rose-600" />
+            <h3 className="font-bold text-slate-900 text-lg">Select Tests</h3>
+          </div>
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={source === 'jql'} onChange={() => setSource('jql')} className="w-4 h-4" />
+              <span className="text-sm font-medium text-slate-700">JQL query</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={source === 'keys'} onChange={() => setSource('keys')} className="w-4 h-4" />
+              <span className="text-sm font-medium text-slate-700">Issue keys</span>
+            </label>
+          </div>
+          {source === 'jql' ? (
+            <textarea value={jql} onChange={e => setJql(e.target.value)} rows={3}
+              placeholder={'fixVersion = "2.4.0" AND labels = regression'}
+              className="w-full px-4 py-2.5 font-mono text-sm border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-rose-400 resize-none" />
+          ) : (
+            <textarea value={keyList} onChange={e => setKeyList(e.target.value)} rows={3}
+              placeholder="MTD-101, MTD-102 MTD-110"
+              className="w-full px-4 py-2.5 font-mono text-sm border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-rose-400 resize-none" />
+          )}
+          <p className="text-xs text-slate-500">Only Tests in this project are included.</p>
+          <button type="button" onClick={() => loadPreview()} disabled={isLoading || !canPreview}
+            className="flex items-center gap-2 px-4 py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700 disabled:opacity-50 font-semibold text-sm">
+            <Search className="w-4 h-4" /> {isLoading ? 'Loading…' : 'Preview Tests'}
+          </button>
+        </div>
+
+        {/* Operations */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <SquarePen className="w-5 h-5 text-rose-600" />
+            <h3 className="font-bold text-slate-900 text-lg">Changes</h3>
+          </div>
+          {drafts.map((draft, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <select value={draft.field} onChange={e => updateDraft(i, { field: e.target.value as BulkEditField })}
+                className="px-3 py-2 border-2 border-slate-300 rounded-lg text-sm">
+                {FIELDS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+              <select value={draft.mode} onChange={e => updateDraft(i, { mode: e.target.value as BulkEditMode })}
+                disabled={!LIST_FIELDS.includes(draft.field)}
+                className="px-3 py-2 border-2 border-slate-300 rounded-lg text-sm disabled:bg-slate-50">
+                {MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+              {draft.field === 'priority' ? (
+                <select value={draft.value} onChange={e => updateDraft(i, { value: e.target.value })}
+                  className="flex-1 px-3 py-2 border-2 border-slate-300 rounded-lg text-sm">
+                  <option value="">-- Select Priority --</option>
+                  {priorities.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              ) : (
+                <input type="text" value={draft.value} onChange={e => updateDraft(i, { value: e.target.value })}
+                  placeholder={LIST_FIELDS.includes(draft.field) ? 'Comma separated values' : 'Username (empty to unassign)'}
+                  className="flex-1 px-3 py-2 border-2 border-slate-300 rounded-lg text-sm" />
+              )}
+              <button type="button" onClick={() => setDrafts(prev => prev.filter((_, idx) => idx !== i))}
+                disabled={drafts.length === 1} className="text-red-500 hover:text-red-700 disabled:opacity-30">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => setDrafts(prev => [...prev, { field: 'labels', mode: 'add', value: '' }])}
+            className="flex items-center gap-1 text-sm font-semibold text-rose-700 hover:text-rose-900">
+            <Plus className="w-4 h-4" /> Add change
+          </button>
+          <p className="text-xs text-slate-500">A replace with no value clears the field.</p>
+
+          <button type="button" onClick={handleApply} disabled={isApplying || selected.size === 0}
+            className="w-full py-3 bg-gradient-to-r from-rose-600 to-pink-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:from-rose-700 hover:to-pink-700 disabled:opacity-50">
+            <Play className="w-5 h-5" /> {isApplying ? 'Applying…' : `Apply to ${selected.size} Test${selected.size !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+
+      {/* Preview / results */}
+      {issues.length > 0 && (
+        <div className="bg-white rounded-xl border-2 border-slate-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-left text-xs font-semibold text-slate-600">
+              <tr>
+                <th className="px-3 py-2">
+                  <input type="checkbox" checked={selected.size === issues.length}
+                    onChange={e => setSelected(e.target.checked ? new Set(issues.map(i => i.key)) : new Set())} className="w-4 h-4" />
+                </th>
+                <th className="px-3 py-2">Key</th>
+                <th className="px-3 py-2">Summary</th>
+                {FIELDS.map(f => <th key={f.id} className="px-3 py-2">{f.label}</th>)}
+                {Object.keys(results).length > 0 && <th className="px-3 py-2">Result</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {issues.map(issue => {
+                const result = results[issue.key];
+                return (
+                  <tr key={issue.key} className={selected.has(issue.key) ? '' : 'opacity-50'}>
+                    <td className="px-3 py-2">
+                      <input type="checkbox" checked={selected.has(issue.key)} onChange={() => toggle(issue.key)} className="w-4 h-4" />
+                    </td>
+                    <td className="px-3 py-2 font-mono font-semibold text-slate-800">{issue.key}</td>
+                    <td className="px-3 py-2 text-slate-700 max-w-xs truncate">{issue.summary}</td>
+                    {FIELDS.map(f => {
+                      const before = currentValue(issue, f.id);
+                      const after = selected.has(issue.key) && changedFields.includes(f.id)
+                        ? projectValue(issue, f.id, operations, priorities)
+                        : before;
+                      return (
+                        <td key={f.id} className="px-3 py-2 text-xs text-slate-600">
+                          {before || <span className="text-slate-300">—</span>}
+                          {after !== before && !result && (
+                            <div className="text-rose-700 font-semibold">→ {after || 'cleared'}</div>
+                          )}
+                        </td>
+                      );
+                    })}
+                    {Object.keys(results).length > 0 && (
+                      <td className="px-3 py-2 text-xs">
+                        {result && (result.success
+                          ? <span className="flex items-center gap-1 text-green-700"><CheckCircle2 className="w-4 h-4" /> Updated</span>
+                          : <span className="flex items-center gap-1 text-red-700"><XCircle className="w-4 h-4" /> {result.error}</span>)}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+/**
+ * CoverageTab — which tests cover a story, and how they last ran
+ * ✅ Load one or more stories; each lists its covering tests
+ * ✅ Latest run status per execution and environment
+ * ✅ Add / remove coverage for many tests at once
+ * ✅ Flags stories with no tests or only failing tests
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import { Alert } from '../components/common/Alert';
+import { StoryCoverageCard } from '../components/StoryCoverageCard';
+import type { StoryCoverage } from '../../shared/types';
+import { Target, Search, AlertTriangle } from 'lucide-react';
+
+const splitKeys = (value: string) =>
+  [...new Set(value.split(/[\s,]+/).map(k => k.trim().toUpperCase()).filter(Boolean))];
+
+export const CoverageTab: React.FC = () => {
+  const [error, setError] = useState('');
+  const [storyInput, setStoryInput] = useState('');
+  const [stories, setStories] = useState<StoryCoverage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchCoverage = async (key: string): Promise<StoryCoverage | null> => {
+    const res = await api.getStoryCoverage(key);
+    if (!res.success) { setError(`${key}: ${res.error?.message || 'Failed to load coverage'}`); return null; }
+    return res.data;
+  };
+
+  const handleLoad = async () => {
+    setIsLoading(true); setError('');
+    try {
+      const loaded = await Promise.all(splitKeys(storyInput).map(fetchCoverage));
+      const found = loaded.filter((c): c is StoryCoverage => c !== null);
+      // Newly loaded stories replace earlier copies and go to the top
+      setStories(prev => [...found, ...prev.filter(s => !found.some(f => f.key === s.key))]);
+      setStoryInput('');
+    } catch (err: any) { setError(err.message || 'Failed to load coverage'); }
+    finally { setIsLoading(false); }
+  };
+
+  const reloadStory = async (key: string) => {
+    try {
+      const coverage = await fetchCoverage(key);
+      if (coverage) setStories(prev => prev.map(s => (s.key === key ? coverage : s)));
+    } catch (err: any) { setError(err.message || 'Failed to load coverage'); }
+  };
+
+  const flagged = stories.filter(s => s.state !== 'COVERED');
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-emerald-600 to-green-600 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+            <Target className="w-6 h-6" />
+          </div>
+          <div><h2 className="text-2xl font-bold">Coverage</h2>
+            <p className="text-emerald-100 text-sm">Tests covering each story and their latest results</p></div>
+        </div>
+      </div>
+
+      {error && <Alert type="error" message={error} onDismiss={() => setError('')} />}
+
+      <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-3">
+        <label className="block text-sm font-semibold text-slate-700">Stories</label>
+        <div className="flex gap-2">
+          <input type="text" value={storyInput} onChange={e => setStoryInput(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && storyInput.trim() && handleLoad()}
+            placeholder="MTD-42, MTD-43"
+            className="flex-1 px-4 py-2.5 font-mono text-sm border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-400" />
+          <button type="button" onClick={handleLoad} disabled={isLoading || !storyInput.trim()}
+            className="flex items-center gap-2 px-4 py-2.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 font-semibold">
+            <Search className="w-4 h-4" />{isLoading ? 'Loading…' : 'Load Coverage'}
+          </button>
+        </div>
+        {flagged.length > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-900">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              {flagged.map(s => (
+                <div key={s.key}>
+                  <span className="font-mono font-semibold">{s.key}</span>
+                  {s.state === 'UNCOVERED' ? ' has no covering tests' : ' has only failing tests'}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {stories.map(story => (
+        <StoryCoverageCard key={story.key} coverage={story} onError={setError}
+          onReload={() => reloadStory(story.key)}
+          onRemove={() => setStories(prev => prev.filter(s => s.key !== story.key))} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+/**
+ * ExportTab — tests, test sets and executions to CSV / XLSX
+ * ✅ Select issues by JQL or take the ones created in this session
+ * ✅ Column chooser per entity; test step columns give one row per step
+ * ✅ File is written by the main process after a native save dialog
+ */
+
+import React, { useState } from 'react';
+import { useAppStore } from '../store/appStore';
+import api from '../api/electron';
+import { Alert } from '../components/common/Alert';
+import { EXPORT_COLUMNS, EXPORT_STEP_COLUMNS } from '../../shared/constants';
+import type { ExportEntity, ExportFormat } from '../../shared/types';
+import { Download, FileSpreadsheet, Columns3, Search, History } from 'lucide-react';
+
+type ExportSource = 'session' | 'jql';
+
+const ENTITIES: { id: ExportEntity; label: string }[] = [
+  { id: 'tests', label: 'Tests' },
+  { id: 'testSets', label: 'Test Sets' },
+  { id: 'executions', label: 'Test Executions' },
+];
+
+const allColumns = (entity: ExportEntity): string[] => EXPORT_COLUMNS[entity].map(c => c.id);
+
+export const ExportTab: React.FC = () => {
+  const { createdIssues } = useAppStore();
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [entity, setEntity] = useState<ExportEntity>('tests');
+  const [source, setSource] = useState<ExportSource>('jql');
+  const [jql, setJql] = useState('');
+  const [columns, setColumns] = useState<string[]>(allColumns('tests'));
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const sessionKeys: Record<ExportEntity, string[]> = {
+    tests: createdIssues.testKeys,
+    testSets: createdIssues.testSetKeys,
+    executions: createdIssues.executionKeys,
+  };
+  const keys = sessionKeys[entity];
+
+  const changeEntity = (next: ExportEntity) => {
+    setEntity(next);
+    setColumns(allColumns(next));
+  };
+
+  // Keep the chosen columns in their EXPORT_COLUMNS order
+  const toggleColumn = (id: string) =>
+    setColumns(prev => allColumns(entity).filter(c => (c === id ? !prev.includes(c) : prev.includes(c))));
+
+  const expandsSteps = entity === 'tests' && columns.some(c => (EXPORT_STEP_COLUMNS as readonly string[]).includes(c));
+  const canExport = columns.length > 0 && (source === 'jql' ? jql.trim() !== '' : keys.length > 0);
+
+  const handleExport = async () => {
+    setIsExporting(true); setError(''); setSuccess('');
+    try {
+      const res = await api.exportIssues({
+        entity,
+        columns,
+        format,
+        ...(source === 'jql' ? { jql } : { keys }),
+      });
+      if (!res.success) { setError(res.error?.message || 'Export failed'); return; }
+      if (!res.data) return; // Save dialog cancelled
+      setSuccess(`✅ Exported ${res.data.issueCount} issue${res.data.issueCount !== 1 ? 's' : ''} (${res.data.rowCount} rows) to ${res.data.filePath}`);
+    } catch (err: any) { setError(err.message || 'Export failed'); }
+    finally { setIsExporting(false); }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-slate-600 to-slate-800 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+            <Download className="w-6 h-6" />
+          </div>
+          <div><h2 className="text-2xl font-bold">Export</h2>
+            <p className="text-slate-200 text-sm">Audit and sign-off sheets as CSV or Excel</p></div>
+        </div>
+      </div>
+
+      {error   && <Alert type="error"   message={error}   onDismiss={() => setError('')} />}
+      {success && <Alert type="success" message={success} onDismiss={() => setSuccess('')} />}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* What to export */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-slate-600" />
+            <h3 className="font-bold text-slate-900 text-lg">What to Export</h3>
+          </div>
+
+          <div className="flex gap-2">
+            {ENTITIES.map(e => (
+              <button key={e.id} type="button" onClick={() => changeEntity(e.id)}
+                className={`flex-1 px-3 py-2 rounded-lg border-2 text-sm font-semibold transition-colors ${
+                  entity === e.id ? 'border-slate-700 bg-slate-700 text-white' : 'border-slate-300 text-slate-700 hover:bg-slate-50'}`}>
+                {e.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={source === 'jql'} onChange={() => setSource('jql')} className="w-4 h-4" />
+              <Search className="w-4 h-4 text-slate-500" />
+              <span className="text-sm font-medium text-slate-700">JQL query</span>
+            </label>
+            {source === 'jql' && (
+              <textarea value={jql} onChange={e => setJql(e.target.value)} rows={3}
+                placeholder={'fixVersion = "2.4.0" AND labels = regression ORDER BY key'}
+                className="w-full px-4 py-2.5 font-mono text-sm border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-400 resize-none" />
+            )}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={source === 'session'} onChange={() => setSource('session')} className="w-4 h-4" />
+              <History className="w-4 h-4 text-slate-500" />
+              <span className="text-sm font-medium text-slate-700">
+                Created this session ({keys.length})
+              </span>
+            </label>
+            {source === 'session' && keys.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {keys.map(k => (
+                  <span key={k} className="px-2 py-0.5 bg-slate-100 border border-slate-300 rounded font-mono text-xs text-slate-700">{k}</span>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-500">Queries are limited to this project and the selected issue type.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">Format</label>
+            <div className="flex gap-4">
+              {(['xlsx', 'csv'] as ExportFormat[]).map(f => (
+                <label key={f} className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={format === f} onChange={() => setFormat(f)} className="w-4 h-4" />
+                  <span className="text-sm font-medium text-slate-700">{f === 'xlsx' ? 'Excel (.xlsx)' : 'CSV (.csv)'}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button type="button" onClick={handleExport} disabled={isExporting || !canExport}
+            className="w-full py-3 bg-gradient-to-r from-slate-600 to-slate-800 text-white rounded-xl font-bold flex items-center justify-center gap-2 hover:from-slate-700 hover:to-slate-900 disabled:opacity-50">
+            <Download className="w-5 h-5" /> {isExporting ? 'Exporting…' : 'Export…'}
+          </button>
+        </div>
+
+        {/* Columns */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Columns3 className="w-5 h-5 text-slate-600" />
+              <h3 className="font-bold text-slate-900 text-lg">Columns</h3>
+            </div>
+            <div className="flex gap-2 text-xs font-semibold">
+              <button type="button" onClick={() => setColumns(allColumns(entity))} className="text-slate-600 hover:text-slate-900">All</button>
+              <span className="text-slate-300">|</span>
+              <button type="button" onClick={() => setColumns([])} className="text-slate-600 hover:text-slate-900">None</button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_COLUMNS[entity].map(c => (
+              <label key={c.id} className="flex items-center gap-2 px-3 py-2 border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-50">
+                <input type="checkbox" checked={columns.includes(c.id)} onChange={() => toggleColumn(c.id)} className="w-4 h-4" />
+                <span className="text-sm text-slate-700">{c.label}</span>
+              </label>
+            ))}
+          </div>
+
+          {expandsSteps && (
+            <p className="text-xs text-slate-500">Step columns are selected: each test is written once per step.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
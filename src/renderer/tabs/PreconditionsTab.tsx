@@ -0,0 +1,300 @@
+/**
+ * PreconditionsTab — reusable Xray Pre-Conditions
+ * ✅ Create Manual / Cucumber / Generic Pre-Conditions
+ * ✅ Optionally associate the new Pre-Condition with Tests right away
+ * ✅ View, add and remove the Pre-Conditions of an existing Test
+ */
+
+import React, { useState } from 'react';
+import { useAppStore } from '../store/appStore';
+import api from '../api/electron';
+import { Alert } from '../components/common/Alert';
+import { IssueValidator } from '../components/IssueValidator';
+import { GherkinEditor } from '../components/GherkinEditor';
+import { PreconditionPicker } from '../components/PreconditionPicker';
+import { validateGherkin } from '../utils/gherkin';
+import type { CreatePreconditionInput, Precondition, PreconditionType, StoryValidationResult } from '../../shared/types';
+import { ShieldCheck, Plus, ExternalLink, Trash2, Link2, RefreshCw, X } from 'lucide-react';
+
+const PRECONDITION_TYPES: PreconditionType[] = ['Manual', 'Cucumber', 'Generic'];
+
+const emptyPrecondition = (): CreatePreconditionInput => ({
+  summary: '',
+  description: '',
+  preconditionType: 'Manual',
+  conditions: '',
+});
+
+export const PreconditionsTab: React.FC = () => {
+  const { auth } = useAppStore();
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Create
+  const [form, setForm] = useState<CreatePreconditionInput>(emptyPrecondition());
+  const [testKeyInput, setTestKeyInput] = useState('');
+  const [targetTestKeys, setTargetTestKeys] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<{ key: string; summary: string }[]>([]);
+
+  // Manage a Test's associations
+  const [testKey, setTestKey] = useState('');
+  const [validatedTest, setValidatedTest] = useState<StoryValidationResult | null>(null);
+  const [associated, setAssociated] = useState<Precondition[]>([]);
+  const [toAdd, setToAdd] = useState<Precondition[]>([]);
+  const [isLoadingAssociations, setIsLoadingAssociations] = useState(false);
+  const [isSavingAssociations, setIsSavingAssociations] = useState(false);
+
+  const browseUrl = (key: string) => `${auth.jiraBaseUrl}/browse/${key}`;
+
+  // ── Create ────────────────────────────────────────────────────────────────
+  const addTargetTest = () => {
+    const keys = testKeyInput.split(/[\s,]+/).map(k => k.trim().toUpperCase()).filter(Boolean);
+    setTargetTestKeys(prev => [...new Set([...prev, ...keys])]);
+    setTestKeyInput('');
+  };
+
+  const handleCreate = async () => {
+    if (!form.summary.trim()) { setError('Summary is required'); return; }
+    if (!form.conditions.trim()) { setError('Conditions are required'); return; }
+    if (form.preconditionType === 'Cucumber') {
+      const [issue] = validateGherkin(form.conditions, 'Scenario');
+      if (issue) { setError(`Gherkin line ${issue.line} - ${issue.message}`); return; }
+    }
+
+    setIsCreating(true); setError(''); setSuccess('');
+    try {
+      const res = await api.createPrecondition(form);
+      if (!res.success) { setError(res.error?.message || 'Failed to create Pre-Condition'); return; }
+
+      const key = res.data.key;
+      const failures: string[] = [];
+      for (const test of targetTestKeys) {
+        try {
+          const link = await api.addTestPreconditions(test, [key]);
+          if (!link.success) failures.push(`${test}: ${link.error?.message || 'failed'}`);
+        } catch (e: any) { failures.push(`${test}: ${e.message || 'failed'}`); }
+      }
+
+      setCreated(prev => [{ key, summary: form.summary }, ...prev]);
+      if (failures.length > 0) setSuccess(`⚠️ Created ${key} but some associations failed: ${failures.join('; ')}`);
+      else setSuccess(`✅ Created ${key}${targetTestKeys.length > 0 ? ` and associated it with ${targetTestKeys.length} test(s)` : ''}`);
+
+      setForm(emptyPrecondition());
+      setTargetTestKeys([]);
+    } catch (err: any) { setError(err.message || 'Failed to create Pre-Condition'); }
+    finally { setIsCreating(false); }
+  };
+
+  // ── Associations ──────────────────────────────────────────────────────────
+  const loadAssociations = async (key: string) => {
+    setIsLoadingAssociations(true); setError('');
+    try {
+      const res = await api.getTestPreconditions(key);
+      if (res.success) setAssociated(res.data);
+      else setError(res.error?.message || 'Failed to load Pre-Conditions');
+    } catch (err: any) { setError(err.message || 'Failed to load Pre-Conditions'); }
+    finally { setIsLoadingAssociations(false); }
+  };
+
+  const handleTestValidation = (result: StoryValidationResult | null) => {
+    setValidatedTest(result);
+    setToAdd([]);
+    if (result) loadAssociations(result.key);
+    else setAssociated([]);
+  };
+
+  const handleAssociate = async () => {
+    if (!validatedTest || toAdd.length === 0) return;
+    setIsSavingAssociations(true); setError(''); setSuccess('');
+    try {
+      const res = await api.addTestPreconditions(validatedTest.key, toAdd.map(p => p.key));
+      if (!res.success) { setError(res.error?.message || 'Failed to associate Pre-Conditions'); return; }
+      setSuccess(`✅ Associated ${toAdd.length} Pre-Condition(s) with ${validatedTest.key}`);
+      setToAdd([]);
+      await loadAssociations(validatedTest.key);
+    } catch (err: any) { setError(err.message || 'Failed to associate Pre-Conditions'); }
+    finally { setIsSavingAssociations(false); }
+  };
+
+  const handleRemove = async (preconditionKey: string) => {
+    if (!validatedTest) return;
+    setError(''); setSuccess('');
+    try {
+      const res = await api.removeTestPrecondition(validatedTest.key, preconditionKey);
+      if (!res.success) { setError(res.error?.message || 'Failed to remove Pre-Condition'); return; }
+      setAssociated(prev => prev.filter(p => p.key !== preconditionKey));
+      setSuccess(`🗑️ Removed ${preconditionKey} from ${validatedTest.key}`);
+    } catch (err: any) { setError(err.message || 'Failed to remove Pre-Condition'); }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+            <ShieldCheck className="w-6 h-6" />
+          </div>
+          <div><h2 className="text-2xl font-bold">Pre-Conditions</h2>
+            <p className="text-amber-100 text-sm">Create reusable Pre-Conditions and attach them to tests</p></div>
+        </div>
+      </div>
+
+      {error   && <Alert type="error"   message={error}   onDismiss={() => setError('')} />}
+      {success && <Alert type="success" message={success} onDismiss={() => setSuccess('')} />}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Create */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <Plus className="w-5 h-5 text-amber-600" />
+            <h3 className="font-bold text-slate-900 text-lg">New Pre-Condition</h3>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+              Summary <span className="text-red-500">*</span>
+            </label>
+            <input type="text" value={form.summary} onChange={e => setForm({ ...form, summary: e.target.value })}
+              placeholder="e.g. User is logged in as admin"
+              className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-400" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">Type</label>
+            <div className="flex gap-4">
+              {PRECONDITION_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" checked={form.preconditionType === type}
+                    onChange={() => setForm({ ...form, preconditionType: type })} className="w-4 h-4 text-amber-600" />
+                  <span className="text-sm font-medium text-slate-700">{type}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+              Conditions <span className="text-red-500">*</span>
+            </label>
+            {form.preconditionType === 'Cucumber' ? (
+              <GherkinEditor value={form.conditions} onChange={conditions => setForm({ ...form, conditions })}
+                scenarioType="Scenario" placeholder={'Given the user is logged in\nAnd the cart is empty'} rows={5} />
+            ) : (
+              <textarea value={form.conditions} onChange={e => setForm({ ...form, conditions: e.target.value })}
+                placeholder={form.preconditionType === 'Generic' ? 'Setup script or command' : 'What must be true before the test starts'}
+                rows={4}
+                className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-400 resize-none" />
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">Description</label>
+            <textarea value={form.description} onChange={e => setForm({ ...form, description: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-400 resize-none" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+              <Link2 className="w-4 h-4 inline mr-1 text-slate-500" />Associate with Tests
+            </label>
+            <div className="flex gap-2">
+              <input type="text" value={testKeyInput} onChange={e => setTestKeyInput(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addTargetTest(); } }}
+                placeholder="MTD-101, MTD-102"
+                className="flex-1 px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-400" />
+              <button type="button" onClick={addTargetTest}
+                className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 font-semibold text-sm">Add</button>
+            </div>
+            {targetTestKeys.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {targetTestKeys.map(k => (
+                  <span key={k} className="inline-flex items-center gap-1 px-2.5 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-mono">
+                    {k}
+                    <button type="button" onClick={() => setTargetTestKeys(prev => prev.filter(t => t !== k))}
+                      className="hover:text-red-600"><X className="w-3.5 h-3.5" /></button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <button type="button" onClick={handleCreate} disabled={isCreating}
+            className="w-full bg-gradient-to-r from-amber-500 to-orange-600 text-white py-3 px-4 rounded-lg hover:from-amber-600 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold flex items-center justify-center gap-2 shadow-md">
+            {isCreating
+              ? <><div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />Creating…</>
+              : <><ShieldCheck className="w-5 h-5" />Create Pre-Condition</>}
+          </button>
+
+          {created.length > 0 && (
+            <div className="bg-amber-50 border-2 border-amber-200 rounded-lg divide-y divide-amber-100">
+              {created.map(c => (
+                <div key={c.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="font-mono font-semibold text-amber-900">{c.key}</span>
+                  <span className="flex-1 truncate text-slate-700">{c.summary}</span>
+                  <button type="button" onClick={() => api.openExternal(browseUrl(c.key))}
+                    className="text-amber-700 hover:text-amber-900"><ExternalLink className="w-4 h-4" /></button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Manage */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Link2 className="w-5 h-5 text-amber-600" />
+              <h3 className="font-bold text-slate-900 text-lg">Test Pre-Conditions</h3>
+            </div>
+            {validatedTest && (
+              <button type="button" onClick={() => loadAssociations(validatedTest.key)}
+                className="text-slate-500 hover:text-slate-800"><RefreshCw className={`w-4 h-4 ${isLoadingAssociations ? 'animate-spin' : ''}`} /></button>
+            )}
+          </div>
+
+          <IssueValidator value={testKey} onChange={setTestKey} onValidation={handleTestValidation}
+            label="Test" placeholder="MTD-101" allowedTypes={['Test']} />
+
+          {validatedTest && (
+            <>
+              <div className="border-2 border-slate-200 rounded-lg divide-y divide-slate-100">
+                {associated.length === 0 ? (
+                  <div className="px-3 py-4 text-sm text-slate-500 text-center">
+                    {isLoadingAssociations ? 'Loading…' : 'No Pre-Conditions associated yet'}
+                  </div>
+                ) : associated.map(p => (
+                  <div key={p.key} className="px-3 py-2 text-sm">
+                    <div className="flex items-center gap-3">
+                      <span className="font-mono font-semibold text-amber-800">{p.key}</span>
+                      <span className="flex-1 truncate text-slate-800">{p.summary}</span>
+                      {p.preconditionType && (
+                        <span className="px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded text-xs">{p.preconditionType}</span>
+                      )}
+                      <button type="button" onClick={() => handleRemove(p.key)}
+                        className="text-red-500 hover:text-red-700"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                    {p.conditions && (
+                      <pre className="mt-1 text-xs text-slate-600 whitespace-pre-wrap font-mono line-clamp-3">{p.conditions}</pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <PreconditionPicker label="Add existing Pre-Conditions" onError={setError}
+                selected={toAdd} onChange={selected => setToAdd(selected.filter(s => !associated.some(a => a.key === s.key)))} />
+
+              <button type="button" onClick={handleAssociate} disabled={toAdd.length === 0 || isSavingAssociations}
+                className="w-full bg-amber-600 text-white py-2.5 px-4 rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold flex items-center justify-center gap-2">
+                <Link2 className="w-4 h-4" />
+                {isSavingAssociations ? 'Associating…' : `Associate ${toAdd.length || ''} with ${validatedTest.key}`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,7 +4,17 @@
  * - Components stored as names (not IDs), with autocomplete suggestions
  * - Story linking uses POST /rest/api/2/issueLink with "Test" type
  * - Navigation URLs correct
- * - Test associations: Test Set, Test Plan, Pre-condition with validation
+ * - Test associations: Test Set, Test Plan with validation
+ * - Pre-Conditions picked from the project and associated through Xray (not a link)
+ * - Tests placed into a Test Repository folder on create, or moved there afterwards
+ * - CSV import wizard loads validated rows as additional forms
+ * - Gherkin .feature scenarios open as draft forms for review
+ * - Existing Tests open for editing; only changed fields and steps are saved
+ * - Steps can be inserted and reordered; deletes/reorders on an existing Test
+ *   are reviewed in a before/after diff first
+ * - Existing Tests clone into new drafts, optionally linked back with "Clones"
+ * - Files can be attached to the Test being edited
+ * - Created tests can be transitioned together; templates may transition right after create
  */
 
 import React, { useState, useEffect, useRef } from 'react';
@@ -15,7 +25,28 @@ import { TemplateSelector } from '../components/TemplateSelector';
 import { PreviewPanel } from '../components/PreviewPanel';
 import { Alert } from '../components/common/Alert';
 import { IssueValidator } from '../components/IssueValidator';
-import type { CreateTestInput, TestStepInput, StoryValidationResult } from '../../shared/types';
+import { GherkinEditor } from '../components/GherkinEditor';
+import { PreconditionPicker } from '../components/PreconditionPicker';
+import { FolderPicker } from '../components/FolderPicker';
+import { CsvImportWizard } from '../components/CsvImportWizard';
+import { FeatureImportPanel } from '../components/FeatureImportPanel';
+import { OpenTestPanel } from '../components/OpenTestPanel';
+import { StepDiffPanel } from '../components/StepDiffPanel';
+import { CloneTestPanel } from '../components/CloneTestPanel';
+import { AttachmentPanel } from '../components/AttachmentPanel';
+import { TransitionPanel } from '../components/TransitionPanel';
+import { validateGherkin } from '../utils/gherkin';
+import { LINK_TYPES } from '../../shared/constants';
+import { countStepChanges, diffTestFields, diffTestSteps, needsStepReview, reapplyFailedChanges } from '../utils/testDiff';
+import type {
+  CreateTestInput,
+  ExistingTest,
+  FieldUpdateResult,
+  Precondition,
+  TestStepInput,
+  StoryValidationResult,
+  TestType,
+} from '../../shared/types';
 import {
   Plus,
   Trash2,
@@ -32,8 +63,21 @@ import {
   Sparkles,
   X,
   Link2,
+  Code2,
+  FolderInput,
+  Pencil,
+  Save,
+  XCircle,
+  ArrowUp,
+  ArrowDown,
+  ListPlus,
 } from 'lucide-react';
 
+const TEST_TYPE_OPTIONS: TestType[] = ['Manual', 'Automated', 'Cucumber', 'Generic'];
+
+// Cucumber and Generic tests are defined by a single field instead of steps
+const usesSteps = (testType: TestType) => testType === 'Manual' || testType === 'Automated';
+
 const emptyStep: TestStepInput = { step: '', data: '', result: '' };
 
 const emptyTest = (): CreateTestInput => ({
@@ -41,6 +85,9 @@ const emptyTest = (): CreateTestInput => ({
   description: '',
   testType: 'Manual',
   steps: [{ ...emptyStep }],
+  scenarioType: 'Scenario',
+  gherkin: '',
+  definition: '',
   priority: '',
   assignee: '',
   reporter: '',
@@ -48,6 +95,7 @@ const emptyTest = (): CreateTestInput => ({
   components: [],   // stored as names: ["Backend", "API"]
   fixVersions: [],
   dueDate: '',
+  folderPath: '',
 });
 
 interface CreatedTest {
@@ -57,7 +105,7 @@ interface CreatedTest {
 }
 
 export const TestCasesTab: React.FC = () => {
-  const { auth, templates } = useAppStore();
+  const { auth, templates, addCreatedTest } = useAppStore();
 
   const [testForms, setTestForms] = useState<CreateTestInput[]>([emptyTest()]);
   const [activeFormIndex, setActiveFormIndex] = useState(0);
@@ -67,14 +115,21 @@ export const TestCasesTab: React.FC = () => {
   const [success, setSuccess] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [createdTests, setCreatedTests] = useState<CreatedTest[]>([]);
+  const [moveFolderPath, setMoveFolderPath] = useState('');
+  const [isMoving, setIsMoving] = useState(false);
+
+  // Editing an existing Test: the loaded values are kept to diff against
+  const [editing, setEditing] = useState<ExistingTest | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveResults, setSaveResults] = useState<FieldUpdateResult[]>([]);
+  const [reviewedSteps, setReviewedSteps] = useState('');  // step changes the user acknowledged
 
   // Test Associations
   const [testSetKey, setTestSetKey] = useState('');
   const [validatedTestSet, setValidatedTestSet] = useState<StoryValidationResult | null>(null);
   const [testPlanKey, setTestPlanKey] = useState('');
   const [validatedTestPlan, setValidatedTestPlan] = useState<StoryValidationResult | null>(null);
-  const [preconditionKey, setPreconditionKey] = useState('');
-  const [validatedPrecondition, setValidatedPrecondition] = useState<StoryValidationResult | null>(null);
+  const [preconditions, setPreconditions] = useState<Precondition[]>([]);
 
   // Metadata
   const [priorities, setPriorities] = useState<any[]>([]);
@@ -170,6 +225,15 @@ export const TestCasesTab: React.FC = () => {
 
   const currentTest = testForms[activeFormIndex];
 
+  const changedFields = editing ? diffTestFields(editing.test, currentTest) : {};
+  const stepChanges = editing && usesSteps(currentTest.testType)
+    ? diffTestSteps(editing.test.steps, currentTest.steps)
+    : { update: [], add: [], remove: [] };
+  const changeCount = Object.keys(changedFields).length + countStepChanges(stepChanges);
+  const stepReviewKey = JSON.stringify(stepChanges);
+  const stepsNeedReview = !!editing && usesSteps(currentTest.testType) && needsStepReview(editing.test.steps, currentTest.steps);
+  const stepsReviewed = !stepsNeedReview || reviewedSteps === stepReviewKey;
+
   const handleAddForm = () => {
     setTestForms(prev => [...prev, { ...emptyTest(), reporter: auth.username || '' }]);
     setActiveFormIndex(testForms.length);
@@ -193,6 +257,20 @@ export const TestCasesTab: React.FC = () => {
     setSuccess('✨ Cloned current test case');
   };
 
+  // Imported tests replace untouched (summary-less) forms
+  const handleLoadDrafts = (tests: CreateTestInput[], source: string) => {
+    const kept = testForms.filter(t => t.summary.trim());
+    const imported = tests.map(t => ({
+      ...emptyTest(),
+      reporter: auth.username || '',
+      ...t,
+      steps: t.steps.length > 0 ? t.steps : [{ ...emptyStep }],
+    }));
+    setTestForms([...kept, ...imported]);
+    setActiveFormIndex(kept.length);
+    setSuccess(`📥 Loaded ${imported.length} test case${imported.length !== 1 ? 's' : ''} from ${source}`);
+  };
+
   const handleRemoveForm = (index: number, e: React.MouseEvent) => {
     e.stopPropagation();
     if (testForms.length === 1) { setError('Cannot remove the last form'); return; }
@@ -209,6 +287,17 @@ export const TestCasesTab: React.FC = () => {
     updateCurrentForm({ steps: currentTest.steps.filter((_, idx) => idx !== i) });
   };
 
+  const handleInsertStep = (i: number) =>
+    updateCurrentForm({ steps: [...currentTest.steps.slice(0, i + 1), { ...emptyStep }, ...currentTest.steps.slice(i + 1)] });
+
+  const handleMoveStep = (i: number, offset: -1 | 1) => {
+    const target = i + offset;
+    if (target < 0 || target >= currentTest.steps.length) return;
+    const steps = [...currentTest.steps];
+    [steps[i], steps[target]] = [steps[target], steps[i]];
+    updateCurrentForm({ steps });
+  };
+
   const handleStepChange = (i: number, field: keyof TestStepInput, val: string) =>
     updateCurrentForm({ steps: currentTest.steps.map((s, idx) => idx === i ? { ...s, [field]: val } : s) });
 
@@ -243,8 +332,13 @@ export const TestCasesTab: React.FC = () => {
     const fields: Record<string, any> = {
       summary: t.summary,
       testType: t.testType,
-      steps: t.steps.filter(s => s.step || s.data || s.result),
+      steps: usesSteps(t.testType) ? t.steps.filter(s => s.step || s.data || s.result) : [],
     };
+    if (t.testType === 'Cucumber') {
+      fields.scenarioType = t.scenarioType;
+      fields.gherkin = t.gherkin;
+    }
+    if (t.testType === 'Generic') fields.definition = t.definition;
     if (t.description) fields.description = t.description;
     if (t.priority) fields.priority = t.priority;
     if (t.assignee) fields.assignee = t.assignee;
@@ -254,6 +348,8 @@ export const TestCasesTab: React.FC = () => {
     if ((t.components || []).length > 0) fields.components = t.components;
     if ((t.fixVersions || []).length > 0) fields.fixVersions = t.fixVersions;
     if (t.dueDate) fields.dueDate = t.dueDate;
+    if (t.folderPath) fields.folderPath = t.folderPath;
+    if (t.transitionTo) fields.transitionTo = t.transitionTo;
     return fields;
   };
 
@@ -268,12 +364,37 @@ export const TestCasesTab: React.FC = () => {
     }
   };
 
+  const doAssociatePreconditions = async (testKey: string, errs: string[]) => {
+    try {
+      const res = await api.addTestPreconditions(testKey, preconditions.map(p => p.key));
+      if (!res.success) errs.push(`Pre-Conditions: ${res.error?.message || 'failed'}`);
+    } catch (e: any) {
+      errs.push(`Pre-Conditions: ${e.message || 'failed'}`);
+    }
+  };
+
+  const definitionIssue = (t: CreateTestInput, label: string): string | null => {
+    if (t.testType === 'Generic' && !t.definition?.trim()) return `${label}: Generic definition is required`;
+    if (t.testType !== 'Cucumber') return null;
+    if (!t.gherkin?.trim()) return `${label}: Gherkin definition is required`;
+    const [issue] = validateGherkin(t.gherkin, t.scenarioType || 'Scenario');
+    return issue ? `${label}: Gherkin line ${issue.line} - ${issue.message}` : null;
+  };
+
   const handleCreateAll = async () => {
     if (testForms.some(t => !t.summary.trim())) {
       setError('All test cases must have a summary');
       return;
     }
 
+    const definitionError = testForms
+      .map((t, i) => definitionIssue(t, `Test ${i + 1}`))
+      .find(Boolean);
+    if (definitionError) {
+      setError(definitionError);
+      return;
+    }
+
     setIsCreating(true);
     setError('');
     setSuccess('');
@@ -299,13 +420,17 @@ export const TestCasesTab: React.FC = () => {
         }
 
         const key = res.data.key;
+        addCreatedTest(key);
         console.log(`✅ Created: ${key}`);
+        if (res.data.warnings) linkErrors.push(...res.data.warnings);
 
         // All links use POST /rest/api/2/issueLink
         if (linkedStory)        await doLink('Test',    key, linkedStory.key,        'Story',         linkErrors);
         if (validatedTestSet)   await doLink('Relates', key, validatedTestSet.key,   'Test Set',      linkErrors);
         if (validatedTestPlan)  await doLink('Relates', key, validatedTestPlan.key,  'Test Plan',     linkErrors);
-        if (validatedPrecondition) await doLink('Relates', key, validatedPrecondition.key, 'Pre-condition', linkErrors);
+        if (preconditions.length > 0) await doAssociatePreconditions(key, linkErrors);
+        const clonedFrom = testForms[i].clonedFrom;
+        if (clonedFrom)         await doLink(LINK_TYPES.CLONES, key, clonedFrom,     'Clone source',  linkErrors);
 
         results.push({
           key,
@@ -328,7 +453,7 @@ export const TestCasesTab: React.FC = () => {
     } else if (allErrors.length > 0) {
       setSuccess(`⚠️ Created ${results.length}/${testForms.length} tests. Issues: ${allErrors.join('; ')}`);
     } else {
-      const linkedCount = [linkedStory, validatedTestSet, validatedTestPlan, validatedPrecondition].filter(Boolean).length;
+      const linkedCount = [linkedStory, validatedTestSet, validatedTestPlan].filter(Boolean).length + preconditions.length;
       const linkMsg = linkedCount > 0 ? ` with ${linkedCount} link${linkedCount > 1 ? 's' : ''}` : '';
       setSuccess(`✅ Created ${results.length} test case${results.length > 1 ? 's' : ''}${linkMsg}!`);
       resetForm(); // reset form but keep createdTests visible
@@ -344,17 +469,98 @@ export const TestCasesTab: React.FC = () => {
     setLinkedStory(null);
     setTestSetKey(''); setValidatedTestSet(null);
     setTestPlanKey(''); setValidatedTestPlan(null);
-    setPreconditionKey(''); setValidatedPrecondition(null);
+    setPreconditions([]);
   };
 
   // Full clear including results — triggered by explicit "Clear All" button
   const handleClear = () => {
     resetForm();
     setCreatedTests([]);
+    setMoveFolderPath('');
     setSuccess('');
     setError('');
   };
 
+  const handleMoveCreated = async () => {
+    if (!moveFolderPath) return;
+    setIsMoving(true);
+    try {
+      const res = await api.moveTestsToFolder(moveFolderPath, createdTests.map(t => t.key));
+      if (res.success) setSuccess(`📁 Moved ${createdTests.length} test${createdTests.length > 1 ? 's' : ''} to ${moveFolderPath}`);
+      else setError(res.error?.message || 'Failed to move tests');
+    } catch (e: any) {
+      setError(e.message || 'Failed to move tests');
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  // ── Edit existing ─────────────────────────────────────────────────────────
+  const handleOpenExisting = (existing: ExistingTest) => {
+    const test: CreateTestInput = {
+      ...emptyTest(),
+      ...existing.test,
+      steps: existing.test.steps.length > 0 ? existing.test.steps : [{ ...emptyStep }],
+    };
+    setEditing({ key: existing.key, test });
+    setTestForms([{ ...test, steps: test.steps.map(s => ({ ...s })) }]);
+    setActiveFormIndex(0);
+    setReviewedSteps('');
+    setError('');
+  };
+
+  const handleSaveChanges = async () => {
+    if (!editing) return;
+    if (!currentTest.summary.trim()) { setError('Summary is required'); return; }
+    const definitionError = definitionIssue(currentTest, editing.key);
+    if (definitionError) { setError(definitionError); return; }
+    if (!stepsReviewed) { setError('Review the step changes before saving'); return; }
+
+    setIsSaving(true);
+    setError('');
+    setSuccess('');
+    setSaveResults([]);
+    try {
+      const changes = { testKey: editing.key, fields: changedFields, steps: stepChanges };
+      const res = await api.updateTest(changes);
+      if (!res.success) { setError(res.error?.message || 'Failed to save changes'); return; }
+
+      const failed = res.data.filter(r => !r.success).length;
+      const outcome = failed > 0
+        ? `⚠️ ${failed} of ${res.data.length} change${res.data.length > 1 ? 's' : ''} to ${editing.key} failed`
+        : `✅ Saved ${res.data.length} change${res.data.length > 1 ? 's' : ''} to ${editing.key}`;
+
+      // Reload even after a partial failure: what did save is the new baseline,
+      // so new steps get their ids and nothing is sent twice
+      const reloaded = await api.getTestForEdit(editing.key);
+      if (!reloaded.success) {
+        // A stale baseline would send the saved changes again, so stop editing
+        handleCancelEdit();
+        setSaveResults(res.data);
+        setError(`${outcome}; could not reload it (${reloaded.error?.message || 'unknown error'}), open it again to keep editing`);
+        return;
+      }
+
+      handleOpenExisting(reloaded.data);
+      setSaveResults(res.data);
+      if (failed > 0) {
+        // Only the edits that failed stay pending on top of the reloaded test
+        setTestForms([reapplyFailedChanges({ ...emptyTest(), ...reloaded.data.test }, currentTest, changes, res.data)]);
+        setError(outcome);
+      } else setSuccess(outcome);
+    } catch (e: any) {
+      setError(e.message || 'Failed to save changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelEdit = () => {
+    setEditing(null);
+    setSaveResults([]);
+    resetForm();
+  };
+
   const copyAllKeys = () => {
     navigator.clipboard.writeText(createdTests.map(t => t.key).join(', '));
     setSuccess('📋 Copied all keys to clipboard');
@@ -384,6 +590,16 @@ export const TestCasesTab: React.FC = () => {
         onApply={f => setTestForms(prev => prev.map((t, i) => i === activeFormIndex ? { ...t, ...f } : t))}
         onError={setError} onSuccess={setSuccess} />
 
+      <OpenTestPanel onOpen={handleOpenExisting} onError={setError} disabled={isSaving} />
+
+      {!editing && (
+      <>
+      <CsvImportWizard priorities={priorities} onLoad={tests => handleLoadDrafts(tests, 'CSV')} />
+
+      <FeatureImportPanel onLoad={tests => handleLoadDrafts(tests, 'feature file')} onError={setError} />
+
+      <CloneTestPanel onLoad={(tests, sourceKey) => handleLoadDrafts(tests, sourceKey)} onError={setError} />
+
       <StoryLinker linkedStory={linkedStory} onLink={setLinkedStory} onSuccess={setSuccess} />
 
       {/* Test Associations */}
@@ -394,17 +610,18 @@ export const TestCasesTab: React.FC = () => {
           </div>
           <div className="flex-1">
             <h3 className="text-sm font-bold text-slate-900">Test Associations</h3>
-            <p className="text-xs text-slate-500">Link to Test Set, Test Plan, or Pre-condition</p>
+            <p className="text-xs text-slate-500">Link to Test Set or Test Plan, attach Pre-Conditions</p>
           </div>
           <span className="px-2 py-1 bg-purple-100 border border-purple-300 rounded text-xs text-purple-700">Optional</span>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <IssueValidator value={testSetKey} onChange={setTestSetKey}
             onValidation={setValidatedTestSet} label="Test Set" placeholder="MTD-100" allowedTypes={['Test Set']} />
           <IssueValidator value={testPlanKey} onChange={setTestPlanKey}
             onValidation={setValidatedTestPlan} label="Test Plan" placeholder="MTD-200" allowedTypes={['Test Plan']} />
-          <IssueValidator value={preconditionKey} onChange={setPreconditionKey}
-            onValidation={setValidatedPrecondition} label="Pre-condition" placeholder="MTD-300" allowedTypes={['Pre-Condition']} />
+        </div>
+        <div className="mt-4">
+          <PreconditionPicker selected={preconditions} onChange={setPreconditions} onError={setError} />
         </div>
       </div>
 
@@ -446,6 +663,58 @@ export const TestCasesTab: React.FC = () => {
           </button>
         </div>
       </div>
+      </>
+      )}
+
+      {/* Edit mode banner */}
+      {editing && (
+        <div className="bg-amber-50 rounded-xl border-2 border-amber-300 p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <Pencil className="w-5 h-5 text-amber-600" />
+            <div className="flex-1">
+              <h3 className="font-bold text-slate-900">
+                Editing <span className="font-mono">{editing.key}</span>
+              </h3>
+              <p className="text-xs text-slate-600">
+                {changeCount === 0
+                  ? 'No changes yet'
+                  : [
+                      ...Object.keys(changedFields),
+                      ...(countStepChanges(stepChanges) > 0 ? [`${countStepChanges(stepChanges)} step change(s)`] : []),
+                    ].join(', ')}
+              </p>
+            </div>
+            <button type="button" onClick={() => api.openExternal(`${auth.jiraBaseUrl}/browse/${editing.key}`)}
+              className="flex items-center gap-1 px-3 py-1.5 text-amber-800 hover:bg-amber-100 rounded-lg text-xs font-semibold">
+              Open in Jira <ExternalLink className="w-3 h-3" />
+            </button>
+          </div>
+
+          {usesSteps(currentTest.testType) && (
+            <StepDiffPanel original={editing.test.steps} current={currentTest.steps}
+              acknowledged={reviewedSteps === stepReviewKey}
+              onAcknowledge={ok => setReviewedSteps(ok ? stepReviewKey : '')} />
+          )}
+
+          <div className="bg-white rounded-lg border border-amber-200 p-3">
+            <AttachmentPanel target={{ kind: 'issue', issueKey: editing.key }} onError={setError} />
+          </div>
+
+          {saveResults.length > 0 && (
+            <div className="bg-white rounded-lg border border-amber-200 divide-y divide-slate-100">
+              {saveResults.map((r, i) => (
+                <div key={i} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                  {r.success
+                    ? <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />
+                    : <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />}
+                  <span className="font-medium text-slate-800">{r.field}</span>
+                  {r.error && <span className="text-xs text-red-700 truncate">{r.error}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Form + Preview */}
       <div className="grid grid-cols-1 xl:grid-cols-[1fr,380px] gap-6">
@@ -479,7 +748,7 @@ export const TestCasesTab: React.FC = () => {
                   <Package className="w-4 h-4 inline mr-1 text-slate-500" />Test Type
                 </label>
                 <div className="flex gap-4">
-                  {(['Manual', 'Automated'] as const).map(type => (
+                  {TEST_TYPE_OPTIONS.map(type => (
                     <label key={type} className="flex items-center gap-2 cursor-pointer">
                       <input type="radio" value={type} checked={currentTest.testType === type}
                         onChange={() => updateCurrentForm({ testType: type })}
@@ -489,10 +758,53 @@ export const TestCasesTab: React.FC = () => {
                   ))}
                 </div>
               </div>
+              <FolderPicker value={currentTest.folderPath || ''} onChange={folderPath => updateCurrentForm({ folderPath })} />
+              {currentTest.clonedFrom && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Copy className="w-4 h-4 text-violet-600" />
+                  <span className="text-slate-700">
+                    Clone of <span className="font-mono font-semibold">{currentTest.clonedFrom}</span> - linked back on create
+                  </span>
+                  <button type="button" onClick={() => updateCurrentForm({ clonedFrom: undefined })}
+                    className="text-xs text-slate-500 hover:text-red-600">Don&apos;t link</button>
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Cucumber / Generic definition */}
+          {!usesSteps(currentTest.testType) && (
+          <div className="bg-white rounded-xl border-2 border-slate-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <Code2 className="w-5 h-5 text-purple-600" />
+                <h3 className="font-bold text-slate-900 text-lg">
+                  {currentTest.testType === 'Cucumber' ? 'Gherkin Scenario' : 'Generic Definition'}
+                </h3>
+              </div>
+              {currentTest.testType === 'Cucumber' && (
+                <select value={currentTest.scenarioType}
+                  onChange={e => updateCurrentForm({ scenarioType: e.target.value as CreateTestInput['scenarioType'] })}
+                  className="px-3 py-1.5 border-2 border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-400">
+                  <option value="Scenario">Scenario</option>
+                  <option value="Scenario Outline">Scenario Outline</option>
+                </select>
+              )}
+            </div>
+            {currentTest.testType === 'Cucumber' ? (
+              <GherkinEditor value={currentTest.gherkin || ''} onChange={gherkin => updateCurrentForm({ gherkin })}
+                scenarioType={currentTest.scenarioType || 'Scenario'} />
+            ) : (
+              <textarea value={currentTest.definition}
+                onChange={e => updateCurrentForm({ definition: e.target.value })}
+                placeholder="Script path, command or test identifier, e.g. tests/api/login.spec.ts" rows={3}
+                className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-purple-400 resize-none" />
+            )}
+          </div>
+          )}
+
           {/* Test Steps */}
+          {usesSteps(currentTest.testType) && (
           <div className="bg-white rounded-xl border-2 border-slate-200 p-6">
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-2">
@@ -512,12 +824,26 @@ export const TestCasesTab: React.FC = () => {
                 <div key={i} className="p-4 bg-slate-50 border-2 border-slate-200 rounded-lg">
                   <div className="flex items-center justify-between mb-2">
                     <span className="text-sm font-bold text-slate-600">Step {i + 1}</span>
-                    {currentTest.steps.length > 1 && (
-                      <button type="button" onClick={() => handleRemoveStep(i)}
-                        className="text-red-500 hover:text-red-700">
-                        <Trash2 className="w-4 h-4" />
+                    <div className="flex items-center gap-2">
+                      <button type="button" onClick={() => handleMoveStep(i, -1)} disabled={i === 0}
+                        title="Move up" className="text-slate-500 hover:text-slate-800 disabled:opacity-30">
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => handleMoveStep(i, 1)} disabled={i === currentTest.steps.length - 1}
+                        title="Move down" className="text-slate-500 hover:text-slate-800 disabled:opacity-30">
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => handleInsertStep(i)}
+                        title="Insert step below" className="text-purple-500 hover:text-purple-700">
+                        <ListPlus className="w-4 h-4" />
                       </button>
-                    )}
+                      {currentTest.steps.length > 1 && (
+                        <button type="button" onClick={() => handleRemoveStep(i)}
+                          title="Delete step" className="text-red-500 hover:text-red-700">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
                   </div>
                   <div className="space-y-2">
                     <input type="text" value={step.step}
@@ -537,6 +863,7 @@ export const TestCasesTab: React.FC = () => {
               ))}
             </div>
           </div>
+          )}
 
           {/* Additional Details */}
           <div className="bg-white rounded-xl border-2 border-slate-200 p-6">
@@ -694,7 +1021,25 @@ export const TestCasesTab: React.FC = () => {
             </div>
           </div>
 
+          {/* Save / Cancel edit */}
+          {editing && (
+          <div className="flex gap-3">
+            <button type="button" onClick={handleSaveChanges} disabled={isSaving || changeCount === 0 || !stepsReviewed}
+              className="flex-1 bg-gradient-to-r from-amber-500 to-orange-600 text-white py-4 px-6 rounded-xl hover:from-amber-600 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed font-bold text-lg shadow-lg flex items-center justify-center gap-2">
+              {isSaving
+                ? <><div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />Saving…</>
+                : <><Save className="w-6 h-6" />Save {changeCount} Change{changeCount !== 1 ? 's' : ''}</>
+              }
+            </button>
+            <button type="button" onClick={handleCancelEdit} disabled={isSaving}
+              className="px-6 py-4 border-2 border-slate-300 text-slate-700 rounded-xl hover:bg-slate-100 disabled:opacity-50 font-semibold flex items-center gap-2">
+              <X className="w-5 h-5" /> Cancel Edit
+            </button>
+          </div>
+          )}
+
           {/* Create / Clear */}
+          {!editing && (
           <div className="flex gap-3">
             <button type="button" onClick={handleCreateAll}
               disabled={isCreating || testForms.some(t => !t.summary.trim())}
@@ -709,9 +1054,10 @@ export const TestCasesTab: React.FC = () => {
               <Trash2 className="w-5 h-5" /> Clear All
             </button>
           </div>
+          )}
 
           {/* ── Results banner — directly below create button ── */}
-          {createdTests.length > 0 && (
+          {!editing && createdTests.length > 0 && (
             <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl border-2 border-green-400 shadow-lg overflow-hidden">
               {/* Banner header */}
               <div className="flex items-center justify-between px-5 py-3 bg-green-600">
@@ -750,6 +1096,20 @@ export const TestCasesTab: React.FC = () => {
                   </div>
                 ))}
               </div>
+              {/* Bulk transition */}
+              <div className="px-5 py-3 border-t border-green-200 bg-white/60">
+                <TransitionPanel issueKeys={createdTests.map(t => t.key)} onError={setError} />
+              </div>
+              {/* Bulk move */}
+              <div className="flex items-end gap-3 px-5 py-3 border-t border-green-200 bg-white/60">
+                <div className="flex-1">
+                  <FolderPicker value={moveFolderPath} onChange={setMoveFolderPath} label="Move all to folder" />
+                </div>
+                <button type="button" onClick={handleMoveCreated} disabled={isMoving || !moveFolderPath}
+                  className="flex items-center gap-1.5 px-4 py-2.5 bg-green-600 text-white rounded-lg text-sm font-semibold hover:bg-green-700 disabled:opacity-50 transition-colors">
+                  <FolderInput className="w-4 h-4" /> {isMoving ? 'Moving…' : 'Move'}
+                </button>
+              </div>
             </div>
           )}
 
@@ -5,6 +5,8 @@
  * ✅ openExternal for "Open in Jira" (works in Electron)
  * ✅ Accurate success message
  * ✅ resetForm keeps banner visible; Clear wipes everything
+ * ✅ Paged JQL test browser with multi-select (replaces the 100-result label search)
+ * ✅ Created issue can be transitioned straight from the result banner
  */
 
 import React, { useState, useEffect, useRef } from 'react';
@@ -13,11 +15,15 @@ import api from '../api/electron';
 import { StoryLinker } from '../components/StoryLinker';
 import { TemplateSelector } from '../components/TemplateSelector';
 import { Alert } from '../components/common/Alert';
+import { TransitionPanel } from '../components/TransitionPanel';
+import { TestBrowser } from '../components/TestBrowser';
 import { IssueValidator, MultiIssueValidator } from '../components/IssueValidator';
+import { ResultsImportPanel } from '../components/ResultsImportPanel';
+import { ExecutionDashboardPanel } from '../components/ExecutionDashboardPanel';
 import type { CreateTestExecutionInput, StoryValidationResult } from '../../shared/types';
 import {
   Play, Trash2, CheckCircle2, FileText,
-  User, Tag, Search, Copy, ExternalLink, X, Plus, Calendar, Layers,
+  User, Tag, Search, Copy, ExternalLink, X, Calendar, Layers,
 } from 'lucide-react';
 
 const emptyExecution = (): CreateTestExecutionInput => ({
@@ -27,7 +33,7 @@ const emptyExecution = (): CreateTestExecutionInput => ({
 interface CreatedItem { key: string; url: string; summary: string; }
 
 export const TestExecutionTab: React.FC = () => {
-  const { auth, templates } = useAppStore();
+  const { auth, templates, addCreatedExecution } = useAppStore();
   const [currentExecution, setCurrentExecution] = useState<CreateTestExecutionInput>(emptyExecution());
   const [linkedStory, setLinkedStory] = useState<StoryValidationResult | null>(null);
   const [testPlanKey, setTestPlanKey] = useState('');
@@ -48,11 +54,6 @@ export const TestExecutionTab: React.FC = () => {
   const [showLabelSuggestions, setShowLabelSuggestions] = useState(false);
   const labelRef = useRef<HTMLDivElement>(null);
 
-  // Test search
-  const [labelSearchQuery, setLabelSearchQuery] = useState('');
-  const [foundTestKeys, setFoundTestKeys] = useState<string[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
-
   useEffect(() => {
     api.getVersions().then(r => { if (r.success) setVersions(r.data); });
   }, []);
@@ -105,24 +106,9 @@ export const TestExecutionTab: React.FC = () => {
   const handleRemoveVersion = (version: string) =>
     setCurrentExecution(prev => ({ ...prev, fixVersions: (prev.fixVersions || []).filter(v => v !== version) }));
 
-  const handleSearchByLabel = async () => {
-    if (!labelSearchQuery.trim()) return;
-    setIsSearching(true); setError('');
-    try {
-      const result = await api.searchTestsByLabel(labelSearchQuery.trim());
-      if (result.success && result.data.length > 0) {
-        setFoundTestKeys(result.data);
-        setSuccess(`Found ${result.data.length} test(s) with label "${labelSearchQuery}"`);
-      } else { setError(`No tests found with label "${labelSearchQuery}"`); setFoundTestKeys([]); }
-    } catch (err: any) { setError(err.message || 'Search failed'); }
-    finally { setIsSearching(false); }
-  };
-
-  const handleAddFoundTests = () => {
-    const newTests = foundTestKeys.filter(k => !selectedTests.includes(k));
-    setSelectedTests([...selectedTests, ...newTests]);
-    setSuccess(`Added ${newTests.length} test(s) to execution`);
-    setFoundTestKeys([]); setLabelSearchQuery('');
+  const handleAddFoundTests = (keys: string[]) => {
+    setSelectedTests(prev => [...prev, ...keys.filter(k => !prev.includes(k))]);
+    setSuccess(`Added ${keys.length} test(s) to execution`);
   };
 
   const handleCreate = async () => {
@@ -133,6 +119,7 @@ export const TestExecutionTab: React.FC = () => {
       if (!result.success) { setError(result.error?.message || 'Failed to create Test Execution'); return; }
 
       const key = result.data.key;
+      addCreatedExecution(key);
       const url = `${auth.jiraBaseUrl}/browse/${key}`;
       const linkErrors: string[] = [];
 
@@ -151,7 +138,8 @@ export const TestExecutionTab: React.FC = () => {
       const linkedCount = [linkedStory, validatedTestPlan].filter(Boolean).length;
       const linkedMsg = linkedCount > 0 && linkErrors.length === 0
         ? ` with ${linkedCount} link${linkedCount > 1 ? 's' : ''}` : '';
-      const errMsg = linkErrors.length > 0 ? ` (${linkErrors.join('; ')})` : '';
+      const problems = [...(result.data.warnings || []), ...linkErrors];
+      const errMsg = problems.length > 0 ? ` (${problems.join('; ')})` : '';
       setSuccess(`✅ Created Test Execution: ${key}${linkedMsg}${errMsg}`);
       resetForm();
     } catch (err: any) { setError(err.message || 'Failed to create Test Execution'); }
@@ -162,7 +150,7 @@ export const TestExecutionTab: React.FC = () => {
     setCurrentExecution({ ...emptyExecution(), reporter: auth.username || '' });
     setLinkedStory(null);
     setTestPlanKey(''); setValidatedTestPlan(null);
-    setSelectedTests([]); setFoundTestKeys([]); setLabelSearchQuery('');
+    setSelectedTests([]);
   };
 
   const handleClear = () => { resetForm(); setCreatedItem(null); setSuccess(''); setError(''); };
@@ -187,6 +175,13 @@ export const TestExecutionTab: React.FC = () => {
         onApply={fields => setCurrentExecution(prev => ({ ...prev, ...fields }))}
         onError={setError} onSuccess={setSuccess} />
 
+      <ResultsImportPanel execution={currentExecution}
+        onImported={(key, summary) => {
+          addCreatedExecution(key);
+          setCreatedItem({ key, url: `${auth.jiraBaseUrl}/browse/${key}`, summary });
+        }}
+        onError={setError} onSuccess={setSuccess} />
+
       <StoryLinker linkedStory={linkedStory} onLink={setLinkedStory} onSuccess={setSuccess} />
 
       {/* Test Plan Association */}
@@ -247,34 +242,8 @@ export const TestExecutionTab: React.FC = () => {
           />
         </div>
         <div>
-          <label className="block text-sm font-semibold text-slate-700 mb-1.5">Search tests by label</label>
-          <div className="flex gap-2">
-            <input type="text" value={labelSearchQuery}
-              onChange={e => setLabelSearchQuery(e.target.value)}
-              onKeyDown={e => e.key === 'Enter' && handleSearchByLabel()}
-              placeholder="e.g. regression"
-              className="flex-1 px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500" />
-            <button type="button" onClick={handleSearchByLabel} disabled={isSearching}
-              className="flex items-center gap-2 px-4 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-semibold">
-              <Search className="w-4 h-4" />{isSearching ? 'Searching…' : 'Search'}
-            </button>
-          </div>
-          {foundTestKeys.length > 0 && (
-            <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-lg">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-semibold text-green-800">Found {foundTestKeys.length} test(s)</span>
-                <button type="button" onClick={handleAddFoundTests}
-                  className="flex items-center gap-1.5 px-3 py-1.5 bg-green-600 text-white rounded text-xs font-semibold hover:bg-green-700">
-                  <Plus className="w-3 h-3" /> Add All
-                </button>
-              </div>
-              <div className="flex flex-wrap gap-1">
-                {foundTestKeys.map(k => (
-                  <span key={k} className="px-2 py-0.5 bg-white border border-green-200 rounded text-xs font-mono">{k}</span>
-                ))}
-              </div>
-            </div>
-          )}
+          <label className="block text-sm font-semibold text-slate-700 mb-1.5">Browse tests</label>
+          <TestBrowser selectedKeys={selectedTests} onAdd={handleAddFoundTests} onError={setError} />
         </div>
         {selectedTests.length > 0 && (
           <div className="mt-4">
@@ -430,8 +399,14 @@ export const TestExecutionTab: React.FC = () => {
               Open in Jira <ExternalLink className="w-3 h-3" />
             </button>
           </div>
+          <div className="px-5 py-3 border-t border-green-200 bg-white/60">
+            <TransitionPanel issueKeys={[createdItem.key]} onError={setError} />
+          </div>
         </div>
       )}
+
+      <ExecutionDashboardPanel pinnedKey={createdItem?.key} onError={setError}
+        onOpenIssue={key => api.openExternal(`${auth.jiraBaseUrl}/browse/${key}`)} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,387 @@
+/**
+ * TestPlansTab — create and manage Xray Test Plans
+ * ✅ Create a plan with fix versions, labels and initial tests
+ * ✅ Add / remove tests of an existing plan
+ * ✅ Attach / detach Test Executions
+ * ✅ Overall status of the plan's tests (latest run per test)
+ * ✅ Workflow transition of the loaded plan
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useAppStore } from '../store/appStore';
+import api from '../api/electron';
+import { Alert } from '../components/common/Alert';
+import { IssueValidator, MultiIssueValidator } from '../components/IssueValidator';
+import { TestRunStatusBadge } from '../components/TestRunStatusBadge';
+import { SavedSearchPicker } from '../components/SavedSearchPicker';
+import { TransitionPanel } from '../components/TransitionPanel';
+import type { CreateTestPlanInput, StoryValidationResult, TestPlanDetails } from '../../shared/types';
+import {
+  Map as MapIcon, Plus, ExternalLink, Trash2, RefreshCw, Play, ListChecks, Tag, X,
+} from 'lucide-react';
+
+const emptyTestPlan = (): CreateTestPlanInput => ({
+  summary: '', description: '', assignee: '', reporter: '', fixVersions: [], labels: [],
+});
+
+// Bar colours per status; anything custom falls back to amber
+const STATUS_BAR_COLORS: Record<string, string> = {
+  PASS: 'bg-green-500',
+  FAIL: 'bg-red-500',
+  EXECUTING: 'bg-blue-500',
+  ABORTED: 'bg-slate-700',
+  TODO: 'bg-slate-300',
+};
+
+export const TestPlansTab: React.FC = () => {
+  const { auth } = useAppStore();
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Create
+  const [currentPlan, setCurrentPlan] = useState<CreateTestPlanInput>(emptyTestPlan());
+  const [initialTests, setInitialTests] = useState<string[]>([]);
+  const [versions, setVersions] = useState<any[]>([]);
+  const [versionInput, setVersionInput] = useState('');
+  const [labelInput, setLabelInput] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Manage
+  const [planKey, setPlanKey] = useState('');
+  const [plan, setPlan] = useState<TestPlanDetails | null>(null);
+  const [isLoadingPlan, setIsLoadingPlan] = useState(false);
+  const [testsToAdd, setTestsToAdd] = useState<string[]>([]);
+  const [executionKey, setExecutionKey] = useState('');
+  const [validatedExecution, setValidatedExecution] = useState<StoryValidationResult | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    api.getVersions().then(r => { if (r.success) setVersions(r.data); });
+  }, []);
+
+  useEffect(() => {
+    if (auth.username) setCurrentPlan(prev => ({ ...prev, reporter: auth.username || '' }));
+  }, [auth.username]);
+
+  const browseUrl = (key: string) => `${auth.jiraBaseUrl}/browse/${key}`;
+
+  // ── Create ────────────────────────────────────────────────────────────────
+  const handleAddVersion = () => {
+    const cur = currentPlan.fixVersions || [];
+    if (versionInput && !cur.includes(versionInput)) setCurrentPlan(prev => ({ ...prev, fixVersions: [...cur, versionInput] }));
+    setVersionInput('');
+  };
+
+  const addLabel = () => {
+    const v = labelInput.trim();
+    const cur = currentPlan.labels || [];
+    if (v && !cur.includes(v)) setCurrentPlan(prev => ({ ...prev, labels: [...cur, v] }));
+    setLabelInput('');
+  };
+
+  const handleCreate = async () => {
+    if (!currentPlan.summary.trim()) { setError('Summary is required'); return; }
+    setIsCreating(true); setError(''); setSuccess('');
+    try {
+      const res = await api.createTestPlan(currentPlan, initialTests);
+      if (!res.success) { setError(res.error?.message || 'Failed to create Test Plan'); return; }
+
+      const key = res.data.key;
+      const warnings = res.data.warnings || [];
+      setSuccess(warnings.length > 0
+        ? `⚠️ Created Test Plan: ${key} (${warnings.join('; ')})`
+        : `✅ Created Test Plan: ${key}${initialTests.length > 0 ? ` with ${initialTests.length} test(s)` : ''}`);
+      setCurrentPlan({ ...emptyTestPlan(), reporter: auth.username || '' });
+      setInitialTests([]);
+      // Open the new plan on the right so tests/executions can be managed straight away
+      setPlanKey(key);
+      await loadPlan(key);
+    } catch (err: any) { setError(err.message || 'Failed to create Test Plan'); }
+    finally { setIsCreating(false); }
+  };
+
+  // ── Manage ────────────────────────────────────────────────────────────────
+  const loadPlan = async (key: string) => {
+    setIsLoadingPlan(true); setError('');
+    try {
+      const res = await api.getTestPlan(key);
+      if (res.success) setPlan(res.data);
+      else { setError(res.error?.message || 'Failed to load Test Plan'); setPlan(null); }
+    } catch (err: any) { setError(err.message || 'Failed to load Test Plan'); }
+    finally { setIsLoadingPlan(false); }
+  };
+
+  const handlePlanValidation = (result: StoryValidationResult | null) => {
+    setTestsToAdd([]);
+    if (result) loadPlan(result.key);
+    else setPlan(null);
+  };
+
+  // Resolves to whether the update went through, so callers keep their input when it did not
+  const runUpdate = async (action: () => Promise<{ success: boolean; error?: { message: string } }>, message: string) => {
+    if (!plan) return false;
+    setIsUpdating(true); setError(''); setSuccess('');
+    try {
+      const res = await action();
+      if (!res.success) { setError(res.error?.message || 'Update failed'); return false; }
+      setSuccess(message);
+      await loadPlan(plan.key);
+      return true;
+    } catch (err: any) { setError(err.message || 'Update failed'); return false; }
+    finally { setIsUpdating(false); }
+  };
+
+  const handleAddTests = async () => {
+    if (!plan || testsToAdd.length === 0) return;
+    const added = await runUpdate(() => api.updateTestPlanTests(plan.key, { add: testsToAdd }),
+      `✅ Added ${testsToAdd.length} test(s) to ${plan.key}`);
+    if (added) setTestsToAdd([]);
+  };
+
+  const handleRemoveTest = (testKey: string) => plan &&
+    runUpdate(() => api.updateTestPlanTests(plan.key, { remove: [testKey] }), `🗑️ Removed ${testKey} from ${plan.key}`);
+
+  const handleAttachExecution = async () => {
+    if (!plan || !validatedExecution) return;
+    const attached = await runUpdate(() => api.updateTestPlanExecutions(plan.key, { add: [validatedExecution.key] }),
+      `✅ Attached ${validatedExecution.key} to ${plan.key}`);
+    if (attached) { setExecutionKey(''); setValidatedExecution(null); }
+  };
+
+  const handleDetachExecution = (key: string) => plan &&
+    runUpdate(() => api.updateTestPlanExecutions(plan.key, { remove: [key] }), `🗑️ Detached ${key} from ${plan.key}`);
+
+  const statusCounts = (plan?.tests || []).reduce<Record<string, number>>((acc, t) => {
+    acc[t.latestStatus] = (acc[t.latestStatus] || 0) + 1;
+    return acc;
+  }, {});
+  const total = plan?.tests.length || 0;
+  const passRate = total > 0 ? Math.round(((statusCounts.PASS || 0) / total) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-indigo-600 to-blue-600 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+            <MapIcon className="w-6 h-6" />
+          </div>
+          <div><h2 className="text-2xl font-bold">Test Plans</h2>
+            <p className="text-indigo-100 text-sm">Plan a sprint: pick the tests, attach executions, watch the status</p></div>
+        </div>
+      </div>
+
+      {error   && <Alert type="error"   message={error}   onDismiss={() => setError('')} />}
+      {success && <Alert type="success" message={success} onDismiss={() => setSuccess('')} />}
+
+      <div className="grid grid-cols-1 xl:grid-cols-[420px,1fr] gap-6">
+        {/* Create */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4 h-fit">
+          <div className="flex items-center gap-2">
+            <Plus className="w-5 h-5 text-indigo-600" />
+            <h3 className="font-bold text-slate-900 text-lg">New Test Plan</h3>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+              Summary <span className="text-red-500">*</span>
+            </label>
+            <input type="text" value={currentPlan.summary}
+              onChange={e => setCurrentPlan(prev => ({ ...prev, summary: e.target.value }))}
+              placeholder="e.g. Sprint 42 regression"
+              className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">Description</label>
+            <textarea value={currentPlan.description} rows={2}
+              onChange={e => setCurrentPlan(prev => ({ ...prev, description: e.target.value }))}
+              className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">Fix Versions</label>
+            <div className="flex gap-2 mb-2">
+              <select value={versionInput} onChange={e => setVersionInput(e.target.value)}
+                className="flex-1 px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                <option value="">-- Select Version --</option>
+                {versions.map((v: any) => <option key={v.id} value={v.name}>{v.name}</option>)}
+              </select>
+              <button type="button" onClick={handleAddVersion} disabled={!versionInput}
+                className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-semibold">Add</button>
+            </div>
+            {(currentPlan.fixVersions || []).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {(currentPlan.fixVersions || []).map(v => (
+                  <span key={v} className="px-3 py-1 bg-indigo-100 text-indigo-800 rounded-full text-sm flex items-center gap-1.5">
+                    {v}
+                    <button type="button" onClick={() => setCurrentPlan(prev => ({ ...prev, fixVersions: (prev.fixVersions || []).filter(x => x !== v) }))}
+                      className="text-indigo-600 hover:text-red-600">×</button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+              <Tag className="w-4 h-4 inline mr-1 text-slate-500" />Labels
+            </label>
+            <div className="flex gap-2 mb-2">
+              <input type="text" value={labelInput} onChange={e => setLabelInput(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addLabel()} placeholder="Type label name…"
+                className="flex-1 px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+              <button type="button" onClick={addLabel} disabled={!labelInput.trim()}
+                className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-semibold">Add</button>
+            </div>
+            {(currentPlan.labels || []).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {(currentPlan.labels || []).map(l => (
+                  <span key={l} className="px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm flex items-center gap-1.5">
+                    {l}
+                    <button type="button" onClick={() => setCurrentPlan(prev => ({ ...prev, labels: (prev.labels || []).filter(x => x !== l) }))}
+                      className="hover:text-red-600"><X className="w-3.5 h-3.5" /></button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <MultiIssueValidator value={initialTests} onChange={setInitialTests} onValidation={() => {}}
+            label="Tests" allowedTypes={['Test']} />
+          <SavedSearchPicker selectedKeys={initialTests} onError={setError}
+            onAdd={keys => setInitialTests(prev => [...prev, ...keys])} />
+
+          <button type="button" onClick={handleCreate} disabled={isCreating}
+            className="w-full bg-gradient-to-r from-indigo-600 to-blue-600 text-white py-3 px-4 rounded-lg hover:from-indigo-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold flex items-center justify-center gap-2 shadow-md">
+            {isCreating
+              ? <><div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />Creating…</>
+              : <><MapIcon className="w-5 h-5" />Create Test Plan</>}
+          </button>
+        </div>
+
+        {/* Manage */}
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-5">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <IssueValidator value={planKey} onChange={setPlanKey} onValidation={handlePlanValidation}
+                label="Test Plan" placeholder="MTD-200" allowedTypes={['Test Plan']} />
+            </div>
+            {plan && (
+              <>
+                <button type="button" onClick={() => loadPlan(plan.key)} title="Refresh"
+                  className="p-2.5 text-slate-500 hover:text-slate-800 border-2 border-slate-200 rounded-lg">
+                  <RefreshCw className={`w-4 h-4 ${isLoadingPlan ? 'animate-spin' : ''}`} />
+                </button>
+                <button type="button" onClick={() => api.openExternal(browseUrl(plan.key))} title="Open in Jira"
+                  className="p-2.5 text-indigo-600 hover:text-indigo-800 border-2 border-slate-200 rounded-lg">
+                  <ExternalLink className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+
+          {plan && (
+            <>
+              <TransitionPanel issueKeys={[plan.key]} onError={setError} />
+
+              {/* Status summary */}
+              <div className="p-4 bg-slate-50 border-2 border-slate-200 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-bold text-slate-900">{plan.summary}</div>
+                    <div className="text-xs text-slate-500">{total} test(s) · {plan.executions.length} execution(s)</div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-green-700">{passRate}%</div>
+                    <div className="text-xs text-slate-500">passing</div>
+                  </div>
+                </div>
+                {total > 0 && (
+                  <>
+                    <div className="flex h-3 rounded-full overflow-hidden bg-slate-200">
+                      {Object.entries(statusCounts).map(([status, count]) => (
+                        <div key={status} className={STATUS_BAR_COLORS[status] || 'bg-amber-500'}
+                          style={{ width: `${(count / total) * 100}%` }} title={`${status}: ${count}`} />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(statusCounts).map(([status, count]) => (
+                        <span key={status} className="flex items-center gap-1.5 text-xs">
+                          <TestRunStatusBadge status={status} /> {count}
+                        </span>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Tests */}
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <ListChecks className="w-4 h-4 text-indigo-600" />
+                  <h4 className="font-semibold text-slate-900">Tests</h4>
+                </div>
+                <div className="border-2 border-slate-200 rounded-lg divide-y divide-slate-100 max-h-72 overflow-y-auto">
+                  {plan.tests.length === 0 ? (
+                    <div className="px-3 py-4 text-sm text-slate-500 text-center">No tests in this plan yet</div>
+                  ) : plan.tests.map(t => (
+                    <div key={t.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span className="font-mono font-semibold text-indigo-800">{t.key}</span>
+                      <span className="flex-1 truncate text-slate-800">{t.summary}</span>
+                      <TestRunStatusBadge status={t.latestStatus} />
+                      <button type="button" onClick={() => handleRemoveTest(t.key)} disabled={isUpdating}
+                        className="text-red-500 hover:text-red-700 disabled:opacity-50"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 space-y-2">
+                  <MultiIssueValidator value={testsToAdd} onChange={setTestsToAdd} onValidation={() => {}}
+                    placeholder="MTD-101, MTD-102" allowedTypes={['Test']} />
+                  <SavedSearchPicker selectedKeys={[...testsToAdd, ...plan.tests.map(t => t.key)]} onError={setError}
+                    onAdd={keys => setTestsToAdd(prev => [...prev, ...keys])} />
+                  <button type="button" onClick={handleAddTests} disabled={testsToAdd.length === 0 || isUpdating}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-semibold text-sm flex items-center gap-2">
+                    <Plus className="w-4 h-4" /> Add {testsToAdd.length || ''} test(s) to plan
+                  </button>
+                </div>
+              </div>
+
+              {/* Executions */}
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <Play className="w-4 h-4 text-green-600" />
+                  <h4 className="font-semibold text-slate-900">Test Executions</h4>
+                </div>
+                <div className="border-2 border-slate-200 rounded-lg divide-y divide-slate-100">
+                  {plan.executions.length === 0 ? (
+                    <div className="px-3 py-4 text-sm text-slate-500 text-center">No executions attached</div>
+                  ) : plan.executions.map(e => (
+                    <div key={e.key} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span className="font-mono font-semibold text-green-800">{e.key}</span>
+                      <span className="flex-1 truncate text-slate-800">{e.summary}</span>
+                      <button type="button" onClick={() => api.openExternal(browseUrl(e.key))}
+                        className="text-slate-500 hover:text-slate-800"><ExternalLink className="w-4 h-4" /></button>
+                      <button type="button" onClick={() => handleDetachExecution(e.key)} disabled={isUpdating}
+                        className="text-red-500 hover:text-red-700 disabled:opacity-50"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 flex items-end gap-2">
+                  <div className="flex-1">
+                    <IssueValidator value={executionKey} onChange={setExecutionKey} onValidation={setValidatedExecution}
+                      placeholder="MTD-400" allowedTypes={['Test Execution']} />
+                  </div>
+                  <button type="button" onClick={handleAttachExecution} disabled={!validatedExecution || isUpdating}
+                    className="px-4 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-semibold text-sm">
+                    Attach
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,399 @@
+/**
+ * TestRunTab — record Xray results without leaving the app
+ * ✅ Lists the test runs of a Test Execution
+ * ✅ Run status + comment per test
+ * ✅ Step status, actual result and comment per step
+ * ✅ Only changed steps are sent back to Xray
+ * ✅ Evidence (screenshots, HAR files, logs) per run and per step
+ * ✅ Bugs raised from a failed run or step, linked back and listed on the run
+ * ✅ Guided step-by-step runner in its own window
+ */
+
+import React, { useCallback, useState } from 'react';
+import { useAppStore } from '../store/appStore';
+import api from '../api/electron';
+import { Alert } from '../components/common/Alert';
+import { IssueValidator } from '../components/IssueValidator';
+import { TestRunStatusBadge } from '../components/TestRunStatusBadge';
+import { AttachmentPanel } from '../components/AttachmentPanel';
+import { CreateDefectPanel } from '../components/CreateDefectPanel';
+import { TEST_RUN_STATUSES } from '../../shared/constants';
+import type {
+  CreatedDefect,
+  StoryValidationResult,
+  TestRun,
+  TestRunStatus,
+  TestRunStep,
+  TestRunSummary,
+  UpdateTestRunStepInput,
+} from '../../shared/types';
+import {
+  ClipboardCheck, RefreshCw, Save, ExternalLink, ListChecks, MessageSquare, PlayCircle, Bug,
+} from 'lucide-react';
+
+const STATUS_OPTIONS = Object.values(TEST_RUN_STATUSES) as TestRunStatus[];
+
+type StepEdits = Record<number, UpdateTestRunStepInput>;
+
+export const TestRunTab: React.FC = () => {
+  const { auth } = useAppStore();
+  const [executionKey, setExecutionKey] = useState('');
+  const [validatedExecution, setValidatedExecution] = useState<StoryValidationResult | null>(null);
+  const [runs, setRuns] = useState<TestRunSummary[]>([]);
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Selected run
+  const [activeRun, setActiveRun] = useState<TestRun | null>(null);
+  const [isLoadingRun, setIsLoadingRun] = useState(false);
+  const [runStatus, setRunStatus] = useState<TestRunStatus>('TODO');
+  const [runComment, setRunComment] = useState('');
+  const [stepEdits, setStepEdits] = useState<StepEdits>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [defectTarget, setDefectTarget] = useState<{ stepId?: number } | null>(null);
+
+  const loadRuns = async (key: string) => {
+    setIsLoadingRuns(true); setError('');
+    try {
+      const res = await api.getExecutionTestRuns(key);
+      if (res.success) {
+        setRuns(res.data);
+        if (res.data.length === 0) setError(`${key} has no tests yet`);
+      } else { setError(res.error?.message || 'Failed to load test runs'); setRuns([]); }
+    } catch (err: any) { setError(err.message || 'Failed to load test runs'); }
+    finally { setIsLoadingRuns(false); }
+  };
+
+  const handleExecutionValidation = (result: StoryValidationResult | null) => {
+    setValidatedExecution(result);
+    setActiveRun(null); setStepEdits({});
+    if (result) loadRuns(result.key);
+    else setRuns([]);
+  };
+
+  const openRun = async (runId: number) => {
+    setIsLoadingRun(true); setError('');
+    try {
+      const res = await api.getTestRun(runId);
+      if (!res.success) { setError(res.error?.message || 'Failed to load test run'); return; }
+      setActiveRun(res.data);
+      setRunStatus(res.data.status);
+      setRunComment(res.data.comment);
+      setStepEdits({});
+      setDefectTarget(null);
+    } catch (err: any) { setError(err.message || 'Failed to load test run'); }
+    finally { setIsLoadingRun(false); }
+  };
+
+  const editStep = (step: TestRunStep, updates: UpdateTestRunStepInput) =>
+    setStepEdits(prev => ({ ...prev, [step.id]: { ...prev[step.id], ...updates } }));
+
+  const stepValue = <K extends keyof UpdateTestRunStepInput>(step: TestRunStep, field: K): TestRunStep[K] =>
+    (stepEdits[step.id]?.[field] ?? step[field]) as TestRunStep[K];
+
+  const isRunDirty = !!activeRun && (runStatus !== activeRun.status || runComment !== activeRun.comment);
+  const dirtyStepCount = Object.keys(stepEdits).length;
+
+  const handleSave = async () => {
+    if (!activeRun) return;
+    setIsSaving(true); setError(''); setSuccess('');
+    const failures: string[] = [];
+    const unsavedEdits: StepEdits = {};
+    let runSaved = true;
+
+    // Steps first so Xray doesn't recompute the run status over an explicit choice
+    for (const [stepId, input] of Object.entries(stepEdits)) {
+      const step = activeRun.steps.find(s => s.id === Number(stepId));
+      try {
+        const res = await api.updateTestRunStep(activeRun.id, Number(stepId), input);
+        if (!res.success) {
+          failures.push(`Step ${step?.index ?? stepId}: ${res.error?.message || 'failed'}`);
+          unsavedEdits[Number(stepId)] = input;
+        }
+      } catch (e: any) {
+        failures.push(`Step ${step?.index ?? stepId}: ${e.message || 'failed'}`);
+        unsavedEdits[Number(stepId)] = input;
+      }
+    }
+
+    if (isRunDirty) {
+      try {
+        const res = await api.updateTestRun(activeRun.id, { status: runStatus, comment: runComment });
+        if (!res.success) { failures.push(`Run: ${res.error?.message || 'failed'}`); runSaved = false; }
+      } catch (e: any) { failures.push(`Run: ${e.message || 'failed'}`); runSaved = false; }
+    }
+
+    // Reload so the view reflects what Xray actually stored. Both loaders clear
+    // the error, so the outcome is reported after them
+    const { id, testKey } = activeRun;
+    await openRun(id);
+    if (validatedExecution) await loadRuns(validatedExecution.key);
+
+    if (failures.length > 0) {
+      // Keep what was not stored so it can be saved again
+      setStepEdits(unsavedEdits);
+      if (!runSaved) { setRunStatus(runStatus); setRunComment(runComment); }
+      setError(`⚠️ Some changes were not saved: ${failures.join('; ')}`);
+    } else setSuccess(`✅ Saved results for ${testKey}`);
+    setIsSaving(false);
+  };
+
+  const closeDefect = useCallback(() => setDefectTarget(null), []);
+
+  // The new Bug is shown right away; Xray's copy catches up on the next reload
+  const handleDefectCreated = (created: CreatedDefect) => {
+    const stepId = defectTarget?.stepId;
+    setActiveRun(prev => prev && (stepId === undefined
+      ? { ...prev, defects: [...prev.defects, created.key] }
+      : { ...prev, steps: prev.steps.map(s => (s.id === stepId ? { ...s, defects: [...s.defects, created.key] } : s)) }));
+    setDefectTarget(null);
+    setSuccess(`🐞 Created ${created.key}`);
+    if (created.warnings.length > 0) setError(`⚠️ ${created.warnings.join('; ')}`);
+  };
+
+  const defectLinks = (keys: string[]) => keys.map(key => (
+    <button key={key} type="button" onClick={() => api.openExternal(`${auth.jiraBaseUrl}/browse/${key}`)}
+      className="flex items-center gap-1 px-2 py-0.5 bg-red-50 border border-red-200 rounded text-xs font-mono text-red-800 hover:bg-red-100">
+      <Bug className="w-3 h-3" />{key}
+    </button>
+  ));
+
+  const handleOpenRunner = async () => {
+    if (!activeRun) return;
+    try {
+      const res = await api.openRunnerWindow(activeRun.id, activeRun.testKey);
+      if (!res.success) setError(res.error?.message || 'Failed to open runner');
+      else setSuccess(`Runner opened for ${activeRun.testKey} — refresh here when it is finished`);
+    } catch (err: any) { setError(err.message || 'Failed to open runner'); }
+  };
+
+  const statusCounts = runs.reduce<Record<string, number>>((acc, r) => {
+    acc[r.status] = (acc[r.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-teal-600 to-cyan-600 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+            <ClipboardCheck className="w-6 h-6" />
+          </div>
+          <div><h2 className="text-2xl font-bold">Run Tests</h2>
+            <p className="text-teal-100 text-sm">Record PASS / FAIL results per test and per step</p></div>
+        </div>
+      </div>
+
+      {error   && <Alert type="error"   message={error}   onDismiss={() => setError('')} />}
+      {success && <Alert type="success" message={success} onDismiss={() => setSuccess('')} />}
+
+      {/* Execution picker */}
+      <div className="bg-white rounded-xl border-2 border-slate-200 p-6 shadow-sm">
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <IssueValidator value={executionKey} onChange={setExecutionKey}
+              onValidation={handleExecutionValidation} label="Test Execution"
+              placeholder="MTD-400" allowedTypes={['Test Execution']} required />
+          </div>
+          {validatedExecution && (
+            <div className="flex gap-2 pb-0.5">
+              <button type="button" onClick={() => loadRuns(validatedExecution.key)} disabled={isLoadingRuns}
+                className="flex items-center gap-2 px-4 py-2 border-2 border-teal-300 text-teal-700 rounded-lg hover:bg-teal-50 disabled:opacity-50 font-semibold text-sm">
+                <RefreshCw className={`w-4 h-4 ${isLoadingRuns ? 'animate-spin' : ''}`} /> Refresh
+              </button>
+              <button type="button" onClick={() => api.openExternal(`${auth.jiraBaseUrl}/browse/${validatedExecution.key}`)}
+                className="flex items-center gap-1 px-4 py-2 bg-teal-600 text-white rounded-lg text-sm font-semibold hover:bg-teal-700">
+                Open in Jira <ExternalLink className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+        {runs.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {STATUS_OPTIONS.filter(s => statusCounts[s]).map(s => (
+              <span key={s} className="flex items-center gap-1.5 text-sm text-slate-600">
+                <TestRunStatusBadge status={s} /> {statusCounts[s]}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {runs.length > 0 && (
+        <div className="grid grid-cols-1 xl:grid-cols-[320px,1fr] gap-6">
+          {/* Run list */}
+          <div className="bg-white rounded-xl border-2 border-slate-200 shadow-sm overflow-hidden self-start">
+            <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-200">
+              <ListChecks className="w-5 h-5 text-teal-600" />
+              <h3 className="font-bold text-slate-900">Tests</h3>
+              <span className="px-2 py-0.5 bg-teal-100 text-teal-800 rounded-full text-xs font-bold">{runs.length}</span>
+            </div>
+            <div className="divide-y divide-slate-100 max-h-[600px] overflow-y-auto">
+              {runs.map(run => (
+                <button key={run.id} type="button" onClick={() => openRun(run.id)}
+                  className={`w-full flex items-center justify-between px-4 py-2.5 text-left transition-colors ${
+                    activeRun?.id === run.id ? 'bg-teal-50' : 'hover:bg-slate-50'
+                  }`}>
+                  <span className="font-mono text-sm font-semibold text-slate-800">{run.testKey}</span>
+                  <TestRunStatusBadge status={run.status} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Run detail */}
+          <div className="space-y-4">
+            {isLoadingRun && (
+              <div className="bg-white rounded-xl border-2 border-slate-200 p-6 flex items-center gap-3 text-slate-600">
+                <div className="w-5 h-5 border-2 border-teal-600 border-t-transparent rounded-full animate-spin" />
+                Loading test run…
+              </div>
+            )}
+
+            {!isLoadingRun && !activeRun && (
+              <div className="bg-white rounded-xl border-2 border-dashed border-slate-300 p-10 text-center text-slate-500">
+                Select a test to record its result
+              </div>
+            )}
+
+            {!isLoadingRun && activeRun && (
+              <>
+                <div className="bg-white rounded-xl border-2 border-slate-200 p-6 shadow-sm">
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                      <span className="font-bold text-lg text-slate-900">{activeRun.testKey}</span>
+                      <TestRunStatusBadge status={activeRun.status} />
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button type="button" onClick={() => setDefectTarget({})}
+                        className="flex items-center gap-1.5 px-3 py-1.5 border border-red-300 text-red-700 rounded-lg text-xs font-semibold hover:bg-red-50">
+                        <Bug className="w-3.5 h-3.5" /> Create defect
+                      </button>
+                      <button type="button" onClick={handleOpenRunner}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-teal-600 text-white rounded-lg text-xs font-semibold hover:bg-teal-700">
+                        <PlayCircle className="w-3.5 h-3.5" /> Guided run
+                      </button>
+                      <button type="button" onClick={() => api.openExternal(`${auth.jiraBaseUrl}/browse/${activeRun.testKey}`)}
+                        className="flex items-center gap-1 text-xs font-semibold text-teal-700 hover:text-teal-900">
+                        Open test <ExternalLink className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-[200px,1fr] gap-4">
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-700 mb-1.5">Run Status</label>
+                      <select value={runStatus} onChange={e => setRunStatus(e.target.value as TestRunStatus)}
+                        className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500">
+                        {STATUS_OPTIONS.map(s => <option key={s} value={s}>{s}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-700 mb-1.5">
+                        <MessageSquare className="w-4 h-4 inline mr-1 text-slate-500" />Comment
+                      </label>
+                      <textarea value={runComment} onChange={e => setRunComment(e.target.value)} rows={2}
+                        placeholder="Overall notes for this run…"
+                        className="w-full px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 resize-none" />
+                    </div>
+                  </div>
+                  {activeRun.defects.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 mt-4">
+                      <span className="text-xs font-semibold text-slate-500 uppercase">Defects</span>
+                      {defectLinks(activeRun.defects)}
+                    </div>
+                  )}
+                  {defectTarget && defectTarget.stepId === undefined && (
+                    <div className="mt-4">
+                      <CreateDefectPanel testRunId={activeRun.id} onCreated={handleDefectCreated}
+                        onCancel={closeDefect} onError={setError} />
+                    </div>
+                  )}
+                  <div className="mt-4">
+                    <AttachmentPanel target={{ kind: 'testRun', testRunId: activeRun.id }} title="Run evidence" onError={setError} />
+                  </div>
+                </div>
+
+                {/* Steps */}
+                <div className="bg-white rounded-xl border-2 border-slate-200 p-6 shadow-sm">
+                  <div className="flex items-center gap-2 mb-4">
+                    <ListChecks className="w-5 h-5 text-teal-600" />
+                    <h3 className="font-bold text-slate-900 text-lg">Steps</h3>
+                    <span className="px-2 py-0.5 bg-teal-100 text-teal-800 rounded-full text-xs font-bold">{activeRun.steps.length}</span>
+                  </div>
+                  {activeRun.steps.length === 0 && (
+                    <p className="text-sm text-slate-500">This test has no manual steps — set the run status above.</p>
+                  )}
+                  <div className="space-y-3">
+                    {activeRun.steps.map(step => (
+                      <div key={step.id} className={`p-4 border-2 rounded-lg ${stepEdits[step.id] ? 'border-teal-300 bg-teal-50/40' : 'border-slate-200 bg-slate-50'}`}>
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-bold text-slate-600">Step {step.index}</span>
+                            {defectLinks(step.defects)}
+                            {stepValue(step, 'status') === 'FAIL' && defectTarget?.stepId !== step.id && (
+                              <button type="button" onClick={() => setDefectTarget({ stepId: step.id })}
+                                className="flex items-center gap-1 text-xs font-semibold text-red-700 hover:text-red-900">
+                                <Bug className="w-3 h-3" /> Create defect
+                              </button>
+                            )}
+                          </div>
+                          <div className="flex gap-1">
+                            {STATUS_OPTIONS.map(s => (
+                              <button key={s} type="button" onClick={() => editStep(step, { status: s })}
+                                className={`px-2 py-1 rounded text-xs font-bold border transition-colors ${
+                                  stepValue(step, 'status') === s
+                                    ? 'bg-teal-600 text-white border-teal-700'
+                                    : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-100'
+                                }`}>
+                                {s}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm mb-3">
+                          <div><div className="text-xs font-semibold text-slate-500 uppercase">Action</div><div className="text-slate-800 whitespace-pre-wrap">{step.step}</div></div>
+                          <div><div className="text-xs font-semibold text-slate-500 uppercase">Data</div><div className="text-slate-800 whitespace-pre-wrap">{step.data || '—'}</div></div>
+                          <div><div className="text-xs font-semibold text-slate-500 uppercase">Expected</div><div className="text-slate-800 whitespace-pre-wrap">{step.result}</div></div>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          <textarea value={stepValue(step, 'actualResult')} rows={2}
+                            onChange={e => editStep(step, { actualResult: e.target.value })}
+                            placeholder="Actual result"
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-400 resize-none" />
+                          <textarea value={stepValue(step, 'comment')} rows={2}
+                            onChange={e => editStep(step, { comment: e.target.value })}
+                            placeholder="Comment"
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-400 resize-none" />
+                        </div>
+                        {defectTarget?.stepId === step.id && (
+                          <div className="mt-3">
+                            <CreateDefectPanel testRunId={activeRun.id} stepId={step.id} onCreated={handleDefectCreated}
+                              onCancel={closeDefect} onError={setError} />
+                          </div>
+                        )}
+                        <div className="mt-3">
+                          <AttachmentPanel target={{ kind: 'testRun', testRunId: activeRun.id, stepId: step.id }}
+                            title="Step evidence" compact onError={setError} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <button type="button" onClick={handleSave}
+                  disabled={isSaving || (!isRunDirty && dirtyStepCount === 0)}
+                  className="w-full bg-gradient-to-r from-teal-600 to-cyan-600 text-white py-4 px-6 rounded-xl hover:from-teal-700 hover:to-cyan-700 disabled:opacity-50 disabled:cursor-not-allowed font-bold text-lg shadow-lg flex items-center justify-center gap-2">
+                  {isSaving
+                    ? <><div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />Saving…</>
+                    : <><Save className="w-6 h-6" />Save Results{dirtyStepCount > 0 ? ` (${dirtyStepCount} step${dirtyStepCount > 1 ? 's' : ''})` : ''}</>}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
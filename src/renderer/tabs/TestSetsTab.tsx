@@ -5,6 +5,8 @@
  * ✅ openExternal for "Open in Jira" (works in Electron)
  * ✅ Accurate success message
  * ✅ resetForm keeps banner visible; Clear wipes everything
+ * ✅ Paged JQL test browser with multi-select (replaces the 100-result label search)
+ * ✅ Created issue can be transitioned straight from the result banner
  */
 
 import React, { useState, useEffect, useRef } from 'react';
@@ -13,11 +15,13 @@ import api from '../api/electron';
 import { StoryLinker } from '../components/StoryLinker';
 import { TemplateSelector } from '../components/TemplateSelector';
 import { Alert } from '../components/common/Alert';
+import { TransitionPanel } from '../components/TransitionPanel';
+import { TestBrowser } from '../components/TestBrowser';
 import { MultiIssueValidator } from '../components/IssueValidator';
 import type { CreateTestSetInput, StoryValidationResult } from '../../shared/types';
 import {
   Package, Trash2, CheckCircle2, FileText,
-  User, Flag, Tag, Search, Copy, ExternalLink, X, Plus,
+  User, Flag, Tag, Search, Copy, ExternalLink, X,
 } from 'lucide-react';
 
 const emptyTestSet = (): CreateTestSetInput => ({
@@ -27,7 +31,7 @@ const emptyTestSet = (): CreateTestSetInput => ({
 interface CreatedItem { key: string; url: string; summary: string; }
 
 export const TestSetsTab: React.FC = () => {
-  const { auth, templates } = useAppStore();
+  const { auth, templates, addCreatedTestSet } = useAppStore();
   const [currentSet, setCurrentSet] = useState<CreateTestSetInput>(emptyTestSet());
   const [linkedStory, setLinkedStory] = useState<StoryValidationResult | null>(null);
   const [selectedTests, setSelectedTests] = useState<string[]>([]);
@@ -43,11 +47,6 @@ export const TestSetsTab: React.FC = () => {
   const [showLabelSuggestions, setShowLabelSuggestions] = useState(false);
   const labelRef = useRef<HTMLDivElement>(null);
 
-  // Test search
-  const [labelSearchQuery, setLabelSearchQuery] = useState('');
-  const [foundTestKeys, setFoundTestKeys] = useState<string[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
-
   useEffect(() => {
     api.getPriorities().then(r => { if (r.success) setPriorities(r.data); });
   }, []);
@@ -89,24 +88,9 @@ export const TestSetsTab: React.FC = () => {
   const removeLabel = (label: string) =>
     setCurrentSet(prev => ({ ...prev, labels: (prev.labels || []).filter(l => l !== label) }));
 
-  const handleSearchByLabel = async () => {
-    if (!labelSearchQuery.trim()) return;
-    setIsSearching(true); setError('');
-    try {
-      const result = await api.searchTestsByLabel(labelSearchQuery.trim());
-      if (result.success && result.data.length > 0) {
-        setFoundTestKeys(result.data);
-        setSuccess(`Found ${result.data.length} test(s) with label "${labelSearchQuery}"`);
-      } else { setError(`No tests found with label "${labelSearchQuery}"`); setFoundTestKeys([]); }
-    } catch (err: any) { setError(err.message || 'Search failed'); }
-    finally { setIsSearching(false); }
-  };
-
-  const handleAddFoundTests = () => {
-    const newTests = foundTestKeys.filter(k => !selectedTests.includes(k));
-    setSelectedTests([...selectedTests, ...newTests]);
-    setSuccess(`Added ${newTests.length} test(s) to selection`);
-    setFoundTestKeys([]); setLabelSearchQuery('');
+  const handleAddFoundTests = (keys: string[]) => {
+    setSelectedTests(prev => [...prev, ...keys.filter(k => !prev.includes(k))]);
+    setSuccess(`Added ${keys.length} test(s) to selection`);
   };
 
   const handleCreate = async () => {
@@ -117,6 +101,7 @@ export const TestSetsTab: React.FC = () => {
       if (!result.success) { setError(result.error?.message || 'Failed to create Test Set'); return; }
 
       const key = result.data.key;
+      addCreatedTestSet(key);
       const url = `${auth.jiraBaseUrl}/browse/${key}`;
       const linkErrors: string[] = [];
 
@@ -127,7 +112,8 @@ export const TestSetsTab: React.FC = () => {
 
       setCreatedItem({ key, url, summary: currentSet.summary });
       const linkedMsg = linkedStory && linkErrors.length === 0 ? ' linked to story' : '';
-      const errMsg = linkErrors.length > 0 ? ` (${linkErrors.join('; ')})` : '';
+      const problems = [...(result.data.warnings || []), ...linkErrors];
+      const errMsg = problems.length > 0 ? ` (${problems.join('; ')})` : '';
       setSuccess(`✅ Created Test Set: ${key}${linkedMsg}${errMsg}`);
       resetForm();
     } catch (err: any) { setError(err.message || 'Failed to create Test Set'); }
@@ -136,7 +122,7 @@ export const TestSetsTab: React.FC = () => {
 
   const resetForm = () => {
     setCurrentSet({ ...emptyTestSet(), reporter: auth.username || '' });
-    setLinkedStory(null); setSelectedTests([]); setFoundTestKeys([]); setLabelSearchQuery('');
+    setLinkedStory(null); setSelectedTests([]);
   };
 
   const handleClear = () => { resetForm(); setCreatedItem(null); setSuccess(''); setError(''); };
@@ -204,34 +190,8 @@ export const TestSetsTab: React.FC = () => {
           />
         </div>
         <div>
-          <label className="block text-sm font-semibold text-slate-700 mb-1.5">Search tests by label</label>
-          <div className="flex gap-2">
-            <input type="text" value={labelSearchQuery}
-              onChange={e => setLabelSearchQuery(e.target.value)}
-              onKeyDown={e => e.key === 'Enter' && handleSearchByLabel()}
-              placeholder="e.g. regression"
-              className="flex-1 px-4 py-2.5 border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500" />
-            <button type="button" onClick={handleSearchByLabel} disabled={isSearching}
-              className="flex items-center gap-2 px-4 py-2.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 font-semibold">
-              <Search className="w-4 h-4" />{isSearching ? 'Searching…' : 'Search'}
-            </button>
-          </div>
-          {foundTestKeys.length > 0 && (
-            <div className="mt-3 p-3 bg-purple-50 border border-purple-200 rounded-lg">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-semibold text-purple-800">Found {foundTestKeys.length} test(s)</span>
-                <button type="button" onClick={handleAddFoundTests}
-                  className="flex items-center gap-1.5 px-3 py-1.5 bg-purple-600 text-white rounded text-xs font-semibold hover:bg-purple-700">
-                  <Plus className="w-3 h-3" /> Add All
-                </button>
-              </div>
-              <div className="flex flex-wrap gap-1">
-                {foundTestKeys.map(k => (
-                  <span key={k} className="px-2 py-0.5 bg-white border border-purple-200 rounded text-xs font-mono">{k}</span>
-                ))}
-              </div>
-            </div>
-          )}
+          <label className="block text-sm font-semibold text-slate-700 mb-1.5">Browse tests</label>
+          <TestBrowser selectedKeys={selectedTests} onAdd={handleAddFoundTests} onError={setError} />
         </div>
         {selectedTests.length > 0 && (
           <div className="mt-4">
@@ -374,6 +334,9 @@ export const TestSetsTab: React.FC = () => {
               Open in Jira <ExternalLink className="w-3 h-3" />
             </button>
           </div>
+          <div className="px-5 py-3 border-t border-green-200 bg-white/60">
+            <TransitionPanel issueKeys={[createdItem.key]} onError={setError} />
+          </div>
         </div>
       )}
     </div>
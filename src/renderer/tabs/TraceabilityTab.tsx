@@ -0,0 +1,220 @@
+/**
+ * TraceabilityTab — story → test → execution matrix for release audits
+ * ✅ Stories by epic, sprint, fix version or JQL
+ * ✅ Covering tests, their test sets and the status in every execution
+ * ✅ Filter by coverage state or text; uncovered / failing stories are highlighted
+ * ✅ Export the report as HTML or CSV
+ */
+
+import React, { useState } from 'react';
+import api from '../api/electron';
+import { Alert } from '../components/common/Alert';
+import { TestRunStatusBadge } from '../components/TestRunStatusBadge';
+import type { CoverageState, TraceabilityFormat, TraceabilityReport, TraceabilityScope } from '../../shared/types';
+import { Network, Search, FileCode, FileSpreadsheet } from 'lucide-react';
+
+const SCOPES: { id: TraceabilityScope; label: string; placeholder: string }[] = [
+  { id: 'epic', label: 'Epic', placeholder: 'MTD-12' },
+  { id: 'sprint', label: 'Sprint', placeholder: 'Sprint 14 (name or id)' },
+  { id: 'fixVersion', label: 'Fix Version', placeholder: '2.4.0' },
+  { id: 'jql', label: 'JQL', placeholder: 'project = MTD AND issuetype = Story AND labels = payments' },
+];
+
+const STATE_FILTERS: { id: CoverageState | 'ALL'; label: string }[] = [
+  { id: 'ALL', label: 'All stories' },
+  { id: 'UNCOVERED', label: 'No tests' },
+  { id: 'FAILING', label: 'Only failing' },
+  { id: 'COVERED', label: 'Covered' },
+];
+
+const STATE_CLASSES: Record<CoverageState, string> = {
+  UNCOVERED: 'bg-red-50 text-red-800',
+  FAILING: 'bg-orange-50 text-orange-800',
+  COVERED: 'bg-green-50 text-green-800',
+};
+
+export const TraceabilityTab: React.FC = () => {
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [scope, setScope] = useState<TraceabilityScope>('fixVersion');
+  const [value, setValue] = useState('');
+  const [report, setReport] = useState<TraceabilityReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [stateFilter, setStateFilter] = useState<CoverageState | 'ALL'>('ALL');
+  const [textFilter, setTextFilter] = useState('');
+
+  const handleBuild = async () => {
+    setIsLoading(true); setError(''); setSuccess('');
+    try {
+      const res = await api.buildTraceability({ scope, value });
+      if (!res.success) { setError(res.error?.message || 'Failed to build report'); return; }
+      setReport(res.data);
+    } catch (err: any) { setError(err.message || 'Failed to build report'); }
+    finally { setIsLoading(false); }
+  };
+
+  const handleExport = async (format: TraceabilityFormat) => {
+    if (!report) return;
+    setIsExporting(true); setError(''); setSuccess('');
+    try {
+      const res = await api.exportTraceability(report, format);
+      if (!res.success) { setError(res.error?.message || 'Export failed'); return; }
+      if (res.data) setSuccess(`✅ Saved ${res.data}`);
+    } catch (err: any) { setError(err.message || 'Export failed'); }
+    finally { setIsExporting(false); }
+  };
+
+  const text = textFilter.trim().toLowerCase();
+  const stories = (report?.stories || [])
+    .filter(s => stateFilter === 'ALL' || s.state === stateFilter)
+    .filter(s => !text || [s.key, s.summary, ...s.tests.flatMap(t => [t.key, t.summary])]
+      .some(v => v.toLowerCase().includes(text)));
+
+  const countOf = (state: CoverageState) => (report?.stories || []).filter(s => s.state === state).length;
+  const current = SCOPES.find(s => s.id === scope)!;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-cyan-600 to-sky-600 rounded-xl p-6 text-white shadow-lg">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center">
+            <Network className="w-6 h-6" />
+          </div>
+          <div><h2 className="text-2xl font-bold">Traceability</h2>
+            <p className="text-cyan-100 text-sm">Stories, covering tests, test sets and execution results in one matrix</p></div>
+        </div>
+      </div>
+
+      {error   && <Alert type="error"   message={error}   onDismiss={() => setError('')} />}
+      {success && <Alert type="success" message={success} onDismiss={() => setSuccess('')} />}
+
+      <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-3">
+        <div className="flex gap-4">
+          {SCOPES.map(s => (
+            <label key={s.id} className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={scope === s.id} onChange={() => setScope(s.id)} className="w-4 h-4" />
+              <span className="text-sm font-medium text-slate-700">{s.label}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input type="text" value={value} onChange={e => setValue(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && value.trim() && handleBuild()}
+            placeholder={current.placeholder}
+            className={`flex-1 px-4 py-2.5 text-sm border-2 border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-400 ${scope === 'jql' ? 'font-mono' : ''}`} />
+          <button type="button" onClick={handleBuild} disabled={isLoading || !value.trim()}
+            className="flex items-center gap-2 px-4 py-2.5 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 disabled:opacity-50 font-semibold">
+            <Search className="w-4 h-4" />{isLoading ? 'Building…' : 'Build Report'}
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          Epic, sprint and fix version include every issue except Xray tests, sets, executions, plans and pre-conditions.
+        </p>
+      </div>
+
+      {report && (
+        <div className="bg-white rounded-xl border-2 border-slate-200 p-6 space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-slate-900 text-lg">{report.title}</h3>
+              <p className="text-xs text-slate-500">
+                {report.stories.length} stories · {countOf('COVERED')} covered · {countOf('FAILING')} only failing · {countOf('UNCOVERED')} without tests
+              </p>
+              <p className="text-xs font-mono text-slate-400 mt-1">{report.jql}</p>
+            </div>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => handleExport('html')} disabled={isExporting}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-cyan-700 border border-cyan-300 rounded-lg hover:bg-cyan-50 disabled:opacity-50">
+                <FileCode className="w-4 h-4" /> HTML
+              </button>
+              <button type="button" onClick={() => handleExport('csv')} disabled={isExporting}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-cyan-700 border border-cyan-300 rounded-lg hover:bg-cyan-50 disabled:opacity-50">
+                <FileSpreadsheet className="w-4 h-4" /> CSV
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {STATE_FILTERS.map(f => (
+              <button key={f.id} type="button" onClick={() => setStateFilter(f.id)}
+                className={`px-3 py-1 rounded-full text-xs font-semibold border ${
+                  stateFilter === f.id ? 'bg-cyan-600 text-white border-cyan-600' : 'text-slate-600 border-slate-300 hover:bg-slate-50'
+                }`}>
+                {f.label}
+              </button>
+            ))}
+            <input type="text" value={textFilter} onChange={e => setTextFilter(e.target.value)}
+              placeholder="Filter by key or summary"
+              className="ml-auto px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-cyan-400" />
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs font-semibold text-slate-600">
+                <tr>
+                  <th className="px-3 py-2">Story</th>
+                  <th className="px-3 py-2">Test</th>
+                  <th className="px-3 py-2">Test Sets</th>
+                  <th className="px-3 py-2">Latest</th>
+                  {report.executions.map(exec => (
+                    <th key={exec} className="px-3 py-2 font-mono whitespace-nowrap">{exec}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {stories.length === 0 && (
+                  <tr><td colSpan={4 + report.executions.length} className="px-3 py-4 text-center text-slate-500">No stories match</td></tr>
+                )}
+                {stories.map(story => {
+                  const span = Math.max(1, story.tests.length);
+                  const storyCell = (
+                    <td rowSpan={span} className={`px-3 py-2 align-top ${STATE_CLASSES[story.state]}`}>
+                      <div className="font-mono font-semibold">{story.key}</div>
+                      <div className="text-xs max-w-xs">{story.summary}</div>
+                      <div className="text-xs opacity-70">{story.status}</div>
+                    </td>
+                  );
+
+                  if (story.tests.length === 0) {
+                    return (
+                      <tr key={story.key}>
+                        {storyCell}
+                        <td colSpan={3 + report.executions.length} className="px-3 py-2 text-xs text-red-700 font-semibold">
+                          No covering tests
+                        </td>
+                      </tr>
+                    );
+                  }
+
+                  return story.tests.map((test, i) => (
+                    <tr key={`${story.key}-${test.key}`}>
+                      {i === 0 && storyCell}
+                      <td className="px-3 py-2">
+                        <div className="font-mono font-semibold">{test.key}</div>
+                        <div className="text-xs text-slate-600 max-w-xs truncate">{test.summary}</div>
+                      </td>
+                      <td className="px-3 py-2 text-xs font-mono">{test.testSets.join(', ')}</td>
+                      <td className="px-3 py-2"><TestRunStatusBadge status={test.latestStatus} /></td>
+                      {report.executions.map(exec => {
+                        const run = test.runs.find(r => r.executionKey === exec);
+                        return (
+                          <td key={exec} className="px-3 py-2" title={run?.environments.join(', ')}>
+                            {run && <TestRunStatusBadge status={run.status} />}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ));
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
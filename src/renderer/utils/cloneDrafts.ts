@@ -0,0 +1,59 @@
+/**
+ * Turns an existing Test into new drafts ("copy MTD-1234 but for Android")
+ *
+ * - One draft per copy; each find/replace rule has a replacement per copy
+ * - Rules apply to the summary and the steps (or the Gherkin / Generic
+ *   definition for tests without steps)
+ * - Step ids are dropped so the drafts create new steps
+ */
+
+import type { CreateTestInput, ExistingTest, TestStepInput } from '../../shared/types';
+
+export interface ReplaceRule {
+  find: string;
+  replacements: string[];  // One per copy
+}
+
+export interface CloneOptions {
+  copies: number;
+  matchCase: boolean;
+  linkBack: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Apply all rules for one copy; replacements are literal (no $1 patterns)
+ */
+export function applyRules(text: string, rules: ReplaceRule[], copy: number, matchCase: boolean): string {
+  return rules.reduce((result, rule) => {
+    if (!rule.find) return result;
+    const replacement = rule.replacements[copy] ?? '';
+    return result.replace(new RegExp(escapeRegExp(rule.find), matchCase ? 'g' : 'gi'), () => replacement);
+  }, text);
+}
+
+export function cloneToDrafts(source: ExistingTest, rules: ReplaceRule[], options: CloneOptions): CreateTestInput[] {
+  const activeRules = rules.filter(r => r.find);
+
+  return Array.from({ length: Math.max(1, options.copies) }, (_, copy) => {
+    const replace = (text = '') => applyRules(text, activeRules, copy, options.matchCase);
+    const summary = replace(source.test.summary);
+
+    return {
+      ...source.test,
+      summary: summary === source.test.summary ? `${summary} - copy` : summary,
+      gherkin: replace(source.test.gherkin),
+      definition: replace(source.test.definition),
+      steps: source.test.steps.map(({ step, data, result }): TestStepInput => ({
+        step: replace(step),
+        data: replace(data),
+        result: replace(result),
+      })),
+      labels: [...(source.test.labels || [])],
+      components: [...(source.test.components || [])],
+      fixVersions: [...(source.test.fixVersions || [])],
+      clonedFrom: options.linkBack ? source.key : undefined,
+    };
+  });
+}
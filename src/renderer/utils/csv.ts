@@ -0,0 +1,190 @@
+/**
+ * CSV helpers for the test case import wizard
+ * RFC 4180 parsing (quoted fields, escaped quotes, embedded newlines),
+ * column mapping and grouping of multi-row steps into one test.
+ */
+
+import type { CreateTestInput, TestStepInput, TestType } from '../../shared/types';
+
+export type CsvField =
+  | 'ignore'
+  | 'summary'
+  | 'description'
+  | 'testType'
+  | 'priority'
+  | 'labels'
+  | 'components'
+  | 'definition'
+  | 'step'
+  | 'data'
+  | 'result';
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  ignore: '— Ignore —',
+  summary: 'Summary',
+  description: 'Description',
+  testType: 'Test Type',
+  priority: 'Priority',
+  labels: 'Labels',
+  components: 'Components',
+  definition: 'Gherkin / Definition',
+  step: 'Step Action',
+  data: 'Step Data',
+  result: 'Step Expected Result',
+};
+
+/** Column index → field */
+export type CsvMapping = CsvField[];
+
+export interface CsvTestRow {
+  rowNumber: number;          // 1-based record of the test's first row, header included
+  test: CreateTestInput;
+  errors: string[];
+}
+
+const HEADER_ALIASES: Record<Exclude<CsvField, 'ignore'>, string[]> = {
+  summary: ['summary', 'title', 'name', 'test name', 'test case'],
+  description: ['description', 'details'],
+  testType: ['type', 'test type'],
+  priority: ['priority'],
+  labels: ['labels', 'label', 'tags'],
+  components: ['components', 'component'],
+  definition: ['definition', 'gherkin', 'scenario', 'generic definition'],
+  step: ['step', 'action', 'step action', 'steps'],
+  data: ['data', 'test data', 'step data', 'input'],
+  result: ['result', 'expected', 'expected result', 'expected results'],
+};
+
+const TEST_TYPES: TestType[] = ['Manual', 'Automated', 'Cucumber', 'Generic'];
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+export function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] || '';
+  return [',', ';', '\t']
+    .map(d => ({ d, count: header.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+}
+
+/**
+ * Parse CSV text into rows of cells; fully empty lines are dropped
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+      continue;
+    }
+
+    if (ch === '"' && cell === '') inQuotes = true;
+    else if (ch === delimiter) { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+/**
+ * Map header names to fields by common aliases; unknown columns are ignored
+ */
+export function guessMapping(headers: string[]): CsvMapping {
+  const used = new Set<CsvField>();
+  return headers.map(header => {
+    const name = header.trim().toLowerCase();
+    const match = (Object.keys(HEADER_ALIASES) as Exclude<CsvField, 'ignore'>[])
+      .find(field => !used.has(field) && HEADER_ALIASES[field].includes(name));
+    if (!match) return 'ignore';
+    used.add(match);
+    return match;
+  });
+}
+
+const splitList = (value: string) => value.split(/[,;\n]/).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Build tests from data rows (header excluded). A row with an empty summary
+ * continues the previous test and contributes one more step.
+ * Priority names are resolved to ids through `priorities`.
+ */
+export function rowsToTests(
+  rows: string[][],
+  mapping: CsvMapping,
+  priorities: { id: string; name: string }[]
+): CsvTestRow[] {
+  const tests: CsvTestRow[] = [];
+
+  rows.forEach((cells, index) => {
+    const value = (field: CsvField) => {
+      const col = mapping.indexOf(field);
+      return col >= 0 ? (cells[col] || '').trim() : '';
+    };
+
+    const step: TestStepInput = { step: value('step'), data: value('data'), result: value('result') };
+    const hasStep = Boolean(step.step || step.data || step.result);
+    const summary = value('summary');
+    const current = tests[tests.length - 1];
+
+    if (!summary) {
+      if (!current) {
+        tests.push({ rowNumber: index + 2, test: { summary: '', testType: 'Manual', steps: [], priority: '' }, errors: ['Row has no summary'] });
+      } else if (hasStep) {
+        current.test.steps.push(step);
+      }
+      return;
+    }
+
+    const errors: string[] = [];
+    const rawType = value('testType');
+    const testType = rawType
+      ? TEST_TYPES.find(t => t.toLowerCase() === rawType.toLowerCase())
+      : 'Manual';
+    if (!testType) errors.push(`Unknown test type "${rawType}"`);
+
+    const rawPriority = value('priority');
+    const priority = rawPriority
+      ? priorities.find(p => p.name.toLowerCase() === rawPriority.toLowerCase() || p.id === rawPriority)
+      : undefined;
+    if (rawPriority && !priority) errors.push(`Unknown priority "${rawPriority}"`);
+
+    const test: CreateTestInput = {
+      summary,
+      description: value('description'),
+      testType: testType || 'Manual',
+      steps: hasStep ? [step] : [],
+      priority: priority?.id || '',
+      labels: splitList(value('labels')),
+      components: splitList(value('components')),
+    };
+    if (test.testType === 'Cucumber') {
+      test.scenarioType = /^\s*Examples:/m.test(value('definition')) ? 'Scenario Outline' : 'Scenario';
+      test.gherkin = value('definition');
+    }
+    if (test.testType === 'Generic') test.definition = value('definition');
+
+    tests.push({ rowNumber: index + 2, test, errors });
+  });
+
+  return tests;
+}
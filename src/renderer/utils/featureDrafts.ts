@@ -0,0 +1,120 @@
+/**
+ * Turns parsed .feature scenarios into draft manual tests
+ *
+ * Step mapping (And/But take the keyword of the line above):
+ * - Given → data of the next step (the setup it runs against)
+ * - When  → step action; consecutive Whens join one action
+ * - Then  → expected result of the current step
+ * Background steps run before every scenario. Tags become labels.
+ */
+
+import type { CreateTestInput, FeatureExamples, FeatureScenario, FeatureStep, ParsedFeature, TestStepInput } from '../../shared/types';
+
+/** perRow: one test per Examples row; dataset: one test with the table in its description */
+export type OutlineMode = 'perRow' | 'dataset';
+
+const withArgument = (step: FeatureStep) => (step.argument ? `${step.text}\n${step.argument}` : step.text);
+
+const substitute = (text: string, values: Record<string, string>) =>
+  text.replace(/<([^<>]+)>/g, (match, name: string) => values[name] ?? match);
+
+/**
+ * Group Gherkin steps into Xray action / data / expected result steps
+ */
+export function gherkinToSteps(steps: FeatureStep[]): TestStepInput[] {
+  const result: TestStepInput[] = [];
+  let current: TestStepInput | null = null;
+  let pendingData: string[] = [];
+  let previous = 'Given';
+
+  for (const step of steps) {
+    const keyword = step.keyword === 'And' || step.keyword === 'But' || step.keyword === '*' ? previous : step.keyword;
+    previous = keyword;
+    const text = withArgument(step);
+
+    if (keyword === 'Given') {
+      pendingData.push(text);
+    } else if (keyword === 'When') {
+      if (current && !current.result && pendingData.length === 0) {
+        current.step = `${current.step}\n${text}`;
+      } else {
+        if (current) result.push(current);
+        current = { step: text, data: pendingData.join('\n'), result: '' };
+        pendingData = [];
+      }
+    } else {
+      if (!current || pendingData.length > 0) {
+        if (current) result.push(current);
+        current = { step: 'Verify', data: pendingData.join('\n'), result: '' };
+        pendingData = [];
+      }
+      current.result = current.result ? `${current.result}\n${text}` : text;
+    }
+  }
+
+  if (current) result.push(current);
+  if (pendingData.length > 0) result.push({ step: 'Set up', data: pendingData.join('\n'), result: '' });
+  return result;
+}
+
+/**
+ * Jira wiki table for an Examples block
+ */
+const examplesTable = (examples: FeatureExamples) => [
+  `||${examples.header.join('||')}||`,
+  ...examples.rows.map(row => `|${row.join('|')}|`),
+].join('\n');
+
+const joinParagraphs = (...parts: string[]) => parts.filter(Boolean).join('\n\n');
+
+/**
+ * Draft tests for the given scenarios of a feature
+ */
+export function featureToTests(
+  feature: ParsedFeature,
+  scenarios: FeatureScenario[],
+  outlineMode: OutlineMode
+): CreateTestInput[] {
+  return scenarios.flatMap(scenario => {
+    const base = {
+      testType: 'Manual' as const,
+      priority: '',
+      labels: [...new Set([...feature.tags, ...scenario.tags])],
+    };
+    const steps = [...feature.background, ...scenario.steps];
+    const description = joinParagraphs(feature.name ? `Feature: ${feature.name}` : '', feature.description, scenario.description);
+
+    if (!scenario.outline || scenario.examples.length === 0) {
+      return [{ ...base, summary: scenario.name, description, steps: gherkinToSteps(steps) }];
+    }
+
+    if (outlineMode === 'dataset') {
+      const tables = scenario.examples.map(e => joinParagraphs(e.name ? `*${e.name}*` : '', examplesTable(e)));
+      return [{
+        ...base,
+        summary: scenario.name,
+        description: joinParagraphs(description, 'Dataset:', ...tables),
+        labels: [...new Set([...base.labels, ...scenario.examples.flatMap(e => e.tags)])],
+        steps: gherkinToSteps(steps),
+      }];
+    }
+
+    return scenario.examples.flatMap(examples =>
+      examples.rows.map(row => {
+        const values = Object.fromEntries(examples.header.map((name, i) => [name, row[i] ?? '']));
+        const rowLabel = examples.header.map(name => `${name}=${values[name]}`).join(', ');
+        return {
+          ...base,
+          summary: `${substitute(scenario.name, values)} (${rowLabel})`.slice(0, 255),
+          description,
+          labels: [...new Set([...base.labels, ...examples.tags])],
+          steps: gherkinToSteps(steps.map(s => ({
+            ...s,
+            text: substitute(s.text, values),
+            argument: s.argument && substitute(s.argument, values),
+          }))),
+        };
+      })
+    );
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * Gherkin helpers for Cucumber test definitions
+ * Line classification (for highlighting) and basic syntax validation.
+ * The text is the scenario body Xray stores in "Cucumber Scenario":
+ * steps, tables, doc strings and - for outlines - Examples.
+ */
+
+import type { CucumberScenarioType } from '../../shared/types';
+
+export const GHERKIN_STEP_KEYWORDS = ['Given', 'When', 'Then', 'And', 'But', '*'] as const;
+
+export type GherkinLineKind = 'step' | 'examples' | 'table' | 'docstring' | 'tag' | 'comment' | 'blank' | 'text';
+
+export interface GherkinLine {
+  kind: GherkinLineKind;
+  keyword?: string;   // Step keyword or "Examples:" when kind is step/examples
+  text: string;       // Full original line
+}
+
+export interface GherkinIssue {
+  line: number;       // 1-based
+  message: string;
+}
+
+const STEP_PATTERN = /^\s*(Given|When|Then|And|But|\*)(\s|$)/;
+const EXAMPLES_PATTERN = /^\s*(Examples|Scenarios):/;
+const PLACEHOLDER_PATTERN = /<([^<>\s][^<>]*)>/g;
+const DOC_STRING_PATTERN = /^\s*("""|```)/;
+
+/**
+ * Classify every line; lines inside a doc string are all 'docstring'
+ */
+export function parseGherkinLines(text: string): GherkinLine[] {
+  let inDocString = false;
+
+  return text.split('\n').map((line): GherkinLine => {
+    const trimmed = line.trim();
+
+    if (DOC_STRING_PATTERN.test(line)) {
+      inDocString = !inDocString;
+      return { kind: 'docstring', text: line };
+    }
+    if (inDocString) return { kind: 'docstring', text: line };
+    if (!trimmed) return { kind: 'blank', text: line };
+    if (trimmed.startsWith('#')) return { kind: 'comment', text: line };
+    if (trimmed.startsWith('@')) return { kind: 'tag', text: line };
+    if (trimmed.startsWith('|')) return { kind: 'table', text: line };
+
+    const examples = line.match(EXAMPLES_PATTERN);
+    if (examples) return { kind: 'examples', keyword: `${examples[1]}:`, text: line };
+
+    const step = line.match(STEP_PATTERN);
+    if (step) return { kind: 'step', keyword: step[1], text: line };
+
+    return { kind: 'text', text: line };
+  });
+}
+
+/**
+ * Basic checks - not a full Gherkin parser, just the mistakes Xray rejects
+ * or silently mis-imports
+ */
+export function validateGherkin(text: string, scenarioType: CucumberScenarioType): GherkinIssue[] {
+  const lines = parseGherkinLines(text);
+  const issues: GherkinIssue[] = [];
+  const isOutline = scenarioType === 'Scenario Outline';
+
+  if (!lines.some(l => l.kind === 'step')) {
+    issues.push({ line: 1, message: 'Add at least one Given/When/Then step' });
+  }
+
+  let seenStep = false;
+  let tableColumns: number | null = null;
+  let examplesHeader: string[] | null = null;
+  let examplesRows = 0;
+  let inExamples = false;
+  const placeholders = new Map<string, number>();
+
+  lines.forEach((line, i) => {
+    const lineNo = i + 1;
+    if (line.kind !== 'table') tableColumns = null;
+
+    switch (line.kind) {
+      case 'step':
+        if (!seenStep && (line.keyword === 'And' || line.keyword === 'But')) {
+          issues.push({ line: lineNo, message: `"${line.keyword}" cannot be the first step` });
+        }
+        if (inExamples) {
+          issues.push({ line: lineNo, message: 'Steps must come before Examples' });
+        }
+        if (line.text.trim() === line.keyword) {
+          issues.push({ line: lineNo, message: 'Step has no text' });
+        }
+        for (const match of line.text.matchAll(PLACEHOLDER_PATTERN)) {
+          if (!placeholders.has(match[1])) placeholders.set(match[1], lineNo);
+        }
+        seenStep = true;
+        break;
+
+      case 'examples':
+        if (!isOutline) {
+          issues.push({ line: lineNo, message: 'Examples are only allowed in a Scenario Outline' });
+        }
+        inExamples = true;
+        break;
+
+      case 'table': {
+        const cells = line.text.trim().replace(/^\||\|$/g, '').split('|').map(c => c.trim());
+        if (!line.text.trim().endsWith('|')) {
+          issues.push({ line: lineNo, message: 'Table row must end with "|"' });
+        }
+        if (tableColumns !== null && cells.length !== tableColumns) {
+          issues.push({ line: lineNo, message: `Expected ${tableColumns} columns, found ${cells.length}` });
+        }
+        if (tableColumns === null && inExamples && !examplesHeader) {
+          examplesHeader = cells;
+        } else if (inExamples) {
+          examplesRows++;
+        }
+        tableColumns = tableColumns ?? cells.length;
+        break;
+      }
+
+      case 'text':
+        issues.push({
+          line: lineNo,
+          message: `Line must start with ${GHERKIN_STEP_KEYWORDS.join(', ')}${isOutline ? ' or Examples:' : ''}`,
+        });
+        break;
+
+      default:
+        break;
+    }
+  });
+
+  const fences = lines.filter(l => DOC_STRING_PATTERN.test(l.text)).length;
+  if (fences % 2 === 1) {
+    issues.push({ line: lines.length, message: 'Doc string is not closed' });
+  }
+
+  if (isOutline) {
+    if (!examplesHeader) {
+      issues.push({ line: lines.length, message: 'A Scenario Outline needs an Examples table' });
+    } else {
+      if (examplesRows === 0) {
+        issues.push({ line: lines.length, message: 'Examples table needs at least one data row' });
+      }
+      const header: string[] = examplesHeader;
+      placeholders.forEach((lineNo, name) => {
+        if (!header.includes(name)) {
+          issues.push({ line: lineNo, message: `<${name}> is not a column in Examples` });
+        }
+      });
+    }
+  } else if (placeholders.size > 0) {
+    const [first] = placeholders.values();
+    issues.push({ line: first, message: 'Placeholders like <name> need a Scenario Outline' });
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
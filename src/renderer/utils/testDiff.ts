@@ -0,0 +1,194 @@
+/**
+ * Works out what changed between a loaded Test and the edited form
+ *
+ * - Fields compare by value (arrays element-wise, order kept)
+ * - Steps match by their Xray id: edited ones are updated, missing ones
+ *   deleted, and steps without an id are appended as new
+ * - Xray has no move endpoint, so a reorder or a mid-test insert rewrites the
+ *   existing step slots in the new order, then appends or trims at the end
+ */
+
+import type {
+  CreateTestInput,
+  FieldUpdateResult,
+  TestStep,
+  TestStepChanges,
+  TestStepInput,
+  UpdateTestInput,
+} from '../../shared/types';
+
+type EditableField = keyof UpdateTestInput['fields'];
+
+const EDITABLE_FIELDS: EditableField[] = [
+  'summary', 'description', 'testType', 'scenarioType', 'gherkin', 'definition',
+  'priority', 'assignee', 'reporter', 'labels', 'components', 'fixVersions', 'dueDate', 'folderPath',
+];
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const left = (a as unknown[]) || [];
+    const right = (b as unknown[]) || [];
+    return left.length === right.length && left.every((v, i) => v === right[i]);
+  }
+  return (a ?? '') === (b ?? '');
+};
+
+const isBlankStep = (s: TestStepInput) => !s.step && !s.data && !s.result;
+
+const sameStep = (a: TestStepInput, b: TestStepInput) => a.step === b.step && a.data === b.data && a.result === b.result;
+
+const toTestStep = (slot: TestStep, content: TestStepInput): TestStep =>
+  ({ id: slot.id, index: slot.index, step: content.step, data: content.data, result: content.result });
+
+/** Original steps that exist in Xray, with their 1-based position */
+const savedSteps = (original: TestStepInput[]): TestStep[] =>
+  original
+    .filter(s => s.id !== undefined)
+    .map((s, i) => ({ id: s.id as number, index: i + 1, step: s.step, data: s.data, result: s.result }));
+
+/** New blank steps are dropped; a cleared existing step is still an edit */
+const targetSteps = (current: TestStepInput[]) => current.filter(s => s.id !== undefined || !isBlankStep(s));
+
+export type StepDiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface StepDiffLine {
+  status: StepDiffStatus;
+  moved: boolean;
+  before?: TestStep;
+  after?: TestStepInput & { index: number };
+}
+
+/**
+ * Changed fields only, with their new values
+ */
+export function diffTestFields(original: CreateTestInput, current: CreateTestInput): UpdateTestInput['fields'] {
+  const changed: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (!sameValue(original[field], current[field])) changed[field] = current[field];
+  }
+  return changed as UpdateTestInput['fields'];
+}
+
+/**
+ * True when the edit cannot be expressed by id: kept steps were reordered,
+ * or a new step sits before an existing one
+ */
+export function rewritesSteps(original: TestStepInput[], current: TestStepInput[]): boolean {
+  const saved = savedSteps(original);
+  const savedIds = new Set(saved.map(s => s.id));
+  const target = targetSteps(current);
+
+  const keptOrder = target.map(s => s.id).filter(id => id !== undefined && savedIds.has(id));
+  const originalOrder = saved.map(s => s.id).filter(id => keptOrder.includes(id));
+  if (keptOrder.some((id, i) => id !== originalOrder[i])) return true;
+
+  const firstNew = target.findIndex(s => s.id === undefined);
+  return firstNew !== -1 && target.slice(firstNew).some(s => s.id !== undefined);
+}
+
+/**
+ * Step updates, additions and removals; indexes refer to the original test
+ */
+export function diffTestSteps(original: TestStepInput[], current: TestStepInput[]): TestStepChanges {
+  const saved = savedSteps(original);
+  const target = targetSteps(current);
+  const content = ({ step, data, result }: TestStepInput): TestStepInput => ({ step, data, result });
+
+  if (rewritesSteps(original, current)) {
+    return {
+      update: target
+        .slice(0, saved.length)
+        .flatMap((s, i) => (sameStep(saved[i], s) ? [] : [toTestStep(saved[i], s)])),
+      add: target.slice(saved.length).map(content),
+      remove: saved.slice(target.length),
+    };
+  }
+
+  const byId = new Map(saved.map(s => [s.id, s]));
+  const keptIds = new Set(target.map(s => s.id));
+
+  const update = target.flatMap(step => {
+    const before = step.id !== undefined ? byId.get(step.id) : undefined;
+    return before && !sameStep(before, step) ? [toTestStep(before, step)] : [];
+  });
+
+  return {
+    update,
+    add: target.filter(s => s.id === undefined).map(content),
+    remove: saved.filter(s => !keptIds.has(s.id)),
+  };
+}
+
+/**
+ * Before/after view of the steps, in the new order with deleted steps last
+ */
+export function describeStepDiff(original: TestStepInput[], current: TestStepInput[]): StepDiffLine[] {
+  const saved = savedSteps(original);
+  const byId = new Map(saved.map(s => [s.id, s]));
+  const target = targetSteps(current);
+  const keptIds = new Set(target.map(s => s.id));
+
+  // Moved = order changed among the kept steps, not shifted by inserts/deletes
+  const keptRank = new Map(saved.filter(s => keptIds.has(s.id)).map((s, i) => [s.id, i]));
+  let rank = 0;
+
+  const lines: StepDiffLine[] = target.map((step, i) => {
+    const after = { ...step, index: i + 1 };
+    const before = step.id !== undefined ? byId.get(step.id) : undefined;
+    if (!before) return { status: 'added', moved: false, after };
+    return {
+      status: sameStep(before, step) ? 'unchanged' : 'changed',
+      moved: keptRank.get(before.id) !== rank++,
+      before,
+      after,
+    };
+  });
+
+  const removed = saved
+    .filter(s => !keptIds.has(s.id))
+    .map((before): StepDiffLine => ({ status: 'removed', moved: false, before }));
+
+  return [...lines, ...removed];
+}
+
+export const countStepChanges = (changes: TestStepChanges) =>
+  changes.update.length + changes.add.length + changes.remove.length;
+
+/**
+ * Deleting or reordering steps is destructive enough to ask for a review
+ */
+export const needsStepReview = (original: TestStepInput[], current: TestStepInput[]) =>
+  rewritesSteps(original, current) || diffTestSteps(original, current).remove.length > 0;
+
+/**
+ * Put the edits that failed to save back on top of the reloaded test, so the
+ * next save only sends those. Results are matched by the labels updateTest
+ * gives them: the field name, "Step N (deleted)", "Step N" and "New step N".
+ */
+export function reapplyFailedChanges(
+  reloaded: CreateTestInput,
+  current: CreateTestInput,
+  changes: UpdateTestInput,
+  results: FieldUpdateResult[]
+): CreateTestInput {
+  const failed = new Set(results.filter(r => !r.success).map(r => r.field));
+  const form: CreateTestInput = { ...reloaded, steps: reloaded.steps.map(s => ({ ...s })) };
+
+  for (const field of Object.keys(changes.fields) as EditableField[]) {
+    if (failed.has(field)) (form as unknown as Record<string, unknown>)[field] = current[field];
+  }
+
+  const removeIds = new Set(changes.steps.remove.filter(s => failed.has(`Step ${s.index} (deleted)`)).map(s => s.id));
+  const updates = new Map(changes.steps.update.filter(s => failed.has(`Step ${s.index}`)).map(s => [s.id, s]));
+  const added = changes.steps.add.filter((_, i) => failed.has(`New step ${i + 1}`));
+
+  const steps = form.steps
+    .filter(s => (s.id === undefined ? !isBlankStep(s) : !removeIds.has(s.id)))
+    .map(s => {
+      const update = s.id !== undefined ? updates.get(s.id) : undefined;
+      return update ? { id: s.id, step: update.step, data: update.data, result: update.result } : s;
+    });
+  steps.push(...added.map(s => ({ ...s })));
+  form.steps = steps.length > 0 ? steps : [{ step: '', data: '', result: '' }];
+  return form;
+}
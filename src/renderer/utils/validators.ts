@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { validateGherkin } from './gherkin';
 
 // Test Step Schema
 export const TestStepSchema = z.object({
@@ -14,11 +15,10 @@ export const TestStepSchema = z.object({
 
 export type TestStepInput = z.infer<typeof TestStepSchema>;
 
-// Test Case Schema
-export const TestCaseSchema = z.object({
+// Test Case Schema - required fields switch by test type
+const TestCaseBaseSchema = z.object({
   summary: z.string().min(5, 'Summary must be at least 5 characters').max(255),
   description: z.string().max(5000).optional(),
-  testType: z.enum(['Manual', 'Automated']),
   priority: z.string().optional(),
   assignee: z.string().email('Must be a valid email').optional().or(z.literal('')),
   labels: z.array(z.string()).optional(),
@@ -26,9 +26,31 @@ export const TestCaseSchema = z.object({
   fixVersions: z.array(z.string()).optional(),
   environments: z.array(z.string()).optional(),
   dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional().or(z.literal('')),
-  steps: z.array(TestStepSchema).min(1, 'At least one step is required'),
 });
 
+const StepsSchema = z.array(TestStepSchema).min(1, 'At least one step is required');
+
+export const TestCaseSchema = z
+  .discriminatedUnion('testType', [
+    TestCaseBaseSchema.extend({ testType: z.literal('Manual'), steps: StepsSchema }),
+    TestCaseBaseSchema.extend({ testType: z.literal('Automated'), steps: StepsSchema }),
+    TestCaseBaseSchema.extend({
+      testType: z.literal('Cucumber'),
+      scenarioType: z.enum(['Scenario', 'Scenario Outline']),
+      gherkin: z.string().trim().min(1, 'Gherkin definition is required').max(32000),
+    }),
+    TestCaseBaseSchema.extend({
+      testType: z.literal('Generic'),
+      definition: z.string().trim().min(1, 'Generic definition is required').max(32000),
+    }),
+  ])
+  .superRefine((test, ctx) => {
+    if (test.testType !== 'Cucumber') return;
+    for (const issue of validateGherkin(test.gherkin, test.scenarioType)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['gherkin'], message: `Line ${issue.line}: ${issue.message}` });
+    }
+  });
+
 export type TestCaseInput = z.infer<typeof TestCaseSchema>;
 
 // Test Set Schema
@@ -74,28 +96,8 @@ export const StoryKeySchema = z.string().regex(
   'Invalid issue key format (e.g., MTD-12345)'
 );
 
-// Template Variable Schema
-export const TemplateVariableSchema = z.object({
-  name: z.string().min(1),
-  label: z.string().min(1),
-  type: z.enum(['text', 'date', 'select', 'number']),
-  required: z.boolean(),
-  defaultValue: z.string().optional(),
-  options: z.array(z.string()).optional(),
-  placeholder: z.string().optional(),
-});
-
-// Template Schema
-export const TemplateSchema = z.object({
-  id: z.string(),
-  name: z.string().min(1, 'Template name is required'),
-  issueType: z.enum(['Test', 'TestSet', 'TestExecution']),
-  description: z.string().optional(),
-  fields: z.record(z.any()),
-  variables: z.array(TemplateVariableSchema),
-  createdAt: z.string(),
-  updatedAt: z.string(),
-});
+// Template schemas live in shared so main can validate stored templates
+export { TemplateVariableSchema, TemplateSchema } from '../../shared/schemas';
 
 /**
  * Validation helper function
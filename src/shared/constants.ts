@@ -21,6 +21,7 @@ export const ISSUE_TYPES = {
   TEST_SET: 'Test Set',
   TEST_EXECUTION: 'Test Execution',
   TEST_PLAN: 'Test Plan',
+  PRECONDITION: 'Pre-Condition',
   STORY: 'Story',
   BUG: 'Bug',
 } as const;
@@ -29,6 +30,31 @@ export const ISSUE_TYPES = {
 export const TEST_TYPES = {
   MANUAL: 'Manual',
   AUTOMATED: 'Automated',
+  CUCUMBER: 'Cucumber',
+  GENERIC: 'Generic',
+} as const;
+
+// Cucumber scenario types
+export const CUCUMBER_SCENARIO_TYPES = {
+  SCENARIO: 'Scenario',
+  SCENARIO_OUTLINE: 'Scenario Outline',
+} as const;
+
+// Xray custom fields whose IDs differ per instance - resolved by name via MetadataService
+export const XRAY_FIELD_NAMES = {
+  CUCUMBER_TEST_TYPE: 'Cucumber Test Type',
+  CUCUMBER_SCENARIO: 'Cucumber Scenario',
+  GENERIC_DEFINITION: 'Generic Test Definition',
+  PRECONDITION_TYPE: 'Pre-Condition Type',
+} as const;
+
+// Xray test run statuses (DC defaults)
+export const TEST_RUN_STATUSES = {
+  TODO: 'TODO',
+  EXECUTING: 'EXECUTING',
+  PASS: 'PASS',
+  FAIL: 'FAIL',
+  ABORTED: 'ABORTED',
 } as const;
 
 // Link types
@@ -74,16 +100,83 @@ export const IPC_CHANNELS = {
   CREATE_EXECUTION: 'test:createExecution',
   LINK_ISSUES: 'test:linkIssues',
   EXECUTE_WORKFLOW: 'test:executeWorkflow',
-  SEARCH_TESTS_BY_LABEL: 'test:searchByLabel',
+  SEARCH_TESTS: 'test:search',
+  SEARCH_TEST_KEYS: 'test:searchKeys',
   GET_TESTS_BY_KEYS: 'test:getByKeys',
   ADD_TEST_STEP: 'test:addStep',
   GET_TEST_STEPS: 'test:getSteps', // NEW: Get test steps
+  GET_TEST_FOR_EDIT: 'test:getForEdit',
+  UPDATE_TEST: 'test:update',
   
   // Xray Test Coverage
   LINK_TEST_TO_STORY: 'test:linkTestToStory',
   UNLINK_TEST_FROM_STORY: 'test:unlinkTestFromStory',
   GET_TEST_STORY_LINKS: 'test:getTestStoryLinks',
+  GET_STORY_COVERAGE: 'coverage:getStory',
+  UPDATE_STORY_COVERAGE: 'coverage:updateStory',
   
+  // Test runs (Xray execution runner)
+  GET_EXECUTION_TEST_RUNS: 'run:getExecutionTestRuns',
+  GET_TEST_RUN: 'run:getTestRun',
+  UPDATE_TEST_RUN: 'run:updateTestRun',
+  UPDATE_TEST_RUN_STEP: 'run:updateTestRunStep',
+  GET_EXECUTION_DASHBOARD: 'run:getExecutionDashboard',
+  OPEN_RUNNER_WINDOW: 'run:openRunnerWindow',
+  GET_DEFECT_DRAFT: 'run:getDefectDraft',
+  CREATE_DEFECT: 'run:createDefect',
+
+  // Attachments and run evidence
+  GET_ATTACHMENTS: 'attachment:list',
+  UPLOAD_ATTACHMENTS: 'attachment:upload',
+  DOWNLOAD_ATTACHMENT: 'attachment:download',
+  
+  // Results import
+  SELECT_JUNIT_FILE: 'import:selectJUnitFile',
+  IMPORT_JUNIT_RESULTS: 'import:junitResults',
+  SELECT_CUCUMBER_FILE: 'import:selectCucumberFile',
+  IMPORT_CUCUMBER_RESULTS: 'import:cucumberResults',
+  SELECT_FEATURE_FILE: 'import:selectFeatureFile',
+
+  // Export
+  EXPORT_ISSUES: 'export:issues',
+
+  // Saved Searches
+  GET_SAVED_SEARCHES: 'savedSearch:getAll',
+  SAVE_SEARCH: 'savedSearch:save',
+  DELETE_SAVED_SEARCH: 'savedSearch:delete',
+  GET_FAVOURITE_FILTERS: 'savedSearch:getFavouriteFilters',
+  IMPORT_FAVOURITE_FILTERS: 'savedSearch:importFavouriteFilters',
+
+  // Traceability
+  BUILD_TRACEABILITY: 'traceability:build',
+  EXPORT_TRACEABILITY: 'traceability:export',
+
+  // Bulk Edit
+  BULK_EDIT_PREVIEW: 'bulkEdit:preview',
+  BULK_EDIT_APPLY: 'bulkEdit:apply',
+
+  // Test Repository
+  GET_TEST_REPOSITORY_FOLDERS: 'repository:getFolders',
+  CREATE_TEST_REPOSITORY_FOLDER: 'repository:createFolder',
+  MOVE_TESTS_TO_FOLDER: 'repository:moveTests',
+
+  // Test Plans
+  CREATE_TEST_PLAN: 'testplan:create',
+  GET_TEST_PLAN: 'testplan:get',
+  UPDATE_TEST_PLAN_TESTS: 'testplan:updateTests',
+  UPDATE_TEST_PLAN_EXECUTIONS: 'testplan:updateExecutions',
+
+  // Pre-Conditions
+  CREATE_PRECONDITION: 'precondition:create',
+  SEARCH_PRECONDITIONS: 'precondition:search',
+  GET_TEST_PRECONDITIONS: 'precondition:getForTest',
+  ADD_TEST_PRECONDITIONS: 'precondition:addToTest',
+  REMOVE_TEST_PRECONDITION: 'precondition:removeFromTest',
+  
+  // Workflow transitions
+  GET_TRANSITIONS: 'transition:getAvailable',
+  TRANSITION_ISSUES: 'transition:apply',
+
   // Metadata operations
   GET_PRIORITIES: 'metadata:getPriorities',
   GET_LABEL_SUGGESTIONS: 'metadata:getLabelSuggestions',
@@ -99,6 +192,9 @@ export const IPC_CHANNELS = {
   SAVE_TEMPLATE: 'template:save',
   DELETE_TEMPLATE: 'template:delete',
   APPLY_TEMPLATE: 'template:apply',
+  SELECT_TEMPLATE_PACK: 'template:selectPack',
+  IMPORT_TEMPLATE_PACK: 'template:importPack',
+  EXPORT_TEMPLATE_PACK: 'template:exportPack',
 } as const;
 
 // Error codes
@@ -126,8 +222,12 @@ export const BUILT_IN_VARIABLES = {
 export const TIMEOUTS = {
   API_REQUEST: 30000,
   LOGIN: 10000,
+  ATTACHMENT_UPLOAD: 120000,
 } as const;
 
+// Identifies template pack files; the pack's own version drives migrations
+export const TEMPLATE_PACK_FORMAT = 'jira-xray-orchestrator/template-pack';
+
 // Rate limiting
 export const RATE_LIMITS = {
   MAX_CONCURRENT_REQUESTS: 5,
@@ -143,4 +243,64 @@ export const VALIDATION_LIMITS = {
   MAX_TESTS_PER_WORKFLOW: 50,
   MAX_TEMPLATES: 100,
   MAX_LABELS: 20,
-} as const;
\ No newline at end of file
+  MAX_IMPORT_FILE_BYTES: 20 * 1024 * 1024,
+  MAX_EXPORT_ISSUES: 2000,
+  MAX_BULK_EDIT_ISSUES: 500,
+  MAX_SEARCH_PAGE_SIZE: 100,
+  MAX_SEARCH_SELECT_ALL: 1000,
+  MAX_SAVED_SEARCHES: 200,
+  MAX_COVERAGE_TESTS: 500,
+  MAX_TRACEABILITY_STORIES: 200,
+  MAX_ATTACHMENT_BYTES: 10 * 1024 * 1024,
+  MAX_ATTACHMENTS_PER_UPLOAD: 20,
+  MAX_TRANSITION_ISSUES: 200,
+} as const;
+
+// File types accepted as attachments and run evidence (screenshots, recordings, HAR files, logs, reports)
+export const ATTACHMENT_EXTENSIONS = [
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp',
+  'mp4', 'webm', 'mov',
+  'har', 'log', 'txt', 'json', 'xml', 'html', 'csv',
+  'pdf', 'zip', 'gz',
+] as const;
+
+// Export columns per entity, in default output order
+export const EXPORT_COLUMNS = {
+  tests: [
+    { id: 'key', label: 'Key' },
+    { id: 'summary', label: 'Summary' },
+    { id: 'status', label: 'Status' },
+    { id: 'priority', label: 'Priority' },
+    { id: 'testType', label: 'Test Type' },
+    { id: 'labels', label: 'Labels' },
+    { id: 'components', label: 'Components' },
+    { id: 'assignee', label: 'Assignee' },
+    { id: 'stepNumber', label: 'Step #' },
+    { id: 'step', label: 'Step Action' },
+    { id: 'data', label: 'Step Data' },
+    { id: 'result', label: 'Expected Result' },
+  ],
+  testSets: [
+    { id: 'key', label: 'Key' },
+    { id: 'summary', label: 'Summary' },
+    { id: 'status', label: 'Status' },
+    { id: 'labels', label: 'Labels' },
+    { id: 'testCount', label: 'Tests' },
+    { id: 'tests', label: 'Test Keys' },
+  ],
+  executions: [
+    { id: 'key', label: 'Key' },
+    { id: 'summary', label: 'Summary' },
+    { id: 'status', label: 'Status' },
+    { id: 'fixVersions', label: 'Fix Versions' },
+    { id: 'assignee', label: 'Assignee' },
+    { id: 'total', label: 'Tests' },
+    { id: 'passed', label: 'Passed' },
+    { id: 'failed', label: 'Failed' },
+    { id: 'todo', label: 'To Do' },
+    { id: 'passRate', label: 'Pass Rate' },
+  ],
+} as const;
+
+// Selecting any of these expands test exports to one row per step
+export const EXPORT_STEP_COLUMNS = ['stepNumber', 'step', 'data', 'result'] as const;
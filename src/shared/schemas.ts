@@ -0,0 +1,32 @@
+/**
+ * Zod Schemas shared by main and renderer
+ * Main validates what it reads from and writes to disk with the same schemas
+ * the renderer uses for forms
+ */
+
+import { z } from 'zod';
+
+// Template Variable Schema
+export const TemplateVariableSchema = z.object({
+  name: z.string().min(1),
+  label: z.string().min(1),
+  type: z.enum(['text', 'date', 'select', 'number']),
+  required: z.boolean(),
+  defaultValue: z.string().optional(),
+  options: z.array(z.string()).optional(),
+  placeholder: z.string().optional(),
+});
+
+// Template Schema - unknown keys (e.g. the builtIn flags) are stripped
+export const TemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, 'Template name is required'),
+  issueType: z.enum(['Test', 'TestSet', 'TestExecution']),
+  description: z.string().optional(),
+  fields: z
+    .object({ summary: z.string().min(1, 'Template must have a summary field') })
+    .catchall(z.union([z.string(), z.array(z.string())]).optional()),
+  variables: z.array(TemplateVariableSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
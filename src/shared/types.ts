@@ -103,6 +103,7 @@ export interface CreateIssueResponse {
   id: string;
   key: string;
   self: string;
+  warnings?: string[];    // Post-create steps that failed; the issue itself exists
 }
 
 export interface StoryValidationResult {
@@ -115,19 +116,35 @@ export interface StoryValidationResult {
 // ==================== Test Input Types ====================
 
 export interface TestStepInput {
+  id?: number;        // Xray step id - set when the step was loaded from an existing test
   step: string;
   data: string;
   result: string;
 }
 
+export interface TestStep extends TestStepInput {
+  id: number;
+  index: number;      // 1-based position in the test
+}
+
 export interface LabelSuggestion {
   label: string;
 }
 
+export type TestType = 'Manual' | 'Automated' | 'Cucumber' | 'Generic';
+
+export type CucumberScenarioType = 'Scenario' | 'Scenario Outline';
+
 export interface CreateTestInput {
   summary: string;
   description?: string;
-  testType: 'Manual' | 'Automated';
+  testType: TestType;
+  scenarioType?: CucumberScenarioType;  // Cucumber only
+  gherkin?: string;                     // Cucumber only - scenario body (steps, examples)
+  definition?: string;                  // Generic only - e.g. script path or command
+  folderPath?: string;                  // Test Repository folder, e.g. "/Checkout/Payments"
+  clonedFrom?: string;                  // Source Test key - the new test is linked back with "Clones"
+  transitionTo?: string;                // Workflow transition (by name) run right after create
   priority: string;
   assignee?: string;
   reporter?: string;  // ✅ ADDED - Reporter field for test case creation
@@ -146,6 +163,58 @@ export interface CreateTestSetInput {
   assignee?: string;
   reporter?: string;  // ✅ ADDED - Reporter field for test set creation
   labels?: string[];
+  transitionTo?: string;  // Workflow transition (by name) run right after create
+}
+
+export interface CreateTestPlanInput {
+  summary: string;
+  description?: string;
+  assignee?: string;
+  reporter?: string;
+  fixVersions?: string[];
+  labels?: string[];
+}
+
+// Keys to add to / remove from an Xray association (plan tests, plan executions, …)
+export interface AssociationChange {
+  add?: string[];
+  remove?: string[];
+}
+
+export interface TestPlanTest {
+  key: string;
+  summary: string;
+  latestStatus: string;   // Latest run status across the plan's executions (TODO if never run)
+}
+
+export interface TestPlanExecution {
+  key: string;
+  summary: string;
+}
+
+export interface TestPlanDetails {
+  key: string;
+  summary: string;
+  tests: TestPlanTest[];
+  executions: TestPlanExecution[];
+}
+
+export type PreconditionType = 'Manual' | 'Cucumber' | 'Generic';
+
+export interface CreatePreconditionInput {
+  summary: string;
+  description?: string;
+  preconditionType: PreconditionType;
+  conditions: string;     // Definition text (Gherkin for Cucumber)
+  priority?: string;
+  labels?: string[];
+}
+
+export interface Precondition {
+  key: string;
+  summary: string;
+  preconditionType?: string;
+  conditions?: string;
 }
 
 export interface CreateTestExecutionInput {
@@ -156,6 +225,7 @@ export interface CreateTestExecutionInput {
   environments?: string[];
   fixVersions?: string[];
   labels?: string[];
+  transitionTo?: string;  // Workflow transition (by name) run right after create
 }
 
 export interface WorkflowInput {
@@ -172,6 +242,32 @@ export interface WorkflowResult {
   executionKey: string;
   success: boolean;
   message: string;
+  warnings?: string[];    // Post-create steps that failed on created issues
+}
+
+// ==================== Test Edit Types ====================
+
+export interface ExistingTest {
+  key: string;
+  test: CreateTestInput;  // Current values in form shape; steps carry their ids
+}
+
+export interface TestStepChanges {
+  update: TestStep[];
+  add: TestStepInput[];   // Appended after the existing steps
+  remove: TestStep[];
+}
+
+export interface UpdateTestInput {
+  testKey: string;
+  fields: Partial<Omit<CreateTestInput, 'steps'>>;  // Changed fields only
+  steps: TestStepChanges;
+}
+
+export interface FieldUpdateResult {
+  field: string;          // CreateTestInput field name, or "Step N" for step changes
+  success: boolean;
+  error?: string;
 }
 
 // ==================== Template Types ====================
@@ -199,6 +295,8 @@ export interface TemplateFields {
   fixVersions?: string[];
   environments?: string[];
   dueDate?: string;
+  folderPath?: string;    // Test Repository folder for created tests
+  transitionTo?: string;  // Workflow transition (by name) run right after create
   [key: string]: string | string[] | undefined;
 }
 
@@ -211,6 +309,8 @@ export interface Template {
   variables: TemplateVariable[];
   createdAt: string;
   updatedAt: string;
+  builtIn?: boolean;      // Shipped with the app; saving it stores an override instead
+  overridden?: boolean;   // Built-in replaced by a saved override; deleting restores it
 }
 
 export interface TemplateApplication {
@@ -222,3 +322,499 @@ export interface AppliedTemplate {
   fields: TemplateFields;
 }
 
+/**
+ * Templates shared as one file, e.g. a squad's standard set distributed by its QA lead
+ */
+export interface TemplatePackInfo {
+  name: string;
+  description?: string;
+  author?: string;
+}
+
+export interface TemplatePack extends TemplatePackInfo {
+  format: string;
+  version: number;
+  exportedAt: string;
+  templates: Template[];
+}
+
+export interface TemplatePackExport extends TemplatePackInfo {
+  templateIds: string[];
+}
+
+/**
+ * What to do when an imported template has the id of one that already exists
+ */
+export type TemplateConflictMode = 'skip' | 'overwrite' | 'rename';
+
+export interface TemplatePackEntry {
+  id: string;
+  name: string;
+  issueType?: Template['issueType'];
+  conflict: boolean;      // Id already used by a built-in or saved template
+  error?: string;         // Invalid; never imported
+}
+
+export interface TemplatePackPreview extends TemplatePackInfo {
+  filePath: string;
+  fileName: string;
+  exportedAt?: string;
+  entries: TemplatePackEntry[];
+}
+
+export interface TemplatePackImport {
+  filePath: string;
+  mode: TemplateConflictMode;
+  templateIds?: string[]; // Only these entries; all valid ones when omitted
+}
+
+export interface TemplateImportResult {
+  id: string;
+  name: string;
+  outcome: 'created' | 'overwritten' | 'renamed' | 'skipped' | 'failed';
+  newId?: string;         // Set when renamed
+  error?: string;
+}
+
+
+// ==================== Workflow Transition Types ====================
+
+/**
+ * A field on a transition screen, from GET .../transitions?expand=transitions.fields
+ */
+export interface TransitionField {
+  key: string;
+  name: string;
+  required: boolean;
+  type: string;           // Jira schema type: string, option, resolution, user, array, comment, …
+  items?: string;         // Item type for arrays
+  allowedValues?: { id: string; name: string }[];
+}
+
+export interface IssueTransition {
+  id: string;
+  name: string;
+  toStatus: string;
+  fields: TransitionField[];
+}
+
+/**
+ * Run one transition, by name, on many issues; field values are keyed by field key
+ * (allowed value ids for select fields, text otherwise)
+ */
+export interface BulkTransitionRequest {
+  issueKeys: string[];
+  transitionName: string;
+  fields: Record<string, string>;
+}
+
+export interface TransitionResult {
+  key: string;
+  success: boolean;
+  status?: string;        // Status the issue moved to
+  error?: string;
+}
+
+// ==================== Test Run Types ====================
+
+export type TestRunStatus = 'TODO' | 'EXECUTING' | 'PASS' | 'FAIL' | 'ABORTED';
+
+/**
+ * One row of GET /rest/raven/1.0/api/testexec/{key}/test
+ */
+export interface TestRunSummary {
+  id: number;
+  testKey: string;
+  status: TestRunStatus;
+  rank: number;
+}
+
+export interface TestRunStep {
+  id: number;
+  index: number;
+  step: string;
+  data: string;
+  result: string;
+  status: TestRunStatus;
+  comment: string;
+  actualResult: string;
+  defects: string[];
+}
+
+export interface TestRun {
+  id: number;
+  testKey: string;
+  testExecKey: string;
+  status: TestRunStatus;
+  comment: string;
+  assignee?: string;
+  executedBy?: string;
+  startedOn?: string;
+  finishedOn?: string;
+  environments: string[];  // Of the Test Execution
+  fixVersions: string[];   // Of the Test Execution
+  defects: string[];       // Linked to the run itself; step defects are on the steps
+  steps: TestRunStep[];
+}
+
+export interface UpdateTestRunInput {
+  status?: TestRunStatus;
+  comment?: string;
+}
+
+export interface UpdateTestRunStepInput {
+  status?: TestRunStatus;
+  comment?: string;
+  actualResult?: string;
+}
+
+/**
+ * A Bug pre-filled from a failed run (stepId set when raised from one step)
+ */
+export interface DefectDraft {
+  testRunId: number;
+  testKey: string;
+  stepId?: number;
+  summary: string;
+  description: string;
+  environment: string;
+  fixVersions: string[];
+  priority?: string;              // Priority id
+  missingRequired: string[];      // Names of required Bug fields the app cannot fill
+}
+
+export interface CreatedDefect {
+  key: string;
+  warnings: string[];             // Link or run association that failed after the Bug was created
+}
+
+// ==================== Results Import Types ====================
+
+export type ImportedResultStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+export interface JUnitTestCase {
+  name: string;
+  classname: string;
+  suite: string;
+  time?: string;
+  status: ImportedResultStatus;
+  message?: string;
+  details?: string;
+  testKey?: string;       // From an @MTD-123 tag or a test_key property
+}
+
+export interface JUnitParseResult {
+  filePath: string;
+  fileName: string;
+  testCases: JUnitTestCase[];
+}
+
+export interface JUnitMappingStrategy {
+  byTag: boolean;         // @MTD-123 in testcase name/classname or test_key property
+  byName: boolean;        // Testcase name equals an existing Test summary
+  createMissing: boolean; // Create Automated tests for anything still unmatched
+}
+
+export interface JUnitImportInput {
+  filePath: string;
+  strategy: JUnitMappingStrategy;
+  testExecKey?: string;                 // Import into an existing execution...
+  execution?: CreateTestExecutionInput; // ...or create a new one with these fields
+}
+
+export type ImportMappingSource = 'tag' | 'name' | 'created' | 'unmatched';
+
+export interface ImportedTestMapping {
+  name: string;
+  status: ImportedResultStatus;
+  testKey?: string;
+  source: ImportMappingSource;
+  error?: string;         // Creating the missing Test failed; left unmatched
+}
+
+export interface ResultsImportResult {
+  executionKey: string;
+  mappings: ImportedTestMapping[];
+  importedCount: number;
+}
+
+export interface CucumberScenario {
+  id: string;             // "<feature uri>:<line>" - stable within one report
+  feature: string;
+  name: string;
+  keyword: string;        // Scenario / Scenario Outline
+  tags: string[];
+  status: ImportedResultStatus;
+  testKey?: string;       // First tag that resolves to an existing Test
+}
+
+export interface CucumberPreviewResult {
+  filePath: string;
+  fileName: string;
+  scenarios: CucumberScenario[];
+}
+
+export interface CucumberImportInput {
+  filePath: string;
+  execution: CreateTestExecutionInput;
+  includeUnmatched: boolean; // Unmatched scenarios make Xray create new Cucumber tests
+}
+
+// ==================== Feature File Types ====================
+
+export interface FeatureStep {
+  keyword: string;        // Given / When / Then / And / But / *
+  text: string;
+  argument?: string;      // Doc string or data table lines, when the step has one
+}
+
+export interface FeatureExamples {
+  name: string;
+  tags: string[];
+  header: string[];
+  rows: string[][];
+}
+
+export interface FeatureScenario {
+  name: string;
+  line: number;           // 1-based line of the Scenario keyword
+  outline: boolean;
+  tags: string[];         // Without the leading "@"
+  description: string;
+  steps: FeatureStep[];
+  examples: FeatureExamples[];
+}
+
+export interface ParsedFeature {
+  name: string;
+  description: string;
+  tags: string[];
+  background: FeatureStep[];
+  scenarios: FeatureScenario[];
+}
+
+export interface FeatureFileResult {
+  filePath: string;
+  fileName: string;
+  feature: ParsedFeature;
+}
+
+// ==================== Test Repository Types ====================
+
+export interface TestRepositoryFolder {
+  id: number;             // -1 for the repository root
+  name: string;
+  path: string;           // "/" for the root, "/Parent/Child" below it
+  testsCount: number;
+  folders: TestRepositoryFolder[];
+}
+
+// ==================== Search Types ====================
+
+export interface IssueQuery {
+  jql?: string;           // Takes precedence over keys when set
+  keys?: string[];        // e.g. the issues created this session
+}
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface IssueSearchRequest {
+  jql: string;            // Filter only; empty lists every Test in the project
+  startAt: number;
+  maxResults: number;
+  orderBy?: { field: string; direction: SortDirection };
+}
+
+export interface IssueSearchPage {
+  issues: JiraIssue[];
+  startAt: number;
+  maxResults: number;
+  total: number;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  jql: string;
+  jiraFilterId?: string;  // Set when imported from a Jira favourite filter
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JiraFilter {
+  id: string;
+  name: string;
+  jql: string;
+  owner: string;
+}
+
+// ==================== Export Types ====================
+
+export type ExportEntity = 'tests' | 'testSets' | 'executions';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportRequest extends IssueQuery {
+  entity: ExportEntity;
+  columns: string[];      // EXPORT_COLUMNS ids, in output order
+  format: ExportFormat;
+}
+
+export interface ExportResult {
+  filePath: string;
+  issueCount: number;
+  rowCount: number;
+}
+
+// ==================== Bulk Edit Types ====================
+
+export type BulkEditField = 'labels' | 'components' | 'fixVersions' | 'priority' | 'assignee';
+
+export type BulkEditMode = 'add' | 'remove' | 'replace';
+
+export interface BulkEditOperation {
+  field: BulkEditField;
+  mode: BulkEditMode;     // priority / assignee only support replace
+  values: string[];       // Names; priority is an id; an empty replace clears the field
+}
+
+export interface BulkEditIssue {
+  key: string;
+  summary: string;
+  labels: string[];
+  components: string[];
+  fixVersions: string[];
+  priority: string;       // Name, for display
+  assignee: string;
+}
+
+export interface BulkEditRequest {
+  keys: string[];
+  operations: BulkEditOperation[];
+}
+
+export interface BulkEditResult {
+  key: string;
+  success: boolean;
+  error?: string;
+}
+
+// ==================== Coverage Types ====================
+
+export type CoverageState = 'UNCOVERED' | 'FAILING' | 'COVERED';
+
+/**
+ * Latest run of a covering test in one Test Execution
+ */
+export interface CoverageRun {
+  executionKey: string;
+  environments: string[];
+  status: TestRunStatus;
+  finishedOn?: string;
+}
+
+export interface CoveringTest {
+  key: string;
+  summary: string;
+  latestStatus: TestRunStatus;  // Most recently finished run (TODO if never run)
+  runs: CoverageRun[];
+}
+
+export interface StoryCoverage {
+  key: string;
+  summary: string;
+  issueType: string;
+  tests: CoveringTest[];
+  state: CoverageState;         // FAILING when every covering test last failed
+}
+
+export interface CoverageChangeResult {
+  testKey: string;
+  action: 'add' | 'remove';
+  success: boolean;
+  error?: string;
+}
+
+// ==================== Traceability Types ====================
+
+export type TraceabilityScope = 'epic' | 'sprint' | 'fixVersion' | 'jql';
+
+export type TraceabilityFormat = 'html' | 'csv';
+
+export interface TraceabilityRequest {
+  scope: TraceabilityScope;
+  value: string;          // Epic key, sprint name or id, version name, or JQL
+}
+
+export interface TraceabilityTest extends CoveringTest {
+  testSets: string[];
+}
+
+export interface TraceabilityStory {
+  key: string;
+  summary: string;
+  status: string;
+  tests: TraceabilityTest[];
+  state: CoverageState;
+}
+
+export interface TraceabilityReport {
+  title: string;
+  jql: string;
+  generatedAt: string;
+  stories: TraceabilityStory[];
+  executions: string[];   // Every execution any covering test ran in, as matrix columns
+}
+
+// ==================== Dashboard Types ====================
+
+export interface DashboardRun {
+  id: number;
+  testKey: string;
+  summary: string;
+  status: TestRunStatus;
+  assignee: string;       // Run assignee, else who executed it; empty when neither
+  components: string[];   // Of the test
+  defects: string[];
+}
+
+export interface ExecutionDashboard {
+  key: string;
+  summary: string;
+  runs: DashboardRun[];
+  loadedAt: string;
+}
+
+// ==================== Attachment Types ====================
+
+/**
+ * Where attachments live: a Jira issue, or Xray evidence on a test run or one of its steps
+ */
+export type AttachmentTarget =
+  | { kind: 'issue'; issueKey: string }
+  | { kind: 'testRun'; testRunId: number; stepId?: number };
+
+export interface Attachment {
+  id: string;
+  fileName: string;
+  size: number;           // Bytes; 0 when Xray does not report it
+  mimeType: string;
+  created?: string;
+  author?: string;
+  url: string;            // Content URL on the Jira instance
+}
+
+/**
+ * A file read in the renderer (picker or drop), sent to main as bytes
+ */
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface AttachmentUploadResult {
+  fileName: string;
+  success: boolean;
+  error?: string;
+}